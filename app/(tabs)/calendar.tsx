@@ -1,14 +1,17 @@
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useFocusEffect } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import { useCallback, useState } from 'react';
 import { Dimensions, ScrollView, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { EntryDetailModal } from '../../components/EntryDetailModal';
 import { JournalEditorModal } from '../../components/JournalEditorModal';
 import { ZenHeading, ZenText } from '../../components/ui/Typography';
+import { getEmotionDefinition } from '../../constants/emotions';
 import { useTheme } from '../../hooks/useTheme';
 import { JournalEntry, StorageService } from '../../services/storage';
+import { formatDuration } from '../../utils/date';
+import { countTags } from '../../utils/tags';
 
 // Helper: Get days for the grid
 function getDaysInMonth(year: number, month: number) {
@@ -32,21 +35,20 @@ function getDaysInMonth(year: number, month: number) {
 
 const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
-const EMOTION_COLORS: Record<string, string> = {
-    happy: '#F59E0B',   // Amber
-    sad: '#6366F1',     // Indigo
-    excited: '#EC4899', // Pink
-    calm: '#10B981',    // Emerald
-    tired: '#64748B',   // Slate
-    neutral: '#9CA3AF'  // Gray
-};
+// 「よく話した話題」に表示するタグの数
+const TOP_TAG_COUNT = 5;
 
 export default function InsightsScreen() {
+    const router = useRouter();
     const { isDark, activeColors } = useTheme();
     const [currentDate, setCurrentDate] = useState(new Date());
     const [entriesMap, setEntriesMap] = useState<Record<string, JournalEntry[]>>({});
     const [stats, setStats] = useState({
         totalTime: 0,
+        userTime: 0,
+        aiTime: 0,
+        sessionCount: 0,
+        tagCounts: [] as { tag: string; count: number }[],
         topMood: 'neutral',
         streak: 0,
         monthlyVibe: 'No data yet'
@@ -61,14 +63,19 @@ export default function InsightsScreen() {
 
     // Load Data
     const loadData = async () => {
-        const allEntries = await StorageService.getJournalEntries();
-
         // Filter by current displayed month for some stats, but overall stats might be global?
         // Let's make stats Monthly based on the selected month.
         const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
-        const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+        const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0, 23, 59, 59, 999);
+
+        // date 列（インデックス付き）で当月分だけ読み込む
+        // 古い日記は date が UTC 基準の場合があるので前後1日広めに取り、createdAt で絞り込む
+        const rangeEntries = await StorageService.getJournalEntriesInRange(
+            formatDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth(), 0)),
+            formatDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1))
+        );
 
-        const monthEntries = allEntries.filter(e => {
+        const monthEntries = rangeEntries.filter(e => {
             const d = new Date(e.createdAt);
             return d >= startOfMonth && d <= endOfMonth;
         });
@@ -85,8 +92,11 @@ export default function InsightsScreen() {
         setEntriesMap(map);
 
         // 2. Stats Calculation
-        // Total Time
+        // Total Time (and speaking time breakdown for voice conversations)
         const totalSeconds = monthEntries.reduce((acc, curr) => acc + (curr.duration || 0), 0);
+        const userSeconds = monthEntries.reduce((acc, curr) => acc + (curr.talkTime?.userSeconds || 0), 0);
+        const aiSeconds = monthEntries.reduce((acc, curr) => acc + (curr.talkTime?.aiSeconds || 0), 0);
+        const sessionCount = monthEntries.filter(e => (e.duration || 0) > 0).length;
 
         // Top Mood
         const moodCounts: Record<string, number> = {};
@@ -110,6 +120,10 @@ export default function InsightsScreen() {
 
         setStats({
             totalTime: totalSeconds,
+            userTime: userSeconds,
+            aiTime: aiSeconds,
+            sessionCount,
+            tagCounts: countTags(monthEntries),
             topMood: topMood,
             streak: 0, // Placeholder or we can calculate active streak globally
             monthlyVibe: topMood !== 'None' ? `Mostly ${topMood}` : 'No data'
@@ -196,7 +210,7 @@ export default function InsightsScreen() {
                                 const dateKey = formatDateKey(day);
                                 const hasEntry = entriesMap[dateKey]?.length > 0;
                                 const emotion = hasEntry ? entriesMap[dateKey][0].emotion : null;
-                                const color = emotion ? EMOTION_COLORS[emotion] : (isDark ? '#334155' : '#1F2937');
+                                const color = emotion ? getEmotionDefinition(emotion).color : (isDark ? '#334155' : '#1F2937');
 
                                 return (
                                     <TouchableOpacity
@@ -285,7 +299,7 @@ export default function InsightsScreen() {
                                 return (
                                     <View className="gap-4">
                                         {dayEntries.map((entry) => {
-                                            const emotionColor = EMOTION_COLORS[entry.emotion] || EMOTION_COLORS.neutral;
+                                            const emotionColor = getEmotionDefinition(entry.emotion).color;
                                             return (
                                                 <View key={entry.id} className="p-5 rounded-3xl border" style={{
                                                     backgroundColor: isDark ? '#1E293B' : '#FFFFFF',
@@ -299,6 +313,12 @@ export default function InsightsScreen() {
                                                             <ZenText className="text-xs" style={{ color: isDark ? '#94A3B8' : '#94A3B8' }}>
                                                                 {new Date(entry.createdAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
                                                             </ZenText>
+                                                            {!!entry.duration && (
+                                                                <View className="flex-row items-center gap-1">
+                                                                    <Ionicons name="time-outline" size={12} color="#94A3B8" />
+                                                                    <ZenText className="text-xs" style={{ color: '#94A3B8' }}>{formatDuration(entry.duration)}</ZenText>
+                                                                </View>
+                                                            )}
                                                         </View>
                                                     </View>
 
@@ -310,6 +330,12 @@ export default function InsightsScreen() {
                                                         {entry.summary}
                                                     </ZenText>
 
+                                                    {entry.talkTime && (
+                                                        <ZenText className="text-xs mb-4" style={{ color: isDark ? '#94A3B8' : '#94A3B8' }}>
+                                                            あなたの発話 {formatDuration(entry.talkTime.userSeconds)}・AIの発話 {formatDuration(entry.talkTime.aiSeconds)}
+                                                        </ZenText>
+                                                    )}
+
                                                     <View className="flex-row gap-3">
                                                         <TouchableOpacity
                                                             onPress={() => setDetailEntry(entry)}
@@ -364,10 +390,72 @@ export default function InsightsScreen() {
                                         </View>
                                         <ZenText className="text-xs text-center" style={{ color: isDark ? '#94A3B8' : '#94A3B8' }}>総会話時間</ZenText>
                                     </View>
-                                    <ZenText className="text-xl font-bold" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>{Math.round(stats.totalTime / 60)} 分</ZenText>
+                                    <ZenText className="text-xl font-bold" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>{formatDuration(stats.totalTime)}</ZenText>
+                                    {stats.sessionCount > 0 && (
+                                        <ZenText className="text-xs mt-1" style={{ color: isDark ? '#94A3B8' : '#94A3B8' }}>
+                                            1回平均 {formatDuration(stats.totalTime / stats.sessionCount)}
+                                        </ZenText>
+                                    )}
                                 </View>
                             </View>
 
+                            {/* Talk Time Breakdown Card */}
+                            {stats.userTime + stats.aiTime > 0 && (() => {
+                                // 発話していない時間（考えている時間・沈黙）も含めた内訳
+                                const total = Math.max(stats.totalTime, stats.userTime + stats.aiTime);
+                                const silenceTime = total - stats.userTime - stats.aiTime;
+                                const segments = [
+                                    { label: 'あなた', seconds: stats.userTime, color: activeColors.primary },
+                                    { label: 'AI', seconds: stats.aiTime, color: '#94A3B8' },
+                                    { label: '沈黙・考える時間', seconds: silenceTime, color: isDark ? '#334155' : '#E2E8F0' },
+                                ];
+                                return (
+                                    <View className="p-4 rounded-3xl border shadow-sm mb-4" style={{
+                                        backgroundColor: isDark ? 'rgba(30,41,59,0.5)' : 'rgba(255,255,255,0.7)',
+                                        borderColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(255,255,255,0.5)'
+                                    }}>
+                                        <ZenText className="text-xs mb-3" style={{ color: isDark ? '#94A3B8' : '#94A3B8' }}>会話の内訳</ZenText>
+                                        <View className="flex-row h-2 rounded-full overflow-hidden mb-3">
+                                            {segments.map(segment => (
+                                                <View key={segment.label} style={{ flex: segment.seconds, backgroundColor: segment.color }} />
+                                            ))}
+                                        </View>
+                                        <View className="flex-row flex-wrap gap-x-4 gap-y-1">
+                                            {segments.map(segment => (
+                                                <View key={segment.label} className="flex-row items-center gap-1">
+                                                    <View className="w-2 h-2 rounded-full" style={{ backgroundColor: segment.color }} />
+                                                    <ZenText className="text-xs" style={{ color: isDark ? '#CBD5E1' : '#64748B' }}>
+                                                        {segment.label} {formatDuration(segment.seconds)}
+                                                    </ZenText>
+                                                </View>
+                                            ))}
+                                        </View>
+                                    </View>
+                                );
+                            })()}
+
+                            {/* Topics Card */}
+                            {stats.tagCounts.length > 0 && (
+                                <View className="p-4 rounded-3xl border shadow-sm mb-4" style={{
+                                    backgroundColor: isDark ? 'rgba(30,41,59,0.5)' : 'rgba(255,255,255,0.7)',
+                                    borderColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(255,255,255,0.5)'
+                                }}>
+                                    <ZenText className="text-xs mb-3" style={{ color: isDark ? '#94A3B8' : '#94A3B8' }}>よく話した話題</ZenText>
+                                    {stats.tagCounts.slice(0, TOP_TAG_COUNT).map(({ tag, count }) => (
+                                        <View key={tag} className="flex-row items-center gap-3 mb-2">
+                                            <ZenText className="text-sm w-24" numberOfLines={1} style={{ color: isDark ? '#E2E8F0' : '#334155' }}>#{tag}</ZenText>
+                                            <View className="flex-1 h-2 rounded-full overflow-hidden" style={{ backgroundColor: isDark ? '#334155' : '#E2E8F0' }}>
+                                                <View className="h-full rounded-full" style={{
+                                                    width: `${(count / stats.tagCounts[0].count) * 100}%`,
+                                                    backgroundColor: activeColors.primary
+                                                }} />
+                                            </View>
+                                            <ZenText className="text-xs w-8 text-right" style={{ color: isDark ? '#CBD5E1' : '#64748B' }}>{count}件</ZenText>
+                                        </View>
+                                    ))}
+                                </View>
+                            )}
+
                             {/* Monthly Vibe Card */}
                             <View className="p-5 rounded-3xl border shadow-sm mb-6 relative overflow-hidden" style={{
                                 backgroundColor: isDark ? 'rgba(30,41,59,0.5)' : 'rgba(255,255,255,0.7)',
@@ -389,8 +477,8 @@ export default function InsightsScreen() {
                                     {stats.topMood === 'excited' && 'エネルギッシュな活動が目立ちました！'}
                                 </ZenText>
 
-                                <TouchableOpacity className="mt-4 flex-row items-center">
-                                    <ZenText className="font-bold mr-1" style={{ color: activeColors.primary }}>詳細を見る</ZenText>
+                                <TouchableOpacity onPress={() => router.push('/retrospectives?period=month')} className="mt-4 flex-row items-center">
+                                    <ZenText className="font-bold mr-1" style={{ color: activeColors.primary }}>ふりかえりを見る</ZenText>
                                     <Ionicons name="arrow-forward" size={16} color={activeColors.primary} />
                                 </TouchableOpacity>
                             </View>
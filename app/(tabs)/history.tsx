@@ -1,46 +1,38 @@
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useFocusEffect } from 'expo-router';
-import { useCallback, useMemo, useState } from 'react';
-import { Alert, LayoutAnimation, ScrollView, TextInput, TouchableOpacity, View } from 'react-native';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, LayoutAnimation, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { JournalEditorModal } from '../../components/JournalEditorModal';
 import { MoodChart } from '../../components/ui/MoodChart';
 import { ZenHeading, ZenText } from '../../components/ui/Typography';
+import { Emotion, EMOTIONS, getEmotionDefinition } from '../../constants/emotions';
 import { useTheme } from '../../hooks/useTheme';
+import { GenerationQueue } from '../../services/generation-queue';
 import { JournalEntry, StorageService } from '../../services/storage';
+import { HighlightSegment, matchesSearchFilters, SearchFilters, SearchResult } from '../../utils/search';
+import { countTags } from '../../utils/tags';
 
-const EMOTION_COLORS: Record<string, string> = {
-  happy: '#F59E0B',   // Amber
-  sad: '#6366F1',     // Indigo
-  excited: '#EC4899', // Pink
-  calm: '#10B981',    // Emerald
-  tired: '#64748B',   // Slate
-  neutral: '#9CA3AF'  // Gray
-};
-
-const EMOTION_LABELS: Record<string, string> = {
-  happy: 'JOYFUL',
-  sad: 'SAD',
-  excited: 'EXCITED',
-  calm: 'CALM',
-  tired: 'TIRED',
-  neutral: 'NEUTRAL'
-};
-
-const EMOTION_ICONS: Record<string, string> = {
-  happy: 'happy-outline',
-  sad: 'sad-outline',
-  excited: 'flash-outline',
-  calm: 'leaf-outline',
-  tired: 'bed-outline',
-  neutral: 'person-outline'
-};
+// 期間の絞り込み（days: 何日前まで。null は全期間）
+const PERIOD_FILTERS: { label: string; days: number | null }[] = [
+  { label: '全期間', days: null },
+  { label: '1週間', days: 7 },
+  { label: '1ヶ月', days: 30 },
+  { label: '1年', days: 365 },
+];
+
+// 入力が止まってから検索するまでの時間
+const SEARCH_DEBOUNCE_MS = 200;
 
 export default function HistoryScreen() {
   const { isDark, activeColors } = useTheme();
   const [allEntries, setAllEntries] = useState<JournalEntry[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [selectedEmotion, setSelectedEmotion] = useState<Emotion | null>(null);
+  const [periodDays, setPeriodDays] = useState<number | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
 
@@ -51,17 +43,54 @@ export default function HistoryScreen() {
     setAllEntries(entries);
   };
 
-  const filteredEntries = useMemo(() => {
-    if (!searchQuery.trim()) return allEntries;
-    const lower = searchQuery.toLowerCase();
-    return allEntries.filter(e => 
-      e.title.toLowerCase().includes(lower) ||
-      e.summary.toLowerCase().includes(lower) ||
-      (EMOTION_LABELS[e.emotion] || '').toLowerCase().includes(lower)
-    );
-  }, [allEntries, searchQuery]);
+  // 使われているタグ（件数の多い順）
+  const tagCounts = useMemo(() => countTags(allEntries), [allEntries]);
+
+  const filters = useMemo<SearchFilters>(() => ({
+    tag: selectedTag ?? undefined,
+    emotion: selectedEmotion ?? undefined,
+    since: periodDays !== null ? Date.now() - periodDays * 24 * 60 * 60 * 1000 : undefined,
+  }), [selectedTag, selectedEmotion, periodDays]);
+
+  const isSearching = searchQuery.trim().length > 0;
+  const isFiltered = selectedTag !== null || selectedEmotion !== null || periodDays !== null;
+
+  // 日記と会話ログを検索（入力中は待ってから、関連度の高い順）
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await StorageService.searchJournalEntries(searchQuery, filters);
+      if (!cancelled) setSearchResults(results);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, isSearching, filters, allEntries]);
+
+  // 検索結果の強調表示用
+  const resultById = useMemo(
+    () => new Map(searchResults.map(result => [result.entry.id, result])),
+    [searchResults]
+  );
+
+  const filteredEntries = useMemo(
+    () => allEntries.filter(e => matchesSearchFilters(e, filters)),
+    [allEntries, filters]
+  );
 
   const sections = useMemo(() => {
+    if (isSearching) {
+      return searchResults.length > 0
+        ? [{ title: `検索結果 ${searchResults.length}件`, data: searchResults.map(result => result.entry) }]
+        : [];
+    }
+
+
     const grouped: Record<string, JournalEntry[]> = {};
     const today = new Date();
     const yesterday = new Date();
@@ -103,11 +132,13 @@ export default function HistoryScreen() {
         })
         .forEach(key => result.push({ title: key, data: grouped[key] }));
     return result;
-  }, [filteredEntries]);
+  }, [filteredEntries, isSearching, searchResults]);
 
   useFocusEffect(
     useCallback(() => {
       loadData();
+      // 作成待ちの日記が生成されたら再読み込み
+      return GenerationQueue.subscribe(loadData);
     }, [])
   );
 
@@ -123,6 +154,22 @@ export default function HistoryScreen() {
     return `${m}分 ${s}秒`;
   };
 
+  const renderHighlighted = (segments: HighlightSegment[]) => segments.map((segment, i) => (
+    segment.highlighted ? (
+      <Text
+        key={i}
+        style={{ fontWeight: 'bold', color: activeColors.primary, backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#FEF3C7' }}
+      >
+        {segment.text}
+      </Text>
+    ) : segment.text
+  ));
+
+  const chipStyle = (isSelected: boolean, color: string = activeColors.primary) => ({
+    backgroundColor: isSelected ? color : (isDark ? '#334155' : '#FFFFFF'),
+    borderColor: isSelected ? color : (isDark ? '#475569' : '#E2E8F0'),
+  });
+
   // Delete Action
   const handleDelete = (entry: JournalEntry) => {
     Alert.alert(
@@ -142,6 +189,12 @@ export default function HistoryScreen() {
     );
   };
 
+  // Retry Generation (status: failed)
+  const handleRetryGeneration = async (entry: JournalEntry) => {
+    await GenerationQueue.retry(entry.id);
+    loadData();
+  };
+
   // Save Edited Entry
   const handleSaveEdit = async (updatedEntry: JournalEntry) => {
     await StorageService.updateJournalEntry(updatedEntry);
@@ -169,7 +222,7 @@ export default function HistoryScreen() {
                 <TextInput
                     className="flex-1 ml-2 text-base"
                     style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}
-                    placeholder="検索（会話、気分など）"
+                    placeholder="検索（日記、会話の内容、タグなど）"
                     placeholderTextColor={isDark ? "#94A3B8" : "#64748B"}
                     value={searchQuery}
                     onChangeText={setSearchQuery}
@@ -180,19 +233,77 @@ export default function HistoryScreen() {
                     </TouchableOpacity>
                 )}
             </View>
+
+             {/* Tag Filter */}
+             {tagCounts.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+                    {tagCounts.map(({ tag, count }) => {
+                        const isSelected = selectedTag === tag;
+                        return (
+                            <TouchableOpacity
+                                key={tag}
+                                onPress={() => setSelectedTag(isSelected ? null : tag)}
+                                className="flex-row items-center px-3 py-1.5 rounded-full border"
+                                style={chipStyle(isSelected)}
+                            >
+                                <ZenText className="text-xs font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>
+                                    #{tag}
+                                </ZenText>
+                                <ZenText className="text-[10px] ml-1" style={{ color: isSelected ? 'rgba(255,255,255,0.8)' : '#94A3B8' }}>
+                                    {count}
+                                </ZenText>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </ScrollView>
+             )}
         </View>
 
-        {/* Categories (Visual only for now) */}
-        <View className="px-6 flex-row gap-6 mb-4 pb-2" style={{ borderBottomWidth: 1, borderBottomColor: isDark ? '#334155' : '#E2E8F0' }}>
-            <TouchableOpacity><ZenText className="font-bold border-b-2 pb-1" style={{ color: activeColors.primary, borderColor: activeColors.primary }}>すべて</ZenText></TouchableOpacity>
-            <TouchableOpacity><ZenText className="text-slate-400 font-medium">ムード</ZenText></TouchableOpacity>
-            <TouchableOpacity><ZenText className="text-slate-400 font-medium">お気に入り</ZenText></TouchableOpacity>
+        {/* Period / Emotion Filter */}
+        <View className="mb-4 pb-3" style={{ borderBottomWidth: 1, borderBottomColor: isDark ? '#334155' : '#E2E8F0' }}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8, paddingHorizontal: 24, alignItems: 'center' }}>
+                {PERIOD_FILTERS.map(({ label, days }) => {
+                    const isSelected = periodDays === days;
+                    return (
+                        <TouchableOpacity
+                            key={label}
+                            onPress={() => setPeriodDays(days)}
+                            className="px-3 py-1.5 rounded-full border"
+                            style={chipStyle(isSelected)}
+                        >
+                            <ZenText className="text-xs font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>
+                                {label}
+                            </ZenText>
+                        </TouchableOpacity>
+                    );
+                })}
+
+                <View className="w-px h-5 mx-1" style={{ backgroundColor: isDark ? '#475569' : '#E2E8F0' }} />
+
+                {EMOTIONS.map(emotion => {
+                    const definition = getEmotionDefinition(emotion);
+                    const isSelected = selectedEmotion === emotion;
+                    return (
+                        <TouchableOpacity
+                            key={emotion}
+                            onPress={() => setSelectedEmotion(isSelected ? null : emotion)}
+                            className="flex-row items-center px-3 py-1.5 rounded-full border"
+                            style={chipStyle(isSelected, definition.color)}
+                        >
+                            <ZenText className="text-xs mr-1">{definition.emoji}</ZenText>
+                            <ZenText className="text-xs font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>
+                                {definition.label}
+                            </ZenText>
+                        </TouchableOpacity>
+                    );
+                })}
+            </ScrollView>
         </View>
 
         <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
           
           {/* Mood Chart - Only show when not searching */}
-          {allEntries.length > 0 && searchQuery.length === 0 && (
+          {allEntries.length > 0 && !isSearching && !isFiltered && (
             <MoodChart entries={allEntries} />
           )}
 
@@ -205,7 +316,9 @@ export default function HistoryScreen() {
               <View className="relative ml-4 pl-6 space-y-6" style={{ borderLeftWidth: 2, borderLeftColor: isDark ? '#334155' : '#E2E8F0' }}>
                 {section.data.map((entry) => {
                    const isExpanded = expandedId === entry.id;
-                   const color = EMOTION_COLORS[entry.emotion] || '#9CA3AF';
+                   const result = resultById.get(entry.id);
+                   const emotion = getEmotionDefinition(entry.emotion);
+                   const color = emotion.color;
                    
                    return (
                      <View key={entry.id} className="relative">
@@ -235,25 +348,61 @@ export default function HistoryScreen() {
                         >
                             <View className="flex-row justify-between items-start mb-2">
                                 <View className="flex-row items-center gap-2">
-                                    <Ionicons name={EMOTION_ICONS[entry.emotion] as any} size={20} color={color} />
+                                    <Ionicons name={`${emotion.icon}-outline` as any} size={20} color={color} />
                                     <ZenText className="text-xs font-bold tracking-widest" style={{ color }}>
-                                        {EMOTION_LABELS[entry.emotion]}
+                                        {emotion.englishLabel.toUpperCase()}
                                     </ZenText>
                                 </View>
+
+                                {/* Generation Status Badge */}
+                                {entry.status && (
+                                    <View className="flex-row items-center gap-1 px-2 py-1 rounded-full" style={{ 
+                                        backgroundColor: entry.status === 'failed'
+                                            ? (isDark ? 'rgba(127, 29, 29, 0.3)' : '#FEF2F2')
+                                            : (isDark ? '#334155' : '#F1F5F9')
+                                    }}>
+                                        <Ionicons 
+                                            name={entry.status === 'failed' ? 'alert-circle-outline' : 'cloud-upload-outline'} 
+                                            size={12} 
+                                            color={entry.status === 'failed' ? '#EF4444' : (isDark ? '#94A3B8' : '#64748B')} 
+                                        />
+                                        <ZenText className="text-[10px] font-bold" style={{ color: entry.status === 'failed' ? '#EF4444' : (isDark ? '#94A3B8' : '#64748B') }}>
+                                            {entry.status === 'failed' ? '作成失敗' : '作成待ち'}
+                                        </ZenText>
+                                    </View>
+                                )}
                             </View>
 
-                            <ZenText className="text-lg font-bold mb-1" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>{entry.title}</ZenText>
-                            
+                            <ZenText className="text-lg font-bold mb-1" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>
+                                {result ? renderHighlighted(result.title) : entry.title}
+                            </ZenText>
+
+                            {/* Tags */}
+                            {entry.tags && entry.tags.length > 0 && (
+                                <View className="flex-row flex-wrap gap-1.5 mb-2">
+                                    {entry.tags.map(tag => (
+                                        <ZenText key={tag} className="text-xs font-medium" style={{ color: activeColors.primary }}>
+                                            #{tag}
+                                        </ZenText>
+                                    ))}
+                                </View>
+                            )}
 
 
-                            {/* Summary Content */}
+                            {/* Summary Content（検索中は一致した部分の抜粋） */}
                             <View>
+                                {result && !isExpanded && result.snippetSource === 'transcript' && (
+                                    <View className="flex-row items-center gap-1 mb-1">
+                                        <Ionicons name="chatbubbles-outline" size={12} color="#94A3B8" />
+                                        <ZenText className="text-[10px] font-bold" style={{ color: '#94A3B8' }}>会話ログより</ZenText>
+                                    </View>
+                                )}
                                 <ZenText 
                                     className="leading-relaxed italic"
                                     style={{ color: isDark ? '#CBD5E1' : '#475569' }}
-                                    numberOfLines={isExpanded ? undefined : 2}
+                                    numberOfLines={isExpanded ? undefined : (result ? 3 : 2)}
                                 >
-                                    {entry.summary}
+                                    {result && !isExpanded ? renderHighlighted(result.snippet) : entry.summary}
                                 </ZenText>
                             </View>
 
@@ -270,6 +419,11 @@ export default function HistoryScreen() {
                                 {/* Edit/Delete Actions (Only visible when expanded) */}
                                 {isExpanded && (
                                     <View className="flex-row gap-3">
+                                        {entry.status === 'failed' && (
+                                            <TouchableOpacity onPress={() => handleRetryGeneration(entry)} className="p-2 rounded-full" style={{ backgroundColor: isDark ? '#334155' : '#F8FAFC' }}>
+                                                <Ionicons name="refresh-outline" size={18} color={activeColors.primary} />
+                                            </TouchableOpacity>
+                                        )}
                                         <TouchableOpacity onPress={() => setEditingEntry(entry)} className="p-2 rounded-full" style={{ backgroundColor: isDark ? '#334155' : '#F8FAFC' }}>
                                             <Ionicons name="create-outline" size={18} color={isDark ? "#CBD5E1" : "#64748B"} />
                                         </TouchableOpacity>
@@ -290,7 +444,9 @@ export default function HistoryScreen() {
           {sections.length === 0 && (
               <View className="items-center justify-center py-20">
                   <Ionicons name="journal-outline" size={48} color="#CBD5E1" />
-                  <ZenText className="text-slate-400 mt-4">まだ履歴がありません</ZenText>
+                  <ZenText className="text-slate-400 mt-4">
+                      {isSearching || isFiltered ? '条件に合う日記がありません' : 'まだ履歴がありません'}
+                  </ZenText>
               </View>
           )}
 
@@ -7,10 +7,14 @@ import Animated, { Easing, useAnimatedStyle, useSharedValue, withRepeat, withSeq
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ZenHeading, ZenText } from '../../components/ui/Typography';
 import { useTheme } from '../../hooks/useTheme';
-import { getGeminiRestService } from '../../services/gemini-rest';
+import { GenerationQueue } from '../../services/generation-queue';
+import { generateJournalWithSettings, isTransientError } from '../../services/journal-generator';
+import { MemoryService } from '../../services/memory';
+import { DEFAULT_PERSONA_ID, Persona, PersonaService } from '../../services/persona';
 import { RecoveryService } from '../../services/recovery';
 import { JournalEntry, StorageService, UserSettings } from '../../services/storage';
 import { calculateStreak } from '../../utils/date';
+import { cleanTranscript, formatConversationHistory, mergeTranscriptFragments } from '../../utils/transcript';
 
 // Helper to calculate streak
 
@@ -21,6 +25,7 @@ export default function HomeScreen() {
   const [settings, setSettings] = useState<UserSettings | null>(null);
   const [latestEntry, setLatestEntry] = useState<JournalEntry | null>(null);
   const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [personas, setPersonas] = useState<Persona[]>([]);
   
   // Animation for Streak
   const scale = useSharedValue(1);
@@ -54,11 +59,20 @@ export default function HomeScreen() {
     }, [])
   );
 
+  // 今回の会話相手（前回選んだものを覚えておく）
+  const selectedPersonaId = personas.some(p => p.id === settings?.personaId) ? settings!.personaId : DEFAULT_PERSONA_ID;
+
+  const selectPersona = async (personaId: string) => {
+    await StorageService.saveUserSettings({ personaId });
+    setSettings(await StorageService.getUserSettings());
+  };
+
   const loadData = async () => {
     const userSettings = await StorageService.getUserSettings();
     const journalEntries = await StorageService.getJournalEntries();
     setSettings(userSettings);
     setEntries(journalEntries);
+    setPersonas(await PersonaService.getAll());
     
     // Onboarding Check
     if (!userSettings.isOnboarded) {
@@ -89,34 +103,45 @@ export default function HomeScreen() {
             onPress: async () => {
               try {
                 const logs = await RecoveryService.getLogs();
-                // ログをテキストに変換
-                const history = logs.map(l => `${l.speaker === 'user' ? 'ユーザー' : 'AI'}: ${l.text}`).join('\n');
+                // 断片ログを発話単位にまとめてからテキストに変換
+                const transcript = cleanTranscript(mergeTranscriptFragments(logs));
+                const history = formatConversationHistory(transcript);
                 
-                // REST APIで生成
-                const restService = getGeminiRestService();
-                const journal = await restService.generateJournal(history).catch(() => ({
-                   title: '復元された日記',
-                   summary: '【API生成エラー】\n' + history,
-                   emotion: 'neutral' as const
-                }));
+                // 設定で選択されたプロバイダー・文体で生成（通信の問題で失敗したら null）
+                const journal = await generateJournalWithSettings(history)
+                  .catch(e => {
+                    console.warn('Recovery: Failed to generate journal', e);
+                    if (!isTransientError(e)) throw e;
+                    return null;
+                  });
 
                 const now = new Date();
                 const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-                
-                await StorageService.saveJournalEntry({
+                const entry: JournalEntry = {
                   id: Date.now().toString(),
                   date: today,
-                  title: journal.title,
-                  summary: journal.summary,
-                  emotion: journal.emotion,
+                  title: journal?.title || '復元された日記',
+                  summary: journal?.summary || '通信が回復したら、会話の記録から自動で日記を作成します。',
+                  emotion: journal?.emotion || 'neutral',
+                  emotionIntensity: journal?.emotionIntensity,
+                  secondaryEmotions: journal?.secondaryEmotions,
+                  tags: journal?.tags,
                   createdAt: Date.now()
-                });
+                };
+
+                if (journal) {
+                  await StorageService.saveJournalEntry(entry, transcript);
+                  MemoryService.rememberEntry(entry);
+                } else {
+                  // 生成できなかった場合は作成待ちとして保存し、後で自動生成する
+                  await GenerationQueue.savePendingEntry(entry, transcript);
+                }
                 
                 await RecoveryService.clear();
-                Alert.alert('完了', '日記を復元しました');
+                Alert.alert('完了', journal ? '日記を復元しました' : '日記を復元しました。通信が回復したら自動で日記を作成します');
                 loadData(); // Reload list
               } catch (e) {
-                Alert.alert('エラー', '復元に失敗しました');
+                Alert.alert('復元に失敗しました', e instanceof Error ? e.message : String(e));
                console.error(e);
               }
             }
@@ -200,11 +225,34 @@ export default function HomeScreen() {
 
           {/* MAIN ACTION: Talk to AI */}
           <View style={{ paddingHorizontal: 24, marginBottom: 40 }}>
+               {/* Persona (話し相手) */}
+               <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4 -mx-6" contentContainerStyle={{ paddingHorizontal: 24, gap: 8 }}>
+                 {personas.map(persona => {
+                   const isSelected = persona.id === selectedPersonaId;
+                   return (
+                     <TouchableOpacity
+                       key={persona.id}
+                       onPress={() => selectPersona(persona.id)}
+                       className="flex-row items-center px-3 py-2 rounded-full border"
+                       style={{
+                         backgroundColor: isSelected ? activeColors.primary : (isDark ? 'rgba(30,41,59,0.5)' : '#FFFFFF'),
+                         borderColor: isSelected ? activeColors.primary : (isDark ? '#334155' : '#E2E8F0'),
+                       }}
+                     >
+                       <Ionicons name={persona.icon as any} size={14} color={isSelected ? '#FFFFFF' : activeColors.primary} />
+                       <ZenText className="text-xs font-bold ml-1" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#E2E8F0' : '#475569') }}>
+                         {persona.name}
+                       </ZenText>
+                     </TouchableOpacity>
+                   );
+                 })}
+               </ScrollView>
+
                <TouchableOpacity 
                  activeOpacity={0.85} 
                  onPress={() => {
                    console.log('Talk Button pressed');
-                   router.push('/talk');
+                   router.push(`/talk?persona=${selectedPersonaId}`);
                  }}
                  style={{
                    shadowColor: activeColors.primary,
@@ -238,6 +286,16 @@ export default function HomeScreen() {
                      <ZenText style={{ color: 'white', fontSize: 20, fontWeight: 'bold' }}>AIと話す</ZenText>
                   </LinearGradient>
                </TouchableOpacity>
+
+               {/* Text Chat (for places where you can't speak aloud) */}
+               <TouchableOpacity
+                 activeOpacity={0.8}
+                 onPress={() => router.push(`/chat?persona=${selectedPersonaId}`)}
+                 className="flex-row items-center justify-center gap-2 mt-4 py-3"
+               >
+                  <Ionicons name="chatbubble-ellipses-outline" size={18} color={activeColors.primary} />
+                  <ZenText className="font-bold" style={{ color: activeColors.primary }}>テキストで話す</ZenText>
+               </TouchableOpacity>
           </View>
 
           {/* Weekly Insights (Detailed) */}
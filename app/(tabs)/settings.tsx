@@ -1,30 +1,73 @@
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import * as DocumentPicker from 'expo-document-picker';
 import { File, Paths } from 'expo-file-system';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
 import * as Sharing from 'expo-sharing';
 import { useEffect, useState } from 'react';
-import { Alert, ScrollView, Switch, TouchableOpacity, View } from 'react-native';
+import { Alert, ScrollView, Switch, TextInput, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { BentoCard } from '../../components/ui/BentoCard';
 import { ZenHeading, ZenText } from '../../components/ui/Typography';
 import { THEME_COLORS, ThemeColor } from '../../context/ThemeContext';
 import { useTheme } from '../../hooks/useTheme';
+import { JOURNAL_STYLES, JournalStyle, LLM_PROVIDERS, LLMProvider } from '../../services/journal-generator';
 import { NotificationService } from '../../services/notification';
-import { StorageService, UserSettings } from '../../services/storage';
+import { getPacingProfile, PACING_PROFILES, SESSION_LENGTH_OPTIONS } from '../../services/pacing';
+import { AI_VOICES, BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID } from '../../services/persona';
+import { AUDIO_RECORDING_MODES, AudioRecordingMode } from '../../services/session-audio';
+import { ImportMode, ImportPreview, StorageService, UserSettings } from '../../services/storage';
+import { INPUT_MODES, InputMode } from '../../types/callSession';
 
 export default function SettingsScreen() {
   const router = useRouter();
   const { theme, changeTheme, isDark, changeThemeColor, activeColors } = useTheme();
   const [settings, setSettings] = useState<UserSettings | null>(null);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [llmBaseUrl, setLlmBaseUrl] = useState('');
+  const [llmModel, setLlmModel] = useState('');
 
   // 設定を読み込む（useEffectを使用してナビゲーションコンテキストへの依存を回避）
   useEffect(() => {
-    StorageService.getUserSettings().then(setSettings);
+    StorageService.getUserSettings().then(loaded => {
+      setSettings(loaded);
+      setLlmBaseUrl(loaded.llmBaseUrl || '');
+      setLlmModel(loaded.llmModel || '');
+    });
   }, []);
 
+  // 日記生成に使うAIモデルの設定
+  const changeLlmProvider = async (provider: LLMProvider) => {
+    await StorageService.saveUserSettings({ llmProvider: provider });
+    StorageService.getUserSettings().then(setSettings);
+  };
+
+  const changeJournalStyle = async (style: JournalStyle) => {
+    await StorageService.saveUserSettings({ journalStyle: style });
+    StorageService.getUserSettings().then(setSettings);
+  };
+
+  const changePacingSettings = async (changes: Partial<Pick<UserSettings, 'sessionPacing' | 'silencePromptsEnabled' | 'targetSessionMinutes'>>) => {
+    await StorageService.saveUserSettings(changes);
+    StorageService.getUserSettings().then(setSettings);
+  };
+
+  const changeInputMode = async (mode: InputMode) => {
+    await StorageService.saveUserSettings({ inputMode: mode });
+    StorageService.getUserSettings().then(setSettings);
+  };
+
+  const changeAudioRecording = async (mode: AudioRecordingMode) => {
+    await StorageService.saveUserSettings({ audioRecording: mode });
+    StorageService.getUserSettings().then(setSettings);
+  };
+
+  const saveLlmEndpoint = async () => {
+    await StorageService.saveUserSettings({ llmBaseUrl: llmBaseUrl.trim(), llmModel: llmModel.trim() });
+    StorageService.getUserSettings().then(setSettings);
+  };
+
   // Toggle Notification
   const toggleNotification = async (value: boolean) => {
     if (value) {
@@ -104,6 +147,65 @@ export default function SettingsScreen() {
       }
   };
 
+  const runImport = async (preview: ImportPreview, mode: ImportMode) => {
+      try {
+          const result = await StorageService.importData(preview, mode);
+          const message = mode === 'replace'
+              ? `${result.added}件の日記を復元しました。`
+              : `新規 ${result.added}件 / 更新 ${result.updated}件 / 変更なし ${result.skipped}件`;
+          Alert.alert("インポート完了", message);
+          StorageService.getUserSettings().then(setSettings);
+      } catch (e) {
+          Alert.alert("エラー", `インポートに失敗しました: ${e}`);
+      }
+  };
+
+  const handleImportData = async () => {
+      try {
+          const picked = await DocumentPicker.getDocumentAsync({
+              type: 'application/json',
+              copyToCacheDirectory: true,
+          });
+          if (picked.canceled || picked.assets.length === 0) return;
+
+          const json = await new File(picked.assets[0].uri).text();
+          const preview = await StorageService.parseImportData(json);
+
+          const exportedAt = preview.exportedAt
+              ? new Date(preview.exportedAt).toLocaleString('ja-JP')
+              : '不明';
+
+          Alert.alert(
+              "バックアップの読み込み",
+              `作成日時: ${exportedAt}\n日記: ${preview.entries.length}件（新規 ${preview.newEntryCount}件 / 重複 ${preview.conflictCount}件）\n\n取り込み方法を選んでください。`,
+              [
+                  { text: "キャンセル", style: "cancel" },
+                  {
+                      text: "統合する",
+                      onPress: () => runImport(preview, 'merge'),
+                  },
+                  {
+                      text: "すべて置き換える",
+                      style: "destructive",
+                      onPress: () => {
+                          Alert.alert(
+                              "確認",
+                              "現在の記録と設定はすべてバックアップの内容に置き換わります。\nよろしいですか？",
+                              [
+                                  { text: "やめる", style: "cancel" },
+                                  { text: "置き換える", style: "destructive", onPress: () => runImport(preview, 'replace') },
+                              ]
+                          );
+                      },
+                  },
+              ]
+          );
+      } catch (e) {
+          Alert.alert("エラー", e instanceof Error ? e.message : `読み込みに失敗しました: ${e}`);
+          console.error('Import error:', e);
+      }
+  };
+
   const handleClearData = () => {
      Alert.alert(
         "⚠️ データの全削除",
@@ -289,17 +391,20 @@ export default function SettingsScreen() {
                   )}
                </BentoCard>
 
-               {/* AI Voice Selection */}
+               {/* Interviewer Persona */}
                <BentoCard style={{ backgroundColor: isDark ? 'rgba(30,41,59,0.6)' : 'rgba(255,255,255,0.6)', height: 'auto', padding: 16 }}>
-                  <ZenHeading level={3} className="mb-4 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>AIの声</ZenHeading>
+                  <ZenHeading level={3} className="mb-2 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>話し相手</ZenHeading>
+                  <TouchableOpacity onPress={() => router.push('/personas')} className="py-3 flex-row items-center justify-between">
+                    <ZenText style={{ color: isDark ? '#94A3B8' : '#475569' }}>話し相手の一覧・カスタマイズ</ZenText>
+                    <Ionicons name="chevron-forward" size={16} color={isDark ? '#94A3B8' : '#94A3B8'} />
+                  </TouchableOpacity>
+                  <ZenText className="text-slate-400 text-xs mb-4">会話ごとにホーム画面で選べます</ZenText>
+
+                  <ZenText className="text-xs font-bold mb-2" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>
+                    {BUILT_IN_PERSONAS.find(p => p.id === DEFAULT_PERSONA_ID)?.name}の声
+                  </ZenText>
                   <View className="flex-row flex-wrap gap-2">
-                    {[
-                      { voice: 'Aoede', label: '女性（高め）' },
-                      { voice: 'Kore', label: '女性（落ち着き）' },
-                      { voice: 'Charon', label: '男性（低め）' },
-                      { voice: 'Fenrir', label: '男性（力強い）' },
-                      { voice: 'Puck', label: '男性（軽快）' },
-                    ].map(({ voice, label }) => {
+                    {AI_VOICES.map(({ voice, label }) => {
                       const isSelected = (settings?.aiVoice || 'Aoede') === voice;
                       return (
                         <TouchableOpacity
@@ -322,15 +427,221 @@ export default function SettingsScreen() {
                   <ZenText className="text-slate-400 text-xs mt-3">次回の会話から反映されます</ZenText>
                </BentoCard>
 
+               {/* Session Pacing */}
+               <BentoCard style={{ backgroundColor: isDark ? 'rgba(30,41,59,0.6)' : 'rgba(255,255,255,0.6)', height: 'auto', padding: 16 }}>
+                  <ZenHeading level={3} className="mb-4 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>会話のペース</ZenHeading>
+                  <View className="flex-row flex-wrap gap-2">
+                    {PACING_PROFILES.map(({ pacing, label }) => {
+                      const isSelected = (settings?.sessionPacing || 'normal') === pacing;
+                      return (
+                        <TouchableOpacity
+                          key={pacing}
+                          onPress={() => changePacingSettings({ sessionPacing: pacing })}
+                          className="px-4 py-2 rounded-full border"
+                          style={{ 
+                            backgroundColor: isSelected ? activeColors.primary : (isDark ? 'rgba(255,255,255,0.05)' : '#FFFFFF'),
+                            borderColor: isSelected ? activeColors.primary : (isDark ? '#334155' : '#E2E8F0')
+                          }}
+                        >
+                          <ZenText className="text-sm font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>{label}</ZenText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <ZenText className="text-slate-400 text-xs mt-3">
+                    {getPacingProfile(settings?.sessionPacing || 'normal').description}
+                  </ZenText>
+
+                  <View className="flex-row justify-between items-center py-2 mt-3" style={{ borderTopWidth: 1, borderTopColor: isDark ? '#334155' : '#F1F5F9' }}>
+                    <ZenText>黙っているときにAIから話しかける</ZenText>
+                    <Switch 
+                       value={settings?.silencePromptsEnabled ?? true} 
+                       onValueChange={(value) => changePacingSettings({ silencePromptsEnabled: value })}
+                       trackColor={{ false: "#767577", true: activeColors.light }}
+                    />
+                  </View>
+
+                  <ZenText className="text-xs font-bold mt-3 mb-2" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>会話の長さの目安</ZenText>
+                  <View className="flex-row flex-wrap gap-2">
+                    {SESSION_LENGTH_OPTIONS.map(({ minutes, label }) => {
+                      const isSelected = (settings?.targetSessionMinutes ?? 0) === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          onPress={() => changePacingSettings({ targetSessionMinutes: minutes })}
+                          className="px-4 py-2 rounded-full border"
+                          style={{ 
+                            backgroundColor: isSelected ? activeColors.primary : (isDark ? 'rgba(255,255,255,0.05)' : '#FFFFFF'),
+                            borderColor: isSelected ? activeColors.primary : (isDark ? '#334155' : '#E2E8F0')
+                          }}
+                        >
+                          <ZenText className="text-sm font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>{label}</ZenText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <ZenText className="text-slate-400 text-xs mt-3">目安の1分前になると、AIがやさしく振り返りを促します</ZenText>
+               </BentoCard>
+
+               {/* Voice Input Mode */}
+               <BentoCard style={{ backgroundColor: isDark ? 'rgba(30,41,59,0.6)' : 'rgba(255,255,255,0.6)', height: 'auto', padding: 16 }}>
+                  <ZenHeading level={3} className="mb-4 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>音声の入力</ZenHeading>
+                  <View className="flex-row flex-wrap gap-2">
+                    {INPUT_MODES.map(({ mode, label }) => {
+                      const isSelected = (settings?.inputMode || 'auto') === mode;
+                      return (
+                        <TouchableOpacity
+                          key={mode}
+                          onPress={() => changeInputMode(mode)}
+                          className="px-4 py-2 rounded-full border"
+                          style={{ 
+                            backgroundColor: isSelected ? activeColors.primary : (isDark ? 'rgba(255,255,255,0.05)' : '#FFFFFF'),
+                            borderColor: isSelected ? activeColors.primary : (isDark ? '#334155' : '#E2E8F0')
+                          }}
+                        >
+                          <ZenText className="text-sm font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>{label}</ZenText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <ZenText className="text-slate-400 text-xs mt-3">
+                    {INPUT_MODES.find(m => m.mode === (settings?.inputMode || 'auto'))?.description}
+                  </ZenText>
+               </BentoCard>
+
+               {/* Journal Generation Provider */}
+               <BentoCard style={{ backgroundColor: isDark ? 'rgba(30,41,59,0.6)' : 'rgba(255,255,255,0.6)', height: 'auto', padding: 16 }}>
+                  <ZenHeading level={3} className="mb-4 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>日記の生成</ZenHeading>
+                  <View className="flex-row flex-wrap gap-2">
+                    {LLM_PROVIDERS.map(({ provider, label }) => {
+                      const isSelected = (settings?.llmProvider || 'gemini') === provider;
+                      return (
+                        <TouchableOpacity
+                          key={provider}
+                          onPress={() => changeLlmProvider(provider)}
+                          className="px-4 py-2 rounded-full border"
+                          style={{ 
+                            backgroundColor: isSelected ? activeColors.primary : (isDark ? 'rgba(255,255,255,0.05)' : '#FFFFFF'),
+                            borderColor: isSelected ? activeColors.primary : (isDark ? '#334155' : '#E2E8F0')
+                          }}
+                        >
+                          <ZenText className="text-sm font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>{label}</ZenText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {settings?.llmProvider === 'openai' && (
+                    <View className="mt-4">
+                      <ZenText className="text-slate-500 text-sm mb-2">APIのURL</ZenText>
+                      <TextInput
+                        value={llmBaseUrl}
+                        onChangeText={setLlmBaseUrl}
+                        onEndEditing={saveLlmEndpoint}
+                        placeholder="例：http://192.168.0.10:11434/v1"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        keyboardType="url"
+                        className="bg-slate-50 p-3 rounded-xl text-slate-800 text-sm border border-slate-200"
+                      />
+                    </View>
+                  )}
+
+                  {settings?.llmProvider !== 'mock' && (
+                    <View className="mt-4">
+                      <ZenText className="text-slate-500 text-sm mb-2">モデル名（空欄で既定）</ZenText>
+                      <TextInput
+                        value={llmModel}
+                        onChangeText={setLlmModel}
+                        onEndEditing={saveLlmEndpoint}
+                        placeholder={settings?.llmProvider === 'openai' ? '例：llama3.1' : '例：gemini-2.0-flash'}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        className="bg-slate-50 p-3 rounded-xl text-slate-800 text-sm border border-slate-200"
+                      />
+                    </View>
+                  )}
+
+                  <ZenText className="text-slate-400 text-xs mt-3">
+                    {settings?.llmProvider === 'mock'
+                      ? '通信せずに会話内容から簡易的な日記を作成します（開発用）'
+                      : '会話終了時の日記作成に使用します'}
+                  </ZenText>
+               </BentoCard>
+
+               {/* Journal Style */}
+               <BentoCard style={{ backgroundColor: isDark ? 'rgba(30,41,59,0.6)' : 'rgba(255,255,255,0.6)', height: 'auto', padding: 16 }}>
+                  <ZenHeading level={3} className="mb-4 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>日記の文体</ZenHeading>
+                  <View className="flex-row flex-wrap gap-2">
+                    {JOURNAL_STYLES.map(({ style, label }) => {
+                      const isSelected = (settings?.journalStyle || 'factual') === style;
+                      return (
+                        <TouchableOpacity
+                          key={style}
+                          onPress={() => changeJournalStyle(style)}
+                          className="px-4 py-2 rounded-full border"
+                          style={{ 
+                            backgroundColor: isSelected ? activeColors.primary : (isDark ? 'rgba(255,255,255,0.05)' : '#FFFFFF'),
+                            borderColor: isSelected ? activeColors.primary : (isDark ? '#334155' : '#E2E8F0')
+                          }}
+                        >
+                          <ZenText className="text-sm font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>{label}</ZenText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <ZenText className="text-slate-400 text-xs mt-3">
+                    {JOURNAL_STYLES.find(s => s.style === (settings?.journalStyle || 'factual'))?.description}
+                    {'\n'}作成済みの日記は、編集画面から文体を変えて作り直せます
+                  </ZenText>
+               </BentoCard>
+
+               {/* Conversation Recording */}
+               <BentoCard style={{ backgroundColor: isDark ? 'rgba(30,41,59,0.6)' : 'rgba(255,255,255,0.6)', height: 'auto', padding: 16 }}>
+                  <ZenHeading level={3} className="mb-4 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>会話の録音</ZenHeading>
+                  <View className="flex-row flex-wrap gap-2">
+                    {AUDIO_RECORDING_MODES.map(({ mode, label }) => {
+                      const isSelected = (settings?.audioRecording || 'off') === mode;
+                      return (
+                        <TouchableOpacity
+                          key={mode}
+                          onPress={() => changeAudioRecording(mode)}
+                          className="px-4 py-2 rounded-full border"
+                          style={{ 
+                            backgroundColor: isSelected ? activeColors.primary : (isDark ? 'rgba(255,255,255,0.05)' : '#FFFFFF'),
+                            borderColor: isSelected ? activeColors.primary : (isDark ? '#334155' : '#E2E8F0')
+                          }}
+                        >
+                          <ZenText className="text-sm font-bold" style={{ color: isSelected ? '#FFFFFF' : (isDark ? '#CBD5E1' : '#475569') }}>{label}</ZenText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <ZenText className="text-slate-400 text-xs mt-3">
+                    {settings?.audioRecording === 'both'
+                      ? 'あなたの声とAIの声を録音し、日記の詳細から聞き返せます'
+                      : settings?.audioRecording === 'user'
+                        ? 'あなたの声を録音し、日記の詳細から聞き返せます'
+                        : '録音はこの端末内にのみ保存され、バックアップには含まれません'}
+                  </ZenText>
+               </BentoCard>
+
                {/* Data Management */}
                 <BentoCard style={{ backgroundColor: isDark ? 'rgba(30,41,59,0.6)' : 'rgba(255,255,255,0.6)', height: 'auto', padding: 16 }}>
                   <ZenHeading level={3} className="mb-4 text-xs font-bold uppercase tracking-widest" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>データとプライバシー</ZenHeading>
-                   <TouchableOpacity onPress={handleClearData} className="py-3">
+                   <TouchableOpacity onPress={() => router.push('/memories')} className="py-3 flex-row items-center justify-between">
+                     <ZenText style={{ color: isDark ? '#94A3B8' : '#475569' }}>AIの記憶を確認・削除</ZenText>
+                     <Ionicons name="chevron-forward" size={16} color={isDark ? '#94A3B8' : '#94A3B8'} />
+                  </TouchableOpacity>
+                   <TouchableOpacity onPress={handleClearData} className="py-3" style={{ borderTopWidth: 1, borderTopColor: isDark ? '#334155' : '#F1F5F9' }}>
                      <ZenText className="text-red-500 font-semibold">全データを削除</ZenText>
                   </TouchableOpacity>
                    <TouchableOpacity onPress={handleExportData} className="py-3" style={{ borderTopWidth: 1, borderTopColor: isDark ? '#334155' : '#F1F5F9' }}>
                      <ZenText style={{ color: isDark ? '#94A3B8' : '#475569' }}>記録のエクスポート (JSON)</ZenText>
                   </TouchableOpacity>
+                   <TouchableOpacity onPress={handleImportData} className="py-3" style={{ borderTopWidth: 1, borderTopColor: isDark ? '#334155' : '#F1F5F9' }}>
+                     <ZenText style={{ color: isDark ? '#94A3B8' : '#475569' }}>記録のインポート (JSON)</ZenText>
+                  </TouchableOpacity>
                </BentoCard>
 
                 <View className="items-center mt-6">
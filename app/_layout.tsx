@@ -1,5 +1,8 @@
 // Buffer polyfill for React Native
 import { Buffer } from 'buffer';
+import { useEffect } from 'react';
+import { GenerationQueue } from '../services/generation-queue';
+import { StorageService } from '../services/storage';
 global.Buffer = global.Buffer || Buffer;
 
 // Reanimated警告を無効化（デバッグ中のログを見やすくするため）
@@ -21,12 +24,20 @@ function RootLayoutContent() {
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="talk" options={{ presentation: 'fullScreenModal' }} />
+        <Stack.Screen name="chat" options={{ presentation: 'fullScreenModal', headerShown: false }} />
       </Stack>
     </>
   );
 }
 
 export default function RootLayout() {
+  useEffect(() => {
+    // 起動時に保存データを最新スキーマへ移行（以降の読み書きは完了を待つ）
+    StorageService.ensureMigrated();
+    // 作成待ちの日記を通信回復・アプリ復帰時に生成する
+    return GenerationQueue.start();
+  }, []);
+
   return (
     <ThemeProvider>
       <RootLayoutContent />
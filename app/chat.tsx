@@ -0,0 +1,224 @@
+// app/chat.tsx
+// テキストチャット画面 - 声を出せない場所（電車・オフィスなど）での日記用
+// 音声の通話画面（talk.tsx）と同じ聞き役・日記生成・編集モーダルを使う
+
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Text, TouchableOpacity, View } from 'react-native';
+import { GiftedChat, IMessage } from 'react-native-gifted-chat';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { JournalEditorModal } from '../components/JournalEditorModal';
+import { ZenText } from '../components/ui/Typography';
+import { useChatSession } from '../hooks/useChatSession';
+import { useTheme } from '../hooks/useTheme';
+import { GenerationQueue } from '../services/generation-queue';
+import { MemoryService } from '../services/memory';
+import { RecoveryService } from '../services/recovery';
+import { JournalEntry, StorageService } from '../services/storage';
+import { ConversationLog } from '../types/callSession';
+
+const USER = { _id: 'user' };
+const AI_USER = { _id: 'ai', name: 'AI' };
+
+export default function ChatScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ persona?: string }>();
+  const insets = useSafeAreaInsets();
+  const { isDark, activeColors } = useTheme();
+  const { logs, isResponding, isStarting, errorMessage, start, sendMessage, endConversation } = useChatSession(params.persona);
+
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [editingJournal, setEditingJournal] = useState<JournalEntry | null>(null);
+  // 日記と一緒に保存する会話ログ
+  const transcriptRef = useRef<ConversationLog[]>([]);
+  // 会話開始時刻（所要時間の記録用）
+  const startedAtRef = useRef(Date.now());
+
+  const startRef = useRef(start);
+  startRef.current = start;
+
+  useEffect(() => {
+    startedAtRef.current = Date.now();
+    startRef.current();
+  }, []);
+
+  // GiftedChat は新しいメッセージが先頭
+  const messages = useMemo<IMessage[]>(() => logs
+    .map((log, index) => ({
+      _id: `${log.timestamp}-${index}`,
+      text: log.text,
+      createdAt: log.timestamp,
+      user: log.speaker === 'user' ? USER : AI_USER,
+    }))
+    .reverse(), [logs]);
+
+  const hasUserMessage = logs.some(log => log.speaker === 'user');
+
+  // キャンセル処理（会話を破棄して終了）
+  const discardAndClose = async () => {
+    await RecoveryService.clear();
+    router.back();
+  };
+
+  const handleCancel = () => {
+    if (!hasUserMessage) {
+      discardAndClose();
+      return;
+    }
+    Alert.alert('会話を破棄', 'この会話は日記に保存されません。よろしいですか？', [
+      { text: 'キャンセル', style: 'cancel' },
+      { text: '破棄する', style: 'destructive', onPress: discardAndClose },
+    ]);
+  };
+
+  // 完了処理（会話終了・日記生成）
+  const handleFinish = async () => {
+    if (isGenerating) return;
+    setIsGenerating(true);
+
+    try {
+      const journal = await endConversation();
+      setIsGenerating(false);
+
+      if (!journal) {
+        Alert.alert('会話が短すぎます', 'もう少しお話ししてから終了してください。');
+        return;
+      }
+      transcriptRef.current = journal.transcript;
+
+      // ローカルタイムゾーンで日付を取得
+      const now = new Date();
+      const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+      const newEntry: JournalEntry = {
+        id: Date.now().toString(),
+        date: today,
+        title: journal.title,
+        summary: journal.summary,
+        emotion: journal.emotion as JournalEntry['emotion'],
+        emotionIntensity: journal.emotionIntensity,
+        secondaryEmotions: journal.secondaryEmotions,
+        tags: journal.tags,
+        duration: Math.round((Date.now() - startedAtRef.current) / 1000),
+        createdAt: Date.now()
+      };
+
+      if (journal.pending) {
+        // 生成できなかった -> 作成待ちとして保存し、通信回復後に自動で生成する
+        await GenerationQueue.savePendingEntry(newEntry, transcriptRef.current);
+        Alert.alert(
+          '日記の作成を保留しました',
+          '通信が回復したら自動で日記を作成します。\n作成状況は履歴から確認できます。',
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+        return;
+      }
+
+      // 生成完了 -> 編集モーダルを表示
+      setEditingJournal(newEntry);
+    } catch (e) {
+      console.error('ChatScreen: Failed to generate journal', e);
+      setIsGenerating(false);
+      Alert.alert('日記の作成に失敗しました', e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // 編集後の保存処理
+  const handleSaveJournal = async (entry: JournalEntry) => {
+    try {
+      await StorageService.saveJournalEntry(entry, transcriptRef.current);
+      console.log('ChatScreen: Journal saved successfully');
+      // 長期記憶の抽出はバックグラウンドで行う（完了を待たずに画面を閉じる）
+      MemoryService.rememberEntry(entry);
+      setEditingJournal(null);
+      router.back();
+    } catch (e) {
+      console.error('ChatScreen: Failed to save journal', e);
+    }
+  };
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }}>
+      {/* Loading Overlay */}
+      {isGenerating && (
+        <View className="absolute z-50 w-full h-full bg-black/60 items-center justify-center">
+          <View className="bg-white p-6 rounded-2xl items-center shadow-2xl w-64">
+            <View className="mb-4">
+              <Text className="text-4xl">✨</Text>
+            </View>
+            <Text className="text-lg font-bold text-slate-800 mb-2 text-center">AIが執筆中</Text>
+            <Text className="text-sm text-slate-500 text-center leading-5">会話の要点をまとめています...</Text>
+          </View>
+        </View>
+      )}
+
+      <SafeAreaView className="flex-1" edges={['top']}>
+        {/* Header */}
+        <View
+          className="flex-row items-center justify-between px-4 py-3"
+          style={{ borderBottomWidth: 1, borderBottomColor: isDark ? '#3A3A3C' : '#E2E8F0' }}
+        >
+          <TouchableOpacity
+            onPress={handleCancel}
+            disabled={isGenerating}
+            className="w-10 h-10 rounded-full items-center justify-center"
+            style={{ backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#FFFFFF' }}
+          >
+            <Ionicons name="close" size={22} color={isDark ? '#FFFFFF' : '#1E293B'} />
+          </TouchableOpacity>
+
+          <ZenText className="text-base font-bold" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>テキストで話す</ZenText>
+
+          <TouchableOpacity
+            onPress={handleFinish}
+            disabled={isGenerating || !hasUserMessage}
+            className="px-4 h-10 rounded-full items-center justify-center"
+            style={{ backgroundColor: hasUserMessage ? activeColors.primary : (isDark ? '#334155' : '#CBD5E1') }}
+          >
+            <ZenText className="text-sm font-bold" style={{ color: '#FFFFFF' }}>終了</ZenText>
+          </TouchableOpacity>
+        </View>
+
+        {/* Error Message */}
+        {errorMessage && (
+          <View className="px-4 py-2 bg-red-500/90">
+            <Text className="text-white text-xs text-center">{errorMessage}</Text>
+          </View>
+        )}
+
+        {isStarting ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator color={activeColors.primary} />
+          </View>
+        ) : (
+          <GiftedChat
+            messages={messages}
+            onSend={(newMessages) => {
+              newMessages.forEach(message => sendMessage(message.text));
+            }}
+            user={USER}
+            isTyping={isResponding}
+            colorScheme={isDark ? 'dark' : 'light'}
+            textInputProps={{ placeholder: 'メッセージを入力' }}
+            keyboardAvoidingViewProps={{ keyboardVerticalOffset: insets.top }}
+          />
+        )}
+      </SafeAreaView>
+
+      {/* Edit Journal Modal */}
+      <JournalEditorModal
+        visible={editingJournal !== null}
+        initialEntry={editingJournal}
+        onSave={(updatedEntry) => {
+          setEditingJournal(updatedEntry);
+          handleSaveJournal(updatedEntry);
+        }}
+        onCancel={() => {
+          setEditingJournal(null);
+          router.back();
+        }}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,130 @@
+// app/memories.tsx
+// AIの記憶の一覧 - 日記から抜き出した「覚えていること」を確認・削除する
+// ここで削除したものは以降の会話で使われない
+
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useCallback, useState } from 'react';
+import { Alert, ScrollView, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ZenHeading, ZenText } from '../components/ui/Typography';
+import { useTheme } from '../hooks/useTheme';
+import { Memory, MEMORY_KINDS, MemoryService } from '../services/memory';
+
+export default function MemoriesScreen() {
+  const router = useRouter();
+  const { isDark, activeColors } = useTheme();
+  const [memories, setMemories] = useState<Memory[]>([]);
+
+  const loadData = async () => {
+    setMemories(await MemoryService.getAll());
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const handleDelete = (memory: Memory) => {
+    Alert.alert('記憶を削除', `「${memory.content}」をAIの記憶から削除しますか？`, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '削除する',
+        style: 'destructive',
+        onPress: async () => {
+          await MemoryService.delete(memory.id);
+          loadData();
+        },
+      },
+    ]);
+  };
+
+  const handleClearAll = () => {
+    Alert.alert('すべて削除', 'AIが覚えていることをすべて削除しますか？\n（日記は削除されません）', [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: 'すべて削除',
+        style: 'destructive',
+        onPress: async () => {
+          await MemoryService.clear();
+          loadData();
+        },
+      },
+    ]);
+  };
+
+  const cardStyle = {
+    backgroundColor: isDark ? 'rgba(30,41,59,0.5)' : '#FFFFFF',
+    borderColor: isDark ? 'rgba(255,255,255,0.1)' : '#F1F5F9',
+  };
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }}>
+      <SafeAreaView className="flex-1">
+        {/* Header */}
+        <View className="px-6 py-4 flex-row items-center justify-between">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center rounded-full"
+            style={{ backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#FFFFFF' }}
+          >
+            <Ionicons name="close" size={24} color={isDark ? '#CBD5E1' : '#64748b'} />
+          </TouchableOpacity>
+          <ZenHeading level={2} className="text-lg" style={{ color: isDark ? '#FFFFFF' : '#334155' }}>AIの記憶</ZenHeading>
+          <View className="w-10" />
+        </View>
+
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+          <ZenText className="text-sm leading-6 mb-6" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>
+            日記から、AIが次の会話で思い出せるように覚えていることです。{'\n'}
+            間違っている・覚えてほしくないものは削除できます。
+          </ZenText>
+
+          {MEMORY_KINDS.map(({ kind, label }) => {
+            const items = memories.filter(memory => memory.kind === kind);
+            if (items.length === 0) return null;
+            return (
+              <View key={kind} className="mb-6">
+                <ZenHeading level={3} className="text-slate-500 font-bold mb-3 text-xs tracking-wider">
+                  {label}
+                </ZenHeading>
+                <View className="gap-3">
+                  {items.map(memory => (
+                    <View key={memory.id} className="flex-row items-center rounded-2xl p-4 border" style={cardStyle}>
+                      <View className="flex-1 mr-3">
+                        <ZenText className="text-base mb-1" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>{memory.content}</ZenText>
+                        <ZenText className="text-xs" style={{ color: '#94A3B8' }}>
+                          {new Date(memory.updatedAt).toLocaleDateString('ja-JP', { month: 'long', day: 'numeric' })}に話題
+                          {memory.mentionCount > 1 ? ` ・ ${memory.mentionCount}回` : ''}
+                        </ZenText>
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => handleDelete(memory)}
+                        className="p-2 rounded-full"
+                        style={{ backgroundColor: isDark ? 'rgba(127, 29, 29, 0.3)' : '#FEF2F2' }}
+                      >
+                        <Ionicons name="trash-outline" size={16} color="#EF4444" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+
+          {memories.length === 0 ? (
+            <View className="items-center justify-center py-20">
+              <Ionicons name="bulb-outline" size={48} color="#CBD5E1" />
+              <ZenText className="text-slate-400 mt-4">まだ覚えていることはありません</ZenText>
+            </View>
+          ) : (
+            <TouchableOpacity onPress={handleClearAll} className="py-3 items-center">
+              <ZenText className="font-semibold" style={{ color: activeColors.primary }}>すべて削除</ZenText>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
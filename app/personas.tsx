@@ -0,0 +1,161 @@
+// app/personas.tsx
+// 話し相手（ペルソナ）の一覧 - 組み込みのものを元に自分用の話し相手を作る・編集する・削除する
+// どの話し相手で話すかはホーム画面で会話ごとに選ぶ
+
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useCallback, useState } from 'react';
+import { Alert, ScrollView, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { PersonaEditorModal } from '../components/PersonaEditorModal';
+import { ZenHeading, ZenText } from '../components/ui/Typography';
+import { useTheme } from '../hooks/useTheme';
+import { AI_VOICES, createCustomPersona, Persona, PersonaService } from '../services/persona';
+
+export default function PersonasScreen() {
+  const router = useRouter();
+  const { isDark, activeColors } = useTheme();
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+
+  const loadData = async () => {
+    setPersonas(await PersonaService.getAll());
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const handleSave = async (persona: Persona) => {
+    await PersonaService.save(persona);
+    setEditingPersona(null);
+    loadData();
+  };
+
+  const handleDelete = (persona: Persona) => {
+    Alert.alert('話し相手を削除', `「${persona.name}」を削除しますか？`, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '削除する',
+        style: 'destructive',
+        onPress: async () => {
+          await PersonaService.delete(persona.id);
+          loadData();
+        },
+      },
+    ]);
+  };
+
+  const cardStyle = {
+    backgroundColor: isDark ? 'rgba(30,41,59,0.5)' : '#FFFFFF',
+    borderColor: isDark ? 'rgba(255,255,255,0.1)' : '#F1F5F9',
+  };
+  const subTextColor = isDark ? '#94A3B8' : '#64748B';
+  const actionStyle = { backgroundColor: isDark ? '#334155' : '#F1F5F9' };
+
+  const renderPersona = (persona: Persona) => (
+    <View key={persona.id} className="rounded-2xl p-4 border" style={cardStyle}>
+      <View className="flex-row items-center mb-2">
+        <View className="w-9 h-9 rounded-full items-center justify-center mr-3" style={actionStyle}>
+          <Ionicons name={persona.icon as any} size={18} color={activeColors.primary} />
+        </View>
+        <View className="flex-1">
+          <ZenText className="text-base font-bold" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>{persona.name}</ZenText>
+          <ZenText className="text-xs" style={{ color: subTextColor }}>
+            声: {AI_VOICES.find(({ voice }) => voice === persona.voice)?.label ?? persona.voice}
+          </ZenText>
+        </View>
+      </View>
+      {persona.description ? (
+        <ZenText className="text-sm leading-6 mb-3" style={{ color: isDark ? '#E2E8F0' : '#334155' }}>{persona.description}</ZenText>
+      ) : null}
+      <ZenText className="text-xs leading-5 mb-3" style={{ color: subTextColor }}>「{persona.greeting}」</ZenText>
+
+      <View className="flex-row justify-end gap-2">
+        <TouchableOpacity
+          onPress={() => setEditingPersona(createCustomPersona(persona))}
+          className="flex-row items-center px-3 py-1.5 rounded-full"
+          style={actionStyle}
+        >
+          <Ionicons name="copy-outline" size={14} color={activeColors.primary} />
+          <ZenText className="text-xs font-bold ml-1" style={{ color: activeColors.primary }}>コピーして作る</ZenText>
+        </TouchableOpacity>
+        {!persona.builtIn && (
+          <>
+            <TouchableOpacity
+              onPress={() => setEditingPersona(persona)}
+              className="flex-row items-center px-3 py-1.5 rounded-full"
+              style={actionStyle}
+            >
+              <Ionicons name="create-outline" size={14} color={activeColors.primary} />
+              <ZenText className="text-xs font-bold ml-1" style={{ color: activeColors.primary }}>編集</ZenText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleDelete(persona)}
+              className="p-2 rounded-full"
+              style={{ backgroundColor: isDark ? 'rgba(127, 29, 29, 0.3)' : '#FEF2F2' }}
+            >
+              <Ionicons name="trash-outline" size={14} color="#EF4444" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  const builtIn = personas.filter(persona => persona.builtIn);
+  const custom = personas.filter(persona => !persona.builtIn);
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }}>
+      <SafeAreaView className="flex-1">
+        {/* Header */}
+        <View className="px-6 py-4 flex-row items-center justify-between">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center rounded-full"
+            style={{ backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#FFFFFF' }}
+          >
+            <Ionicons name="close" size={24} color={isDark ? '#CBD5E1' : '#64748b'} />
+          </TouchableOpacity>
+          <ZenHeading level={2} className="text-lg" style={{ color: isDark ? '#FFFFFF' : '#334155' }}>話し相手</ZenHeading>
+          <TouchableOpacity
+            onPress={() => setEditingPersona(createCustomPersona())}
+            className="w-10 h-10 items-center justify-center rounded-full"
+            style={{ backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#FFFFFF' }}
+          >
+            <Ionicons name="add" size={24} color={activeColors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+          <ZenText className="text-sm leading-6 mb-6" style={{ color: subTextColor }}>
+            声・話し方・最初の問いかけ・黙っているときの声かけをまとめた「話し相手」です。{'\n'}
+            ホーム画面で会話ごとに選べます。
+          </ZenText>
+
+          {custom.length > 0 && (
+            <View className="mb-6">
+              <ZenHeading level={3} className="text-slate-500 font-bold mb-3 text-xs tracking-wider">自分で作った話し相手</ZenHeading>
+              <View className="gap-3">{custom.map(renderPersona)}</View>
+            </View>
+          )}
+
+          <View className="mb-6">
+            <ZenHeading level={3} className="text-slate-500 font-bold mb-3 text-xs tracking-wider">標準の話し相手</ZenHeading>
+            <View className="gap-3">{builtIn.map(renderPersona)}</View>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+
+      <PersonaEditorModal
+        visible={editingPersona !== null}
+        initialPersona={editingPersona}
+        onSave={handleSave}
+        onCancel={() => setEditingPersona(null)}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,216 @@
+// app/retrospectives.tsx
+// ふりかえり - 週・月ごとに日記をまとめて読み返す
+// 直近の期間は作成ボタンを表示し、作成済みのものは作り直せる
+
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ZenHeading, ZenText } from '../components/ui/Typography';
+import { useTheme } from '../hooks/useTheme';
+import {
+  formatPeriodLabel,
+  getRecentPeriodStarts,
+  getRetrospectiveId,
+  parseDateKey,
+  Retrospective,
+  RETROSPECTIVE_PERIODS,
+  RetrospectivePeriod,
+  RetrospectiveService,
+} from '../services/retrospective';
+
+// 気分グラフの最大値（EmotionDefinition.score）
+const MAX_MOOD_SCORE = 5;
+
+export default function RetrospectivesScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ period?: string }>();
+  const { isDark, activeColors } = useTheme();
+  const [period, setPeriod] = useState<RetrospectivePeriod>(params.period === 'month' ? 'month' : 'week');
+  const [retrospectives, setRetrospectives] = useState<Retrospective[]>([]);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+
+  const loadData = async () => {
+    setRetrospectives(await RetrospectiveService.getAll());
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  // 直近の期間と、それより前に作成済みの期間（新しい順）
+  const periods = useMemo(() => {
+    const starts = getRecentPeriodStarts(period);
+    const ids = new Set(starts.map(start => getRetrospectiveId(period, start)));
+    retrospectives
+      .filter(r => r.period === period && !ids.has(r.id))
+      .forEach(r => starts.push(parseDateKey(r.startDate)));
+    return starts
+      .sort((a, b) => b.getTime() - a.getTime())
+      .map(start => ({
+        start,
+        label: formatPeriodLabel(period, start),
+        retrospective: retrospectives.find(r => r.id === getRetrospectiveId(period, start)),
+      }));
+  }, [period, retrospectives]);
+
+  const handleGenerate = async (start: Date) => {
+    const entries = await RetrospectiveService.getEntriesInPeriod(period, start);
+    if (entries.length === 0) {
+      Alert.alert('ふりかえりを作成できません', 'この期間の日記がありません。');
+      return;
+    }
+
+    setGeneratingId(getRetrospectiveId(period, start));
+    try {
+      await RetrospectiveService.generate(period, start);
+      await loadData();
+    } catch (e) {
+      console.warn('Retrospectives: Failed to generate', e);
+      Alert.alert('ふりかえりを作成できませんでした', '通信環境を確認して、もう一度お試しください。');
+    } finally {
+      setGeneratingId(null);
+    }
+  };
+
+  const cardStyle = {
+    backgroundColor: isDark ? 'rgba(30,41,59,0.5)' : '#FFFFFF',
+    borderColor: isDark ? 'rgba(255,255,255,0.1)' : '#F1F5F9',
+  };
+  const subTextColor = isDark ? '#94A3B8' : '#64748B';
+  const bodyTextColor = isDark ? '#E2E8F0' : '#334155';
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }}>
+      <SafeAreaView className="flex-1">
+        {/* Header */}
+        <View className="px-6 py-4 flex-row items-center justify-between">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center rounded-full"
+            style={{ backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#FFFFFF' }}
+          >
+            <Ionicons name="close" size={24} color={isDark ? '#CBD5E1' : '#64748b'} />
+          </TouchableOpacity>
+          <ZenHeading level={2} className="text-lg" style={{ color: isDark ? '#FFFFFF' : '#334155' }}>ふりかえり</ZenHeading>
+          <View className="w-10" />
+        </View>
+
+        {/* Period Toggle */}
+        <View className="mx-6 mb-4 flex-row p-1 rounded-xl" style={{ backgroundColor: isDark ? '#334155' : '#E2E8F0' }}>
+          {RETROSPECTIVE_PERIODS.map(({ period: p, label }) => (
+            <TouchableOpacity
+              key={p}
+              onPress={() => setPeriod(p)}
+              className="flex-1 py-2 rounded-lg items-center"
+              style={{ backgroundColor: period === p ? (isDark ? '#1E293B' : '#FFFFFF') : 'transparent' }}
+            >
+              <ZenText className="text-sm font-bold" style={{ color: period === p ? activeColors.primary : subTextColor }}>
+                {label}ごと
+              </ZenText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+          {periods.map(({ start, label, retrospective }) => {
+            const id = getRetrospectiveId(period, start);
+            const isGenerating = generatingId === id;
+            return (
+              <View key={id} className="rounded-3xl p-5 border mb-4" style={cardStyle}>
+                <View className="flex-row items-center justify-between mb-3">
+                  <View className="flex-1 mr-3">
+                    <ZenText className="text-base font-bold" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>{label}</ZenText>
+                    {retrospective && (
+                      <ZenText className="text-xs mt-0.5" style={{ color: subTextColor }}>
+                        {retrospective.entryIds.length}件の日記から ・ {new Date(retrospective.updatedAt).toLocaleDateString('ja-JP', { month: 'long', day: 'numeric' })}に作成
+                      </ZenText>
+                    )}
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleGenerate(start)}
+                    disabled={generatingId !== null}
+                    className="flex-row items-center px-3 py-1.5 rounded-full"
+                    style={{ backgroundColor: retrospective ? (isDark ? '#334155' : '#F1F5F9') : activeColors.primary, opacity: generatingId !== null && !isGenerating ? 0.5 : 1 }}
+                  >
+                    {isGenerating ? (
+                      <ActivityIndicator size="small" color={retrospective ? activeColors.primary : '#FFFFFF'} />
+                    ) : (
+                      <>
+                        <Ionicons name={retrospective ? 'refresh' : 'sparkles'} size={14} color={retrospective ? activeColors.primary : '#FFFFFF'} />
+                        <ZenText className="text-xs font-bold ml-1" style={{ color: retrospective ? activeColors.primary : '#FFFFFF' }}>
+                          {retrospective ? '作り直す' : '作成する'}
+                        </ZenText>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                </View>
+
+                {retrospective && (
+                  <View className="gap-4">
+                    {/* Highlights */}
+                    {retrospective.highlights.length > 0 && (
+                      <View>
+                        <ZenText className="text-xs font-bold mb-2" style={{ color: subTextColor }}>印象に残った出来事</ZenText>
+                        {retrospective.highlights.map((highlight, i) => (
+                          <View key={i} className="flex-row mb-1">
+                            <ZenText className="text-sm mr-2" style={{ color: activeColors.primary }}>•</ZenText>
+                            <ZenText className="text-sm flex-1 leading-6" style={{ color: bodyTextColor }}>{highlight}</ZenText>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+
+                    {/* Themes */}
+                    {retrospective.themes.length > 0 && (
+                      <View>
+                        <ZenText className="text-xs font-bold mb-2" style={{ color: subTextColor }}>よく話したこと</ZenText>
+                        <View className="flex-row flex-wrap gap-2">
+                          {retrospective.themes.map(theme => (
+                            <View key={theme} className="px-3 py-1 rounded-full" style={{ backgroundColor: isDark ? '#334155' : '#F1F5F9' }}>
+                              <ZenText className="text-xs font-medium" style={{ color: bodyTextColor }}>{theme}</ZenText>
+                            </View>
+                          ))}
+                        </View>
+                      </View>
+                    )}
+
+                    {/* Mood Trajectory */}
+                    <View>
+                      <ZenText className="text-xs font-bold mb-2" style={{ color: subTextColor }}>気分の移り変わり</ZenText>
+                      {retrospective.moodPoints.length > 1 && (
+                        <View className="flex-row items-end gap-1 h-12 mb-2">
+                          {retrospective.moodPoints.map(point => (
+                            <View
+                              key={point.date}
+                              className="flex-1 rounded-t-md"
+                              style={{
+                                height: `${Math.max(10, (point.score / MAX_MOOD_SCORE) * 100)}%`,
+                                backgroundColor: activeColors.primary,
+                                opacity: 0.3 + (point.score / MAX_MOOD_SCORE) * 0.7,
+                              }}
+                            />
+                          ))}
+                        </View>
+                      )}
+                      <ZenText className="text-sm leading-6" style={{ color: bodyTextColor }}>{retrospective.moodTrajectory}</ZenText>
+                    </View>
+
+                    {/* Question */}
+                    <View className="p-4 rounded-2xl flex-row" style={{ backgroundColor: isDark ? 'rgba(99, 102, 241, 0.15)' : 'rgba(99, 102, 241, 0.06)' }}>
+                      <Ionicons name="chatbubble-ellipses-outline" size={18} color={activeColors.primary} />
+                      <ZenText className="text-sm flex-1 ml-2 leading-6" style={{ color: bodyTextColor }}>{retrospective.question}</ZenText>
+                    </View>
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
@@ -7,29 +7,41 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
 import {
+  Alert,
+  Pressable,
   Text,
   TouchableOpacity,
   View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { JournalEditorModal } from '../components/JournalEditorModal';
+import { LiveTranscriptPanel } from '../components/LiveTranscriptPanel';
+import { TranscriptReviewModal } from '../components/TranscriptReviewModal';
 import { VoiceVisualizer } from '../components/ui/VoiceVisualizer';
 import { useCallSession } from '../hooks/useCallSession';
+import { GenerationQueue } from '../services/generation-queue';
+import { MemoryService } from '../services/memory';
 import { NotificationService } from '../services/notification';
+import { SessionAudio } from '../services/session-audio';
 import { JournalEntry, StorageService } from '../services/storage';
-import { CallState } from '../types/callSession';
+import { CallState, ConversationLog, FinishedCall } from '../types/callSession';
 
 export default function TalkScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const isOnboarding = params.mode === 'onboarding';
+  const personaId = typeof params.persona === 'string' ? params.persona : undefined;
 
   // ジャーナル生成中フラグ
   const [isGenerating, setIsGenerating] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('日記を書いています...');
   
+  // 日記生成前に見直す通話の記録
+  const [reviewingCall, setReviewingCall] = useState<FinishedCall | null>(null);
   // 編集用ステート
   const [editingJournal, setEditingJournal] = useState<JournalEntry | null>(null);
+  // 日記と一緒に保存する会話ログ
+  const transcriptRef = useRef<ConversationLog[]>([]);
 
   // 通話時間ステート
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
@@ -58,12 +70,20 @@ export default function TalkScreen() {
     isUserTalking,
     isMuted,
     toggleMute,
+    inputMode,
+    startTalking,
+    stopTalking,
     errorMessage,
+    liveTranscript,
+    correctUserTurn,
     connect,
     disconnect,
-    endConversation,
+    endCall,
+    generateJournal,
+    discardCall,
   } = useCallSession({
     systemInstruction,
+    personaId,
     onStateChange: (newState, prevState) => {
       console.log(`TalkScreen: State ${prevState} -> ${newState}`);
     },
@@ -162,6 +182,17 @@ export default function TalkScreen() {
       return;
     }
 
+    // 通話を終えて、日記にする前に会話を見直す
+    console.log('TalkScreen: Ending call for review');
+    setReviewingCall(endCall());
+  };
+
+  // 見直しを終えた会話ログから日記を生成
+  const handleGenerate = async (transcript: ConversationLog[]) => {
+    const call = reviewingCall;
+    if (!call || isGenerating) return;
+    setReviewingCall(null);
+
     // 日記生成
     console.log('TalkScreen: Starting journal generation');
     setIsGenerating(true);
@@ -173,9 +204,10 @@ export default function TalkScreen() {
     const msgTimer3 = setTimeout(() => setLoadingMessage('日記帳に書き込んでいます...'), 5500);
     
     try {
-      console.log('TalkScreen: Calling endConversation...');
-      const journal = await endConversation();
-      console.log('TalkScreen: endConversation returned:', journal);
+      console.log('TalkScreen: Calling generateJournal...');
+      const journal = await generateJournal(call, transcript);
+      console.log('TalkScreen: generateJournal returned:', journal);
+      transcriptRef.current = journal?.transcript || [];
       
       // ローカルタイムゾーンで日付を取得
       const now = new Date();
@@ -187,14 +219,32 @@ export default function TalkScreen() {
         title: journal?.title || '今日の日記',
         summary: journal?.summary || '（会話の内容から日記を生成できませんでした）',
         emotion: (journal?.emotion as any) || 'neutral',
-        createdAt: Date.now()
+        emotionIntensity: journal?.emotionIntensity,
+        secondaryEmotions: journal?.secondaryEmotions,
+        tags: journal?.tags,
+        createdAt: Date.now(),
+        duration: journal?.duration,
+        talkTime: journal?.talkTime,
+        audio: journal?.audio,
       };
 
-      // 生成完了 -> 編集モーダルを表示
       clearTimeout(msgTimer1);
       clearTimeout(msgTimer2);
       clearTimeout(msgTimer3);
       setIsGenerating(false);
+
+      if (journal?.pending) {
+        // 生成できなかった -> 作成待ちとして保存し、通信回復後に自動で生成する
+        await GenerationQueue.savePendingEntry(newEntry, transcriptRef.current);
+        Alert.alert(
+          '日記の作成を保留しました',
+          '通信が回復したら自動で日記を作成します。\n作成状況は履歴から確認できます。',
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+        return;
+      }
+
+      // 生成完了 -> 編集モーダルを表示
       setEditingJournal(newEntry);
       
     } catch (e) {
@@ -203,9 +253,12 @@ export default function TalkScreen() {
       clearTimeout(msgTimer2);
       clearTimeout(msgTimer3);
       setIsGenerating(false);
-      // エラー時は強制的にホームに戻るか、エラーダイアログを出すべきだが、
-      // ここではとりあえずホームに戻す（既存動作維持）
-      router.back();
+      // 会話ログは一時保存に残っているので、ホーム画面から日記を作り直せる
+      Alert.alert(
+        '日記を作成できませんでした',
+        `${e instanceof Error ? e.message : String(e)}\n会話の記録は一時保存されているので、次にホーム画面を開いたときに日記にできます。`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
     }
   };
 
@@ -215,8 +268,10 @@ export default function TalkScreen() {
     if (!journalToSave) return;
     
     try {
-      await StorageService.saveJournalEntry(journalToSave);
+      await StorageService.saveJournalEntry(journalToSave, transcriptRef.current);
       console.log('TalkScreen: Journal saved successfully');
+      // 長期記憶の抽出はバックグラウンドで行う（完了を待たずに画面を閉じる）
+      MemoryService.rememberEntry(journalToSave);
       setEditingJournal(null);
       router.back();
     } catch (e) {
@@ -272,10 +327,11 @@ export default function TalkScreen() {
         </View>
 
         {/* Main Content: Visualizer */}
-        <View className="flex-1 items-center justify-center mb-20">
+        <View className="flex-1 items-center justify-center">
           <VoiceVisualizer 
             state={
               callState === CallState.CONNECTING ? 'connecting' :
+              callState === CallState.RECONNECTING ? 'reconnecting' :
               callState === CallState.AI_THINKING ? 'aiThinking' :
               isAiTalking ? 'aiTalking' :
               isUserTalking ? 'userTalking' :
@@ -289,11 +345,18 @@ export default function TalkScreen() {
                {isAiTalking ? '話しています...' :
                 isUserTalking ? '聞いています...' :
                 callState === CallState.CONNECTING ? '接続中...' :
+                callState === CallState.RECONNECTING ? '再接続中...' :
                 callState === CallState.AI_THINKING ? '考え中...' :
                 isMuted ? 'マイクオフ' :
+                inputMode === 'hold' ? 'ボタンを押して話してください' :
+                inputMode === 'toggle' ? 'ボタンをタップして話してください' :
                 'お話しください'}
              </Text>
-             {!isAiTalking && !isUserTalking && !isMuted && (
+             {callState === CallState.RECONNECTING ? (
+                <Text className="text-white/40 text-sm mt-2 font-light">
+                   通信が途切れました。会話の続きから再開します
+                </Text>
+             ) : !isAiTalking && !isUserTalking && !isMuted && inputMode === 'auto' && (
                 <Text className="text-white/40 text-sm mt-2 font-light">
                    いつでも話しかけてください
                 </Text>
@@ -301,6 +364,37 @@ export default function TalkScreen() {
           </View>
         </View>
 
+        {/* Live Transcript（字幕。下部のボタンと重ならない位置に置く） */}
+        <View style={{ marginBottom: inputMode === 'auto' ? 120 : 250 }}>
+          <LiveTranscriptPanel turns={liveTranscript} onCorrectUserTurn={correctUserTurn} />
+        </View>
+
+        {/* Push-to-talk Button（押して話す・タップで切り替え） */}
+        {inputMode !== 'auto' && (
+          <View className="absolute bottom-32 w-full items-center">
+            <Pressable
+              onPressIn={inputMode === 'hold' ? startTalking : undefined}
+              onPressOut={inputMode === 'hold' ? stopTalking : undefined}
+              onPress={inputMode === 'toggle' ? (isUserTalking ? stopTalking : startTalking) : undefined}
+              disabled={!isConnected || isMuted || isGenerating}
+              accessibilityRole="button"
+              accessibilityLabel={isUserTalking ? '話し終える' : '話し始める'}
+              accessibilityState={{ selected: isUserTalking, disabled: !isConnected || isMuted }}
+              className={`w-20 h-20 rounded-full items-center justify-center ${
+                isUserTalking ? 'bg-blue-500' : 'bg-white/15'
+              }`}
+              style={{ opacity: !isConnected || isMuted ? 0.4 : 1 }}
+            >
+              <Ionicons name={isUserTalking ? 'radio-button-on' : 'mic'} size={32} color="white" />
+            </Pressable>
+            <Text className="text-white/50 text-xs mt-3">
+              {inputMode === 'hold'
+                ? (isUserTalking ? '離すと送信します' : '押している間だけ聞き取ります')
+                : (isUserTalking ? 'タップして話し終える' : 'タップして話し始める')}
+            </Text>
+          </View>
+        )}
+
         {/* Bottom Control Bar */}
         <View className="absolute bottom-12 w-full flex-row items-center justify-between px-8">
            {/* Mute Button (Bottom Left) */}
@@ -338,6 +432,19 @@ export default function TalkScreen() {
 
       </SafeAreaView>
 
+      {/* Transcript Review Modal */}
+      <TranscriptReviewModal
+         visible={reviewingCall !== null}
+         initialTranscript={reviewingCall?.transcript ?? null}
+         hasAudio={!!reviewingCall?.audio}
+         onConfirm={handleGenerate}
+         onDiscard={() => {
+           if (reviewingCall) discardCall(reviewingCall);
+           setReviewingCall(null);
+           router.back();
+         }}
+      />
+
       {/* Edit Journal Modal */}
       <JournalEditorModal 
          visible={editingJournal !== null}
@@ -347,6 +454,8 @@ export default function TalkScreen() {
            handleSaveJournal(updatedEntry);
          }}
          onCancel={() => {
+           // 保存しない日記の録音は削除する
+           if (editingJournal?.audio) SessionAudio.delete(editingJournal.audio.fileName);
            setEditingJournal(null);
            router.back();
          }}
@@ -1,7 +1,10 @@
 import { Ionicons } from '@expo/vector-icons';
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Modal, ScrollView, TouchableOpacity, View } from 'react-native';
-import { JournalEntry } from '../services/storage';
+import { getEmotionDefinition, MAX_EMOTION_INTENSITY } from '../constants/emotions';
+import { useRecordingPlayer } from '../hooks/useRecordingPlayer';
+import { JournalEntry, StorageService } from '../services/storage';
+import { ConversationLog } from '../types/callSession';
 import { ZenHeading, ZenText } from './ui/Typography';
 
 interface EntryDetailModalProps {
@@ -11,29 +14,38 @@ interface EntryDetailModalProps {
   isDark: boolean;
 }
 
-const EMOTION_ICONS: Record<string, string> = {
-  happy: 'happy',
-  sad: 'sad',
-  excited: 'flash',
-  calm: 'leaf',
-  tired: 'bed',
-  neutral: 'remove',
-};
+// 感情の強さの表示 (●●●○○)
+const formatIntensity = (intensity: number) =>
+  '●'.repeat(intensity) + '○'.repeat(Math.max(0, MAX_EMOTION_INTENSITY - intensity));
 
-const EMOTION_COLORS: Record<string, string> = {
-  happy: '#F59E0B',   // Amber
-  sad: '#6366F1',     // Indigo
-  excited: '#EC4899', // Pink
-  calm: '#10B981',    // Emerald
-  tired: '#64748B',   // Slate
-  neutral: '#9CA3AF'  // Gray
+// 再生位置の表示 (M:SS)
+const formatPlaybackTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
 };
 
 export function EntryDetailModal({ visible, entry, onClose, isDark }: EntryDetailModalProps) {
+  const [transcript, setTranscript] = useState<ConversationLog[]>([]);
+  const player = useRecordingPlayer(entry?.audio, visible);
+
+  // 会話ログは日記本体と別に保存されているので、表示時に読み込む
+  useEffect(() => {
+    setTranscript([]);
+    if (!visible || !entry?.hasTranscript) return;
+    let cancelled = false;
+    StorageService.getTranscript(entry.id).then(logs => {
+      if (!cancelled) setTranscript(logs);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, entry?.id, entry?.hasTranscript]);
+
   if (!entry) return null;
 
   const date = new Date(entry.createdAt);
-  const emotionColor = EMOTION_COLORS[entry.emotion] || EMOTION_COLORS.neutral;
+  const emotion = getEmotionDefinition(entry.emotion);
+  const emotionColor = emotion.color;
 
   return (
     <Modal
@@ -56,8 +68,10 @@ export function EntryDetailModal({ visible, entry, onClose, isDark }: EntryDetai
             <View className="px-6 py-6 bg-white dark:bg-slate-900 mb-4">
                 <View className="flex-row items-center gap-2 mb-4">
                     <View className="px-3 py-1 rounded-full flex-row items-center gap-1" style={{ backgroundColor: `${emotionColor}20` }}>
-                         <Ionicons name={EMOTION_ICONS[entry.emotion] as any} size={14} color={emotionColor} />
-                         <ZenText className="text-xs font-bold capitalize" style={{ color: emotionColor }}>{entry.emotion}</ZenText>
+                         <Ionicons name={emotion.icon as any} size={14} color={emotionColor} />
+                         <ZenText className="text-xs font-bold" style={{ color: emotionColor }}>
+                           {emotion.label}{entry.emotionIntensity ? ` ${formatIntensity(entry.emotionIntensity)}` : ''}
+                         </ZenText>
                     </View>
                     <ZenText className="text-sm" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>
                         {date.toLocaleDateString('ja-JP', { year: 'numeric', month: 'long', day: 'numeric', weekday: 'short' })}
@@ -68,6 +82,23 @@ export function EntryDetailModal({ visible, entry, onClose, isDark }: EntryDetai
                 <ZenHeading level={1} className="text-3xl font-bold leading-tight" style={{ color: isDark ? '#FFFFFF' : '#1E293B' }}>
                     {entry.title}
                 </ZenHeading>
+
+                {/* Secondary Emotions */}
+                {entry.secondaryEmotions && entry.secondaryEmotions.length > 0 && (
+                    <View className="flex-row flex-wrap gap-2 mt-4">
+                        {entry.secondaryEmotions.map(({ emotion: secondary, intensity }) => {
+                            const definition = getEmotionDefinition(secondary);
+                            return (
+                                <View key={secondary} className="px-2 py-1 rounded-full flex-row items-center gap-1" style={{ backgroundColor: `${definition.color}15` }}>
+                                    <Ionicons name={definition.icon as any} size={12} color={definition.color} />
+                                    <ZenText className="text-xs" style={{ color: definition.color }}>
+                                        {definition.label} {formatIntensity(intensity)}
+                                    </ZenText>
+                                </View>
+                            );
+                        })}
+                    </View>
+                )}
             </View>
 
             {/* AI Summary */}
@@ -81,19 +112,84 @@ export function EntryDetailModal({ visible, entry, onClose, isDark }: EntryDetai
                </ZenText>
             </View>
 
-            {/* Original Conversation (Mock for now or if we store plain text) */}
-             {/* Note: Currently we only store summary/title in JournalEntry. 
-                 To show full text, we might need to store it. 
-                 For now, we can show summary as the main content or if 'content' field exists.
-                 Requirements say "View Full Text", but strict Storage only has title/summary/emotion.
-                 Assuming Summary is what users want to read for now, 
-                 OR if we need to show the raw logs, we'd need to fetch them.
-                 However, RecoveryService logs are cleared. 
-                 Actually, looking at `saveJournalEntry` in index.tsx, we pass `journal.summary`.
-                 Wait, user said "全文表示" (View Full Text). 
-                 Currently we assume Summary IS the text. 
-                 Let's stick to displaying Summary prominently. 
-             */}
+            {/* Conversation Recording */}
+            {entry.audio && (
+              <View className="mx-6 p-5 rounded-2xl mb-8" style={{ backgroundColor: isDark ? '#1E293B' : '#FFFFFF', borderWidth: 1, borderColor: isDark ? '#334155' : '#E2E8F0' }}>
+                <View className="flex-row items-center gap-2 mb-3">
+                    <Ionicons name="mic-outline" size={16} color={isDark ? '#818CF8' : '#6366F1'} />
+                    <ZenText className="font-bold text-sm" style={{ color: isDark ? '#E2E8F0' : '#475569' }}>
+                      {entry.audio.includesAi ? '会話の録音' : 'あなたの声の録音'}
+                    </ZenText>
+                </View>
+                {player.isMissing ? (
+                  <ZenText className="text-sm" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>録音ファイルが見つかりません</ZenText>
+                ) : (
+                  <View className="flex-row items-center gap-3">
+                    <TouchableOpacity
+                      onPress={player.togglePlay}
+                      disabled={!player.isLoaded}
+                      className="w-10 h-10 rounded-full items-center justify-center"
+                      style={{ backgroundColor: isDark ? '#312E81' : '#EEF2FF', opacity: player.isLoaded ? 1 : 0.5 }}
+                    >
+                      <Ionicons name={player.isPlaying ? 'pause' : 'play'} size={18} color={isDark ? '#C7D2FE' : '#4F46E5'} />
+                    </TouchableOpacity>
+                    <View className="flex-1">
+                      <View className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: isDark ? '#334155' : '#E2E8F0' }}>
+                        <View className="h-full rounded-full" style={{
+                            width: `${player.durationMs > 0 ? Math.min(100, (player.positionMs / player.durationMs) * 100) : 0}%`,
+                            backgroundColor: isDark ? '#818CF8' : '#6366F1'
+                        }} />
+                      </View>
+                      <ZenText className="text-xs mt-1" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>
+                        {formatPlaybackTime(player.positionMs)} / {formatPlaybackTime(player.durationMs)}
+                      </ZenText>
+                    </View>
+                  </View>
+                )}
+              </View>
+            )}
+
+            {/* Conversation Transcript */}
+            {transcript.length > 0 && (
+              <View className="mx-6 mb-8">
+                <View className="flex-row items-center gap-2 mb-3">
+                    <Ionicons name="chatbubbles-outline" size={16} color={isDark ? '#818CF8' : '#6366F1'} />
+                    <ZenText className="font-bold text-sm" style={{ color: isDark ? '#E2E8F0' : '#475569' }}>会話の記録</ZenText>
+                </View>
+                <View className="gap-3">
+                  {transcript.map((log, index) => {
+                    const isUser = log.speaker === 'user';
+                    // 録音がある発話はタップでその位置から再生
+                    const canSeek = player.canSeekToLog(log.timestamp);
+                    return (
+                      <TouchableOpacity
+                        key={`${log.timestamp}-${index}`}
+                        activeOpacity={0.7}
+                        disabled={!canSeek}
+                        onPress={() => player.seekToLog(log.timestamp)}
+                        className={`max-w-[85%] px-4 py-3 rounded-2xl ${isUser ? 'self-end' : 'self-start'}`}
+                        style={{
+                          backgroundColor: isUser ? (isDark ? '#312E81' : '#EEF2FF') : (isDark ? '#1E293B' : '#FFFFFF'),
+                          borderWidth: isUser ? 0 : 1,
+                          borderColor: isDark ? '#334155' : '#E2E8F0'
+                      }}>
+                        <View className="flex-row items-center gap-1 mb-1">
+                          {canSeek && <Ionicons name="play-circle-outline" size={12} color={isDark ? '#94A3B8' : '#64748B'} />}
+                          {log.highlighted && <Ionicons name="star" size={12} color="#F59E0B" />}
+                          <ZenText className="text-xs font-bold" style={{ color: isDark ? '#94A3B8' : '#64748B' }}>
+                            {isUser ? 'あなた' : 'AI'}
+                            {'  '}{new Date(log.timestamp).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+                          </ZenText>
+                        </View>
+                        <ZenText className="text-sm leading-relaxed" style={{ color: isDark ? '#E2E8F0' : '#334155' }}>
+                          {log.text}
+                        </ZenText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
         </ScrollView>
       </View>
     </Modal>
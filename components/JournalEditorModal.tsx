@@ -1,6 +1,8 @@
 import { LinearGradient } from 'expo-linear-gradient';
 import { useEffect, useState } from 'react';
 import {
+    ActivityIndicator,
+    Alert,
     KeyboardAvoidingView,
     Modal,
     Platform,
@@ -10,7 +12,40 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
-import { JournalEntry } from '../services/storage';
+import {
+    DEFAULT_EMOTION_INTENSITY,
+    Emotion,
+    EMOTION_DEFINITIONS,
+    EMOTIONS,
+    MAX_EMOTION_INTENSITY,
+    MAX_SECONDARY_EMOTIONS,
+} from '../constants/emotions';
+import { generateJournalWithSettings, JOURNAL_STYLES, JournalStyle } from '../services/journal-generator';
+import { JournalEntry, StorageService } from '../services/storage';
+import { MAX_TAGS_PER_ENTRY, normalizeTag, SUGGESTED_TAGS } from '../utils/tags';
+import { formatConversationHistory } from '../utils/transcript';
+
+// 編集画面で選べる感情（neutral は選択肢に出さない）
+const SELECTABLE_EMOTIONS = EMOTIONS.filter(emotion => emotion !== 'neutral');
+
+const INTENSITY_LEVELS = Array.from({ length: MAX_EMOTION_INTENSITY }, (_, i) => i + 1);
+
+/**
+ * 感情の強さ（1〜5）の選択
+ */
+function IntensityPicker({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <View className="flex-row items-center">
+      {INTENSITY_LEVELS.map((level) => (
+        <TouchableOpacity key={level} onPress={() => onChange(level)} className="px-1 py-1">
+          <View className={`w-4 h-4 rounded-full border ${
+            level <= value ? 'bg-indigo-600 border-indigo-600' : 'bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600'
+          }`} />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
 
 interface JournalEditorModalProps {
   visible: boolean;
@@ -21,13 +56,87 @@ interface JournalEditorModalProps {
 
 export function JournalEditorModal({ visible, initialEntry, onSave, onCancel }: JournalEditorModalProps) {
   const [entry, setEntry] = useState<JournalEntry | null>(initialEntry);
+  const [tagInput, setTagInput] = useState('');
+  const [style, setStyle] = useState<JournalStyle>('factual');
+  const [isRegenerating, setIsRegenerating] = useState(false);
 
   useEffect(() => {
     setEntry(initialEntry);
+    setTagInput('');
+    // 作り直しの文体は設定で選択したものから始める
+    StorageService.getUserSettings().then(settings => setStyle(settings.journalStyle));
   }, [initialEntry]);
 
   if (!entry) return null;
 
+  const tags = entry.tags ?? [];
+  const canAddTag = tags.length < MAX_TAGS_PER_ENTRY;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setTagInput('');
+    if (!tag) return;
+    setEntry(prev => {
+      if (!prev) return null;
+      const current = prev.tags ?? [];
+      if (current.includes(tag) || current.length >= MAX_TAGS_PER_ENTRY) return prev;
+      return { ...prev, tags: [...current, tag] };
+    });
+  };
+
+  const removeTag = (tag: string) => {
+    setEntry(prev => prev ? { ...prev, tags: (prev.tags ?? []).filter(t => t !== tag) } : null);
+  };
+
+  const secondaryEmotions = entry.secondaryEmotions ?? [];
+
+  const selectEmotion = (emotion: Emotion) => {
+    // 主な感情にしたものは副次的な感情から外す
+    setEntry(prev => prev ? {
+      ...prev,
+      emotion,
+      secondaryEmotions: (prev.secondaryEmotions ?? []).filter(e => e.emotion !== emotion),
+    } : null);
+  };
+
+  const toggleSecondaryEmotion = (emotion: Emotion) => {
+    setEntry(prev => {
+      if (!prev) return null;
+      const current = prev.secondaryEmotions ?? [];
+      if (current.some(e => e.emotion === emotion)) {
+        return { ...prev, secondaryEmotions: current.filter(e => e.emotion !== emotion) };
+      }
+      if (current.length >= MAX_SECONDARY_EMOTIONS) return prev;
+      return { ...prev, secondaryEmotions: [...current, { emotion, intensity: DEFAULT_EMOTION_INTENSITY }] };
+    });
+  };
+
+  const setSecondaryIntensity = (emotion: Emotion, intensity: number) => {
+    setEntry(prev => prev ? {
+      ...prev,
+      secondaryEmotions: (prev.secondaryEmotions ?? []).map(e => e.emotion === emotion ? { ...e, intensity } : e),
+    } : null);
+  };
+
+  // 保存済みの会話ログから、選んだ文体でタイトルと本文を作り直す（保存するまで反映しない）
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      const transcript = await StorageService.getTranscript(entry.id);
+      if (transcript.length === 0) {
+        throw new Error('Transcript not found');
+      }
+      const journal = await generateJournalWithSettings(formatConversationHistory(transcript), style);
+      // 編集した気分・タグはそのまま残す
+      setEntry(prev => prev ? { ...prev, title: journal.title, summary: journal.summary } : null);
+    } catch (e) {
+      console.warn('JournalEditor: Failed to regenerate journal', e);
+      Alert.alert('作り直せませんでした', '通信環境を確認して、もう一度お試しください。');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
   const handleSave = () => {
     if (entry) {
       onSave(entry);
@@ -109,37 +218,160 @@ export function JournalEditorModal({ visible, initialEntry, onSave, onCancel }:
               />
             </View>
 
+            {/* Regenerate with another style (会話ログがある日記のみ) */}
+            {entry.hasTranscript && !entry.status && (
+              <View className="mb-6">
+                <View className="flex-row items-center mb-3">
+                  <Text className="text-indigo-600 dark:text-indigo-400 mr-2">🔄</Text>
+                  <Text className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase tracking-wider">文体を変えて作り直す</Text>
+                </View>
+                <View className="flex-row flex-wrap">
+                  {JOURNAL_STYLES.map(({ style: s, label }) => (
+                    <TouchableOpacity
+                      key={s}
+                      onPress={() => setStyle(s)}
+                      disabled={isRegenerating}
+                      className={`px-3 py-1.5 rounded-full border mr-2 mb-2 ${
+                        style === s
+                          ? 'bg-indigo-100 dark:bg-indigo-900 border-indigo-400'
+                          : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'
+                      }`}
+                    >
+                      <Text className="text-sm text-slate-600 dark:text-slate-300">{label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TouchableOpacity
+                  onPress={handleRegenerate}
+                  disabled={isRegenerating}
+                  className="flex-row items-center justify-center rounded-xl py-3 mt-1 border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-slate-800"
+                >
+                  {isRegenerating ? (
+                    <ActivityIndicator size="small" color="#4f46e5" />
+                  ) : (
+                    <Text className="text-indigo-600 dark:text-indigo-400 font-bold">会話ログから作り直す</Text>
+                  )}
+                </TouchableOpacity>
+                <Text className="text-xs text-slate-400 mt-2">タイトルと本文だけが変わります。保存するまで日記には反映されません。</Text>
+              </View>
+            )}
+
+            {/* Tags */}
+            <View className="mb-6">
+              <View className="flex-row items-center mb-3">
+                <Text className="text-indigo-600 dark:text-indigo-400 mr-2">🏷️</Text>
+                <Text className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase tracking-wider">タグ</Text>
+              </View>
+              <View className="flex-row flex-wrap">
+                {tags.map((tag) => (
+                  <TouchableOpacity
+                    key={tag}
+                    onPress={() => removeTag(tag)}
+                    className="flex-row items-center px-3 py-1.5 rounded-full bg-indigo-600 mr-2 mb-2"
+                  >
+                    <Text className="text-sm text-white mr-1">#{tag}</Text>
+                    <Text className="text-xs text-white/70">✕</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {canAddTag && (
+                <>
+                  <TextInput
+                    value={tagInput}
+                    onChangeText={setTagInput}
+                    onSubmitEditing={() => addTag(tagInput)}
+                    returnKeyType="done"
+                    blurOnSubmit={false}
+                    className="text-base text-slate-700 dark:text-slate-200 bg-slate-50 dark:bg-slate-800 rounded-xl px-4 py-3 border border-slate-200 dark:border-slate-700"
+                    placeholder="タグを追加（例: 仕事、田中さん）"
+                    placeholderTextColor="#94a3b8"
+                  />
+                  {/* 候補（まだ付いていないもの） */}
+                  <View className="flex-row flex-wrap mt-3">
+                    {SUGGESTED_TAGS.filter(tag => !tags.includes(tag)).map((tag) => (
+                      <TouchableOpacity
+                        key={tag}
+                        onPress={() => addTag(tag)}
+                        className="px-3 py-1.5 rounded-full border border-dashed border-slate-300 dark:border-slate-600 mr-2 mb-2"
+                      >
+                        <Text className="text-sm text-slate-500 dark:text-slate-400">+ {tag}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+            </View>
+
             {/* Emotion Selection */}
-            <View className="mb-8">
+            <View className="mb-6">
               <View className="flex-row items-center mb-3">
                 <Text className="text-indigo-600 dark:text-indigo-400 mr-2">💭</Text>
                 <Text className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase tracking-wider">今日の気分</Text>
               </View>
               <View className="flex-row flex-wrap">
-                {[
-                  { value: 'happy', label: '😊 嬉しい' },
-                  { value: 'sad', label: '😢 悲しい' },
-                  { value: 'excited', label: '🎉 わくわく' },
-                  { value: 'calm', label: '😌 穏やか' },
-                  { value: 'tired', label: '😴 疲れた' },
-                ].map((emotion) => (
+                {SELECTABLE_EMOTIONS.map((emotion) => (
                   <TouchableOpacity
-                    key={emotion.value}
-                    onPress={() => setEntry(prev => prev ? {...prev, emotion: emotion.value as any} : null)}
+                    key={emotion}
+                    onPress={() => selectEmotion(emotion)}
                     className={`px-4 py-2 rounded-full border mr-2 mb-2 ${
-                      entry.emotion === emotion.value 
+                      entry.emotion === emotion 
                         ? 'bg-indigo-600 border-indigo-600' 
                         : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'
                     }`}
                   >
                     <Text className={`text-sm ${
-                      entry.emotion === emotion.value ? 'text-white' : 'text-slate-600 dark:text-slate-300'
+                      entry.emotion === emotion ? 'text-white' : 'text-slate-600 dark:text-slate-300'
                     }`}>
-                      {emotion.label}
+                      {EMOTION_DEFINITIONS[emotion].emoji} {EMOTION_DEFINITIONS[emotion].label}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </View>
+              <View className="flex-row items-center justify-between mt-2">
+                <Text className="text-sm text-slate-500 dark:text-slate-400">強さ</Text>
+                <IntensityPicker
+                  value={entry.emotionIntensity ?? DEFAULT_EMOTION_INTENSITY}
+                  onChange={(intensity) => setEntry(prev => prev ? {...prev, emotionIntensity: intensity} : null)}
+                />
+              </View>
+            </View>
+
+            {/* Secondary Emotions */}
+            <View className="mb-8">
+              <View className="flex-row items-center mb-3">
+                <Text className="text-indigo-600 dark:text-indigo-400 mr-2">🫧</Text>
+                <Text className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase tracking-wider">
+                  ほかに感じたこと（{MAX_SECONDARY_EMOTIONS}つまで）
+                </Text>
+              </View>
+              <View className="flex-row flex-wrap">
+                {SELECTABLE_EMOTIONS.filter(emotion => emotion !== entry.emotion).map((emotion) => {
+                  const isSelected = secondaryEmotions.some(e => e.emotion === emotion);
+                  return (
+                    <TouchableOpacity
+                      key={emotion}
+                      onPress={() => toggleSecondaryEmotion(emotion)}
+                      className={`px-3 py-1.5 rounded-full border mr-2 mb-2 ${
+                        isSelected
+                          ? 'bg-indigo-100 dark:bg-indigo-900 border-indigo-400'
+                          : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'
+                      }`}
+                    >
+                      <Text className="text-sm text-slate-600 dark:text-slate-300">
+                        {EMOTION_DEFINITIONS[emotion].emoji} {EMOTION_DEFINITIONS[emotion].label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {secondaryEmotions.map(({ emotion, intensity }) => (
+                <View key={emotion} className="flex-row items-center justify-between mt-2">
+                  <Text className="text-sm text-slate-500 dark:text-slate-400">
+                    {EMOTION_DEFINITIONS[emotion].emoji} {EMOTION_DEFINITIONS[emotion].label}の強さ
+                  </Text>
+                  <IntensityPicker value={intensity} onChange={(value) => setSecondaryIntensity(emotion, value)} />
+                </View>
+              ))}
             </View>
           </ScrollView>
 
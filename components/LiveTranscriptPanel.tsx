@@ -0,0 +1,125 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRef, useState } from 'react';
+import {
+    Alert,
+    ScrollView,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { ConversationLog } from '../types/callSession';
+
+interface LiveTranscriptPanelProps {
+  /** 発話単位にまとめた会話（useCallSession の liveTranscript） */
+  turns: ConversationLog[];
+  /** ユーザーの発話の訂正。確定前で訂正できなかった場合は false */
+  onCorrectUserTurn: (timestamp: number, text: string) => boolean;
+}
+
+/**
+ * 通話中の字幕（折りたたみ可能）
+ * ユーザーの発話をタップすると、聞き間違いを訂正できる（日記生成に反映される）
+ */
+export function LiveTranscriptPanel({ turns, onCorrectUserTurn }: LiveTranscriptPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [editingTimestamp, setEditingTimestamp] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<ScrollView>(null);
+
+  const startEditing = (turn: ConversationLog) => {
+    setEditingTimestamp(turn.timestamp);
+    setDraft(turn.text);
+  };
+
+  const saveEditing = () => {
+    if (editingTimestamp === null) return;
+    if (!draft.trim()) {
+      Alert.alert('訂正できません', '内容を入力してください。');
+      return;
+    }
+    if (!onCorrectUserTurn(editingTimestamp, draft)) {
+      Alert.alert('訂正できません', 'AIの返事が始まってから、もう一度お試しください。');
+      return;
+    }
+    setEditingTimestamp(null);
+  };
+
+  return (
+    <View className="mx-6 rounded-2xl bg-black/20 overflow-hidden">
+      <TouchableOpacity
+        onPress={() => setIsExpanded(prev => !prev)}
+        className="flex-row items-center justify-between px-4 py-3"
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isExpanded }}
+      >
+        <View className="flex-row items-center">
+          <Ionicons name="chatbox-ellipses-outline" size={16} color="rgba(255,255,255,0.7)" />
+          <Text className="text-white/70 text-sm font-medium ml-2">字幕</Text>
+          {isExpanded && turns.length > 0 && (
+            <Text className="text-white/40 text-xs ml-2">自分の発言をタップして訂正できます</Text>
+          )}
+        </View>
+        <Ionicons name={isExpanded ? 'chevron-down' : 'chevron-up'} size={16} color="rgba(255,255,255,0.7)" />
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <ScrollView
+          ref={scrollRef}
+          style={{ maxHeight: 220 }}
+          contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 12 }}
+          // 訂正中は入力欄が流れていかないよう、自動スクロールを止める
+          onContentSizeChange={() => {
+            if (editingTimestamp === null) scrollRef.current?.scrollToEnd({ animated: true });
+          }}
+          keyboardShouldPersistTaps="handled"
+        >
+          {turns.length === 0 && (
+            <Text className="text-white/40 text-sm py-2">会話が始まると、ここに表示されます</Text>
+          )}
+          {turns.map((turn, index) => {
+            const isUser = turn.speaker === 'user';
+            const key = `${turn.speaker}-${turn.timestamp}`;
+
+            if (isUser && editingTimestamp === turn.timestamp) {
+              return (
+                <View key={key} className="items-end my-1">
+                  <TextInput
+                    value={draft}
+                    onChangeText={setDraft}
+                    autoFocus
+                    multiline
+                    className="w-full text-sm text-white bg-white/10 rounded-xl px-3 py-2 border border-white/30"
+                  />
+                  <View className="flex-row gap-2 mt-2">
+                    <TouchableOpacity onPress={() => setEditingTimestamp(null)} className="px-3 py-1.5 rounded-full bg-white/10">
+                      <Text className="text-white/70 text-xs font-bold">キャンセル</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={saveEditing} className="px-3 py-1.5 rounded-full bg-blue-500">
+                      <Text className="text-white text-xs font-bold">訂正する</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            }
+
+            // 話している途中の発話（最後のターン）は、確定するまで訂正できない
+            const canEdit = isUser && index < turns.length - 1;
+            return (
+              <TouchableOpacity
+                key={key}
+                onPress={() => startEditing(turn)}
+                disabled={!canEdit}
+                className={`my-1 max-w-[85%] ${isUser ? 'self-end' : 'self-start'}`}
+              >
+                <View className={`rounded-xl px-3 py-2 ${isUser ? 'bg-blue-500/40' : 'bg-white/10'}`}>
+                  <Text className="text-white/90 text-sm leading-5">{turn.text}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import {
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { AI_VOICES, normalizePersona, Persona } from '../services/persona';
+
+interface PersonaEditorModalProps {
+  visible: boolean;
+  initialPersona: Persona | null;
+  onSave: (persona: Persona) => void;
+  onCancel: () => void;
+}
+
+const INPUT_CLASS = 'text-base text-slate-700 dark:text-slate-200 bg-slate-50 dark:bg-slate-800 rounded-xl px-4 py-3 border border-slate-200 dark:border-slate-700';
+
+function Label({ children }: { children: string }) {
+  return <Text className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase tracking-wider mb-2">{children}</Text>;
+}
+
+/**
+ * 自作のペルソナの編集（沈黙時の問いかけは1行に1つ）
+ */
+export function PersonaEditorModal({ visible, initialPersona, onSave, onCancel }: PersonaEditorModalProps) {
+  const [persona, setPersona] = useState<Persona | null>(initialPersona);
+  const [lightPrompts, setLightPrompts] = useState('');
+  const [deepPrompts, setDeepPrompts] = useState('');
+
+  useEffect(() => {
+    setPersona(initialPersona);
+    setLightPrompts(initialPersona?.lightSilencePrompts.join('\n') ?? '');
+    setDeepPrompts(initialPersona?.deepSilencePrompts.join('\n') ?? '');
+  }, [initialPersona]);
+
+  if (!persona) return null;
+
+  const update = (changes: Partial<Persona>) => setPersona(prev => prev ? { ...prev, ...changes } : null);
+
+  const handleSave = () => {
+    const normalized = normalizePersona({
+      ...persona,
+      lightSilencePrompts: lightPrompts.split('\n'),
+      deepSilencePrompts: deepPrompts.split('\n'),
+    });
+    if (!normalized) {
+      Alert.alert('保存できません', '名前・話し方・最初の問いかけを入力してください。');
+      return;
+    }
+    onSave(normalized);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1 bg-black/50 justify-end"
+      >
+        <View className="bg-white dark:bg-slate-900 rounded-t-3xl h-[90%]">
+          {/* Header */}
+          <View className="items-center pt-4 pb-2">
+            <View className="w-12 h-1 bg-slate-200 dark:bg-slate-700 rounded-full mb-4" />
+            <Text className="text-slate-800 dark:text-white text-xl font-bold">話し相手の編集</Text>
+          </View>
+
+          <ScrollView className="flex-1 px-6 pt-4" showsVerticalScrollIndicator={false}>
+            <View className="mb-5">
+              <Label>名前</Label>
+              <TextInput
+                value={persona.name}
+                onChangeText={(text) => update({ name: text })}
+                className={INPUT_CLASS}
+                placeholder="例：朝型のランニング仲間"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+
+            <View className="mb-5">
+              <Label>説明</Label>
+              <TextInput
+                value={persona.description}
+                onChangeText={(text) => update({ description: text })}
+                className={INPUT_CLASS}
+                placeholder="どんな話し相手か（一覧に表示されます）"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+
+            <View className="mb-5">
+              <Label>声</Label>
+              <View className="flex-row flex-wrap gap-2">
+                {AI_VOICES.map(({ voice, label }) => {
+                  const isSelected = persona.voice === voice;
+                  return (
+                    <TouchableOpacity
+                      key={voice}
+                      onPress={() => update({ voice })}
+                      className={`px-3 py-1.5 rounded-full border ${
+                        isSelected ? 'bg-indigo-600 border-indigo-600' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'
+                      }`}
+                    >
+                      <Text className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-slate-600 dark:text-slate-300'}`}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View className="mb-5">
+              <Label>話し方のルール</Label>
+              <TextInput
+                value={persona.speakingRules}
+                onChangeText={(text) => update({ speakingRules: text })}
+                className={`${INPUT_CLASS} min-h-[160px] leading-6`}
+                multiline
+                textAlignVertical="top"
+                placeholder={'・敬語で話す\n・1回の発話は1〜2文'}
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+
+            <View className="mb-5">
+              <Label>最初の問いかけ</Label>
+              <TextInput
+                value={persona.greeting}
+                onChangeText={(text) => update({ greeting: text })}
+                className={`${INPUT_CLASS} min-h-[80px] leading-6`}
+                multiline
+                textAlignVertical="top"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+
+            <View className="mb-5">
+              <Label>少し黙っているときの合いの手（1行に1つ）</Label>
+              <TextInput
+                value={lightPrompts}
+                onChangeText={setLightPrompts}
+                className={`${INPUT_CLASS} min-h-[100px] leading-6`}
+                multiline
+                textAlignVertical="top"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+
+            <View className="mb-10">
+              <Label>長く黙っているときの問いかけ（1行に1つ）</Label>
+              <TextInput
+                value={deepPrompts}
+                onChangeText={setDeepPrompts}
+                className={`${INPUT_CLASS} min-h-[100px] leading-6`}
+                multiline
+                textAlignVertical="top"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+          </ScrollView>
+
+          {/* Footer Buttons */}
+          <View className="px-6 pb-8 pt-4 bg-white dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800">
+            <TouchableOpacity
+              onPress={handleSave}
+              className="bg-indigo-600 rounded-2xl py-4 mb-3"
+            >
+              <Text className="text-white font-bold text-center text-lg">保存する</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={onCancel}
+              className="bg-slate-100 dark:bg-slate-800 rounded-2xl py-4"
+            >
+              <Text className="text-slate-500 dark:text-slate-400 font-medium text-center">キャンセル</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,209 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { ConversationLog } from '../types/callSession';
+import { isTranscriptAltered } from '../utils/transcript';
+
+interface TranscriptReviewModalProps {
+  visible: boolean;
+  initialTranscript: ConversationLog[] | null;
+  /** 会話の録音があるか（発言を削除・訂正すると録音は保存されない） */
+  hasAudio: boolean;
+  onConfirm: (transcript: ConversationLog[]) => void;
+  onDiscard: () => void;
+}
+
+interface ReviewTurn extends ConversationLog {
+  removed: boolean;
+}
+
+/**
+ * 日記を生成する前の会話ログの見直し
+ * 残したくない発言の削除・聞き間違いの訂正・日記に必ず残したい発言への印つけができる
+ */
+export function TranscriptReviewModal({ visible, initialTranscript, hasAudio, onConfirm, onDiscard }: TranscriptReviewModalProps) {
+  const [turns, setTurns] = useState<ReviewTurn[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    setTurns((initialTranscript ?? []).map(log => ({ ...log, removed: false })));
+    setEditingIndex(null);
+  }, [initialTranscript]);
+
+  const update = (index: number, changes: Partial<ReviewTurn>) =>
+    setTurns(prev => prev.map((turn, i) => i === index ? { ...turn, ...changes } : turn));
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(turns[index].text);
+  };
+
+  const saveEditing = () => {
+    if (editingIndex === null) return;
+    if (!draft.trim()) {
+      Alert.alert('訂正できません', '内容を入力してください。発言ごと残したくない場合は削除してください。');
+      return;
+    }
+    update(editingIndex, { text: draft.trim() });
+    setEditingIndex(null);
+  };
+
+  const getReviewedTranscript = (): ConversationLog[] => turns
+    .filter(turn => !turn.removed)
+    .map(({ removed, ...log }) => log);
+
+  const handleConfirm = () => {
+    onConfirm(getReviewedTranscript());
+  };
+
+  const handleDiscard = () => {
+    Alert.alert('日記にせずに終了', 'この会話は保存されません。よろしいですか？', [
+      { text: 'キャンセル', style: 'cancel' },
+      { text: '保存せずに終了', style: 'destructive', onPress: onDiscard },
+    ]);
+  };
+
+  const isAltered = isTranscriptAltered(initialTranscript ?? [], getReviewedTranscript());
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={handleDiscard}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1 bg-black/50 justify-end"
+      >
+        <View className="bg-white dark:bg-slate-900 rounded-t-3xl h-[90%]">
+          {/* Header */}
+          <View className="items-center pt-4 pb-2 px-6">
+            <View className="w-12 h-1 bg-slate-200 dark:bg-slate-700 rounded-full mb-4" />
+            <Text className="text-slate-800 dark:text-white text-xl font-bold">会話の見直し</Text>
+            <Text className="text-slate-500 dark:text-slate-400 text-xs text-center leading-5 mt-2">
+              日記にする前に、残したくない発言を削除したり、聞き間違いを直したりできます。{'\n'}
+              ☆をつけた発言は日記に必ず残します。
+            </Text>
+          </View>
+
+          <ScrollView className="flex-1 px-6 pt-4" showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {turns.length === 0 && (
+              <Text className="text-slate-400 text-sm text-center py-8">会話の記録がありません</Text>
+            )}
+            {turns.map((turn, index) => {
+              const isUser = turn.speaker === 'user';
+              return (
+                <View
+                  key={`${turn.timestamp}-${index}`}
+                  className={`mb-3 rounded-2xl px-4 py-3 border ${
+                    turn.removed
+                      ? 'border-dashed border-slate-300 dark:border-slate-700'
+                      : isUser ? 'bg-indigo-50 dark:bg-indigo-950 border-indigo-100 dark:border-indigo-900' : 'bg-slate-50 dark:bg-slate-800 border-slate-100 dark:border-slate-700'
+                  }`}
+                >
+                  <View className="flex-row items-center justify-between mb-1">
+                    <Text className="text-xs font-bold text-slate-500 dark:text-slate-400">
+                      {isUser ? 'あなた' : 'AI'}
+                      {'  '}{new Date(turn.timestamp).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                    {turn.removed ? (
+                      <TouchableOpacity onPress={() => update(index, { removed: false })} className="px-2 py-1">
+                        <Text className="text-xs font-bold text-indigo-600 dark:text-indigo-400">元に戻す</Text>
+                      </TouchableOpacity>
+                    ) : editingIndex !== index && (
+                      <View className="flex-row items-center gap-1">
+                        {isUser && (
+                          <>
+                            <TouchableOpacity
+                              onPress={() => update(index, { highlighted: !turn.highlighted })}
+                              className="p-1.5"
+                              accessibilityLabel={turn.highlighted ? '印を外す' : '日記に必ず残す'}
+                            >
+                              <Ionicons name={turn.highlighted ? 'star' : 'star-outline'} size={16} color={turn.highlighted ? '#F59E0B' : '#94a3b8'} />
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => startEditing(index)} className="p-1.5" accessibilityLabel="訂正する">
+                              <Ionicons name="create-outline" size={16} color="#94a3b8" />
+                            </TouchableOpacity>
+                          </>
+                        )}
+                        <TouchableOpacity
+                          onPress={() => update(index, { removed: true, highlighted: false })}
+                          className="p-1.5"
+                          accessibilityLabel="記録しない"
+                        >
+                          <Ionicons name="trash-outline" size={16} color="#EF4444" />
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </View>
+
+                  {editingIndex === index ? (
+                    <View>
+                      <TextInput
+                        value={draft}
+                        onChangeText={setDraft}
+                        autoFocus
+                        multiline
+                        className="text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 rounded-xl px-3 py-2 border border-slate-200 dark:border-slate-700 leading-5"
+                      />
+                      <View className="flex-row justify-end gap-2 mt-2">
+                        <TouchableOpacity onPress={() => setEditingIndex(null)} className="px-3 py-1.5 rounded-full bg-slate-100 dark:bg-slate-700">
+                          <Text className="text-xs font-bold text-slate-500 dark:text-slate-300">キャンセル</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={saveEditing} className="px-3 py-1.5 rounded-full bg-indigo-600">
+                          <Text className="text-xs font-bold text-white">訂正する</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  ) : (
+                    <Text
+                      className={`text-sm leading-6 ${turn.removed ? 'text-slate-400 line-through' : 'text-slate-700 dark:text-slate-200'}`}
+                    >
+                      {turn.text}
+                    </Text>
+                  )}
+                </View>
+              );
+            })}
+            <View className="h-6" />
+          </ScrollView>
+
+          {/* Footer Buttons */}
+          <View className="px-6 pb-8 pt-4 bg-white dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800">
+            {isAltered && hasAudio && (
+              <Text className="text-xs text-slate-500 dark:text-slate-400 text-center mb-3">
+                削除・訂正する前の発言が録音に残っているため、この会話の録音は保存しません
+              </Text>
+            )}
+            <TouchableOpacity
+              onPress={handleConfirm}
+              disabled={editingIndex !== null}
+              className="bg-indigo-600 rounded-2xl py-4 mb-3"
+              style={{ opacity: editingIndex !== null ? 0.5 : 1 }}
+            >
+              <Text className="text-white font-bold text-center text-lg">この内容で日記を書く</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleDiscard}
+              className="bg-slate-100 dark:bg-slate-800 rounded-2xl py-4"
+            >
+              <Text className="text-slate-500 dark:text-slate-400 font-medium text-center">日記にせずに終了</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { Dimensions, View } from 'react-native';
 import { LineChart } from 'react-native-gifted-charts';
+import { getEmotionDefinition } from '../../constants/emotions';
 import { useTheme } from '../../hooks/useTheme';
 import { JournalEntry } from '../../services/storage';
 import { ZenHeading } from './Typography';
@@ -9,24 +10,6 @@ interface MoodChartProps {
   entries: JournalEntry[];
 }
 
-const EMOTION_SCORES: Record<string, number> = {
-  happy: 5,
-  excited: 4,
-  calm: 3,
-  neutral: 2.5,
-  tired: 1,
-  sad: 0,
-};
-
-const EMOTION_LABELS: Record<string, string> = {
-  happy: 'Happy',
-  excited: 'Excited',
-  calm: 'Calm',
-  neutral: 'Neutral',
-  tired: 'Tired',
-  sad: 'Sad',
-};
-
 export function MoodChart({ entries }: MoodChartProps) {
   const { isDark, activeColors } = useTheme();
 
@@ -59,7 +42,7 @@ export function MoodChart({ entries }: MoodChartProps) {
     recentEntries.forEach(entry => {
         const date = new Date(entry.createdAt);
         const dateKey = date.toDateString();
-        const score = EMOTION_SCORES[entry.emotion] || 2.5;
+        const score = getEmotionDefinition(entry.emotion).score;
         
         if (!dailyScores[dateKey]) {
             dailyScores[dateKey] = { total: 0, count: 0 };
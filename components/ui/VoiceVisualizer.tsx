@@ -12,7 +12,7 @@ import Animated, {
     withTiming
 } from 'react-native-reanimated';
 
-type VisualizerState = 'connecting' | 'listening' | 'userTalking' | 'aiThinking' | 'aiTalking';
+type VisualizerState = 'connecting' | 'reconnecting' | 'listening' | 'userTalking' | 'aiThinking' | 'aiTalking';
 
 interface VoiceVisualizerProps {
   state: VisualizerState;
@@ -25,6 +25,11 @@ const STATE_CONFIG: Record<VisualizerState, { colors: string[]; scale: number; s
     scale: 0.9,
     speed: 2000,
   },
+  reconnecting: {
+    colors: ['#fbbf24', '#f59e0b', '#d97706'], // Amber (Connection Lost)
+    scale: 0.95,
+    speed: 1600,
+  },
   listening: {
     colors: ['#a78bfa', '#8b5cf6', '#7c3aed'], // Violet (Active Listening)
     scale: 1.0,
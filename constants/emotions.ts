@@ -0,0 +1,91 @@
+// constants/emotions.ts
+// 感情の分類（日記の感情・会話中に推測する感情・グラフや一覧の表示で共通）
+// 感情を追加する場合はここに定義を追加すれば、生成プロンプト・編集画面・表示に反映される
+
+/**
+ * 感情
+ */
+export type Emotion =
+  | 'happy'      // 喜び（楽しい、嬉しい、良かった）
+  | 'excited'    // ワクワク（楽しみ、やった）
+  | 'calm'       // 穏やか（まあまあ、普通）
+  | 'neutral'    // 不明/中立
+  | 'tired'      // 疲労（忙しい、疲れた、眠い）
+  | 'anxious'    // 不安（心配、どうしよう）
+  | 'frustrated' // イライラ（むかつく、最悪）
+  | 'sad';       // 悲しい（悲しい、辛い、泣きたい）
+
+/** 感情の一覧（表示順） */
+export const EMOTIONS: Emotion[] = ['happy', 'excited', 'calm', 'neutral', 'tired', 'anxious', 'frustrated', 'sad'];
+
+/** 感情の強さ（1: かすかに 〜 5: とても強く） */
+export const MIN_EMOTION_INTENSITY = 1;
+export const MAX_EMOTION_INTENSITY = 5;
+export const DEFAULT_EMOTION_INTENSITY = 3;
+
+/** 1件の日記に付けられる副次的な感情の最大数 */
+export const MAX_SECONDARY_EMOTIONS = 3;
+
+export interface EmotionWithIntensity {
+  emotion: Emotion;
+  intensity: number; // MIN_EMOTION_INTENSITY - MAX_EMOTION_INTENSITY
+}
+
+export interface EmotionDefinition {
+  /** 日本語の表示名 */
+  label: string;
+  /** 英語の表示名（履歴・グラフのラベル） */
+  englishLabel: string;
+  emoji: string;
+  color: string;
+  /** Ionicons の名前（-outline を付けたアイコンもある） */
+  icon: string;
+  /** 気分グラフの値（0: 落ち込み 〜 5: 好調） */
+  score: number;
+}
+
+export const EMOTION_DEFINITIONS: Record<Emotion, EmotionDefinition> = {
+  happy: { label: '嬉しい', englishLabel: 'Joyful', emoji: '😊', color: '#F59E0B', icon: 'happy', score: 5 },             // Amber
+  excited: { label: 'わくわく', englishLabel: 'Excited', emoji: '🎉', color: '#EC4899', icon: 'flash', score: 4 },       // Pink
+  calm: { label: '穏やか', englishLabel: 'Calm', emoji: '😌', color: '#10B981', icon: 'leaf', score: 3 },                // Emerald
+  neutral: { label: 'ふつう', englishLabel: 'Neutral', emoji: '😐', color: '#9CA3AF', icon: 'remove', score: 2.5 },      // Gray
+  tired: { label: '疲れた', englishLabel: 'Tired', emoji: '😴', color: '#64748B', icon: 'bed', score: 1 },               // Slate
+  anxious: { label: '不安', englishLabel: 'Anxious', emoji: '😟', color: '#8B5CF6', icon: 'alert-circle', score: 1 },    // Violet
+  frustrated: { label: 'イライラ', englishLabel: 'Frustrated', emoji: '😤', color: '#EF4444', icon: 'thunderstorm', score: 0.5 }, // Red
+  sad: { label: '悲しい', englishLabel: 'Sad', emoji: '😢', color: '#6366F1', icon: 'sad', score: 0 },                   // Indigo
+};
+
+export const isEmotion = (value: unknown): value is Emotion =>
+  typeof value === 'string' && (EMOTIONS as string[]).includes(value);
+
+/**
+ * 感情の定義を取得（保存データの想定外の値は neutral として扱う）
+ */
+export const getEmotionDefinition = (emotion: string): EmotionDefinition =>
+  isEmotion(emotion) ? EMOTION_DEFINITIONS[emotion] : EMOTION_DEFINITIONS.neutral;
+
+/**
+ * 感情の強さを正規化する（範囲外は丸め、数値でなければ既定値）
+ */
+export const normalizeIntensity = (raw: unknown): number => {
+  if (typeof raw !== 'number' || !Number.isFinite(raw)) return DEFAULT_EMOTION_INTENSITY;
+  return Math.min(MAX_EMOTION_INTENSITY, Math.max(MIN_EMOTION_INTENSITY, Math.round(raw)));
+};
+
+/**
+ * 副次的な感情の一覧を正規化する（不正な値・主な感情と同じもの・重複を除き、最大数に制限）
+ * AIの出力や保存済みデータなど、型が保証されない値も受け付ける
+ */
+export const normalizeSecondaryEmotions = (raw: unknown, primary: Emotion): EmotionWithIntensity[] => {
+  if (!Array.isArray(raw)) return [];
+  const result: EmotionWithIntensity[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const { emotion, intensity } = item as Record<string, unknown>;
+    if (!isEmotion(emotion) || emotion === primary || emotion === 'neutral') continue;
+    if (result.some(e => e.emotion === emotion)) continue;
+    result.push({ emotion, intensity: normalizeIntensity(intensity) });
+    if (result.length >= MAX_SECONDARY_EMOTIONS) break;
+  }
+  return result;
+};
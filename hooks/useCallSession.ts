@@ -1,169 +1,150 @@
 // hooks/useCallSession.ts
 // 通話セッション全体を管理する中核フック
-// 状態マシン、割り込み、無音タイムアウトを一元管理
+// 状態マシン（services/call-session）を音声の再生・録音、設定、React の状態につなぐ
 
-import { useCallback, useEffect, useRef, useState } from 'react';
-import { GeminiLiveService } from '../services/gemini-live';
-import { getGeminiRestService } from '../services/gemini-rest';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CallSessionController } from '../services/call-session';
+import { generateConversationResult } from '../services/journal-generator';
+import { DEFAULT_SESSION_PACING, getPacingProfile, PacingProfile } from '../services/pacing';
+import { PersonaService } from '../services/persona';
 import { RecoveryService } from '../services/recovery';
-import { StorageService } from '../services/storage';
-import { CallSessionConfig, CallSessionState, CallState, ConversationLog } from '../types/callSession';
+import { SessionAudio, SessionAudioRecorder } from '../services/session-audio';
+import { StorageService, UserSettings } from '../services/storage';
+import { CallSessionConfig, CallSessionState, CallState, ConversationLog, ConversationResult, FinishedCall, InputMode } from '../types/callSession';
 import { generateSystemInstruction } from '../utils/ai-prompt';
+import { groupLiveTranscript, isTranscriptAltered } from '../utils/transcript';
 import { useAudioSession } from './useAudioSession';
 import { useSimpleAudioPlayer } from './useSimpleAudioPlayer';
 
-const LIGHT_SILENCE_TIMEOUT_MS = 15000;  // 15秒で軽い合いの手（ユーザーが考える時間を確保）
-const DEEP_SILENCE_TIMEOUT_MS = 30000;   // 30秒で問いかけ
-
 interface UseCallSessionReturn extends CallSessionState {
   // アクション
   connect: () => void;
   disconnect: () => void;
-  endConversation: () => Promise<{title: string; summary: string; emotion: string} | null>;
+  /** 通話を終え、日記生成前の記録を返す（会話ログを見直してから generateJournal に渡す） */
+  endCall: () => FinishedCall;
+  /** 見直した会話ログから日記を生成する */
+  generateJournal: (call: FinishedCall, transcript: ConversationLog[]) => Promise<ConversationResult | null>;
+  /** 日記にせずに終える（録音と一時保存の会話ログも消す） */
+  discardCall: (call: FinishedCall) => void;
   // ミュート
   isMuted: boolean;
   toggleMute: () => void;
+  // 字幕（発話単位にまとめた会話。ユーザーの発話は訂正を反映済み）
+  liveTranscript: ConversationLog[];
+  /** 聞き間違えたユーザーの発話を訂正する（日記生成に反映される。確定前の発話は訂正できない） */
+  correctUserTurn: (timestamp: number, text: string) => boolean;
+  // 押して話す（inputMode が hold / toggle の場合）
+  inputMode: InputMode;
+  startTalking: () => void;
+  stopTalking: () => void;
 }
 
 export const useCallSession = (config: CallSessionConfig = {}): UseCallSessionReturn => {
   const {
     systemInstruction,
+    personaId,
+    inputMode: inputModeOverride,
     onConversationLog,
     onStateChange,
     onError,
+    liveTransport,
   } = config;
 
   // 通話状態
   const [callState, setCallState] = useState<CallState>(CallState.ENDED);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [conversationLogs, setConversationLogs] = useState<ConversationLog[]>([]);
+  const [corrections, setCorrections] = useState<Record<number, string>>({});
   
   // 接続待機フラグ（isAudioReadyがtrueになったら接続する）
   const [pendingConnect, setPendingConnect] = useState(false);
   
   // Refs（クロージャ問題を回避するためにRefを使用）
-  const geminiServiceRef = useRef<GeminiLiveService | null>(null);
-  const lightSilenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const deepSilenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  const callStateRef = useRef<CallState>(CallState.ENDED);
-  const isTurnCompletingRef = useRef<boolean>(false); // ターン完了処理中フラグ（競合回避用）
-  const isInterruptingRef = useRef<boolean>(false); // 割り込み処理中フラグ（二重割り込み防止）
-
   const systemInstructionRef = useRef(systemInstruction);
   systemInstructionRef.current = systemInstruction;
-  
-  // Audio Session（権限・設定）
-  const { isReady: isAudioReady } = useAudioSession();
-  
-  // 状態変更（Refも同時に更新）
-  const updateCallState = useCallback((newState: CallState) => {
-    const prevState = callStateRef.current;
-    if (prevState !== newState) {
-      console.log(`CallSession: State change ${prevState} -> ${newState}`);
-      callStateRef.current = newState;
-      setCallState(newState);
-      onStateChange?.(newState, prevState);
-    }
-  }, [onStateChange]);
+  const personaIdRef = useRef(personaId);
+  personaIdRef.current = personaId;
+  const callbacksRef = useRef({ onConversationLog, onStateChange, onError });
+  callbacksRef.current = { onConversationLog, onStateChange, onError };
 
-  // 無音タイマーをリセット
-  const resetSilenceTimer = useCallback(() => {
-    if (lightSilenceTimerRef.current) {
-      clearTimeout(lightSilenceTimerRef.current);
-      lightSilenceTimerRef.current = null;
-    }
-    if (deepSilenceTimerRef.current) {
-      clearTimeout(deepSilenceTimerRef.current);
-      deepSilenceTimerRef.current = null;
-    }
-  }, []);
-
-  // 無音タイマーを開始（2段階対応）
-  const startSilenceTimer = useCallback(() => {
-    resetSilenceTimer();
-    
-    // 軽い合いの手
-    lightSilenceTimerRef.current = setTimeout(() => {
-      console.log('CallSession: Light silence timeout - sending light prompt');
-      if (geminiServiceRef.current?.isReady()) {
-        geminiServiceRef.current.sendLightSilencePrompt();
-        updateCallState(CallState.AI_THINKING);
-      }
-    }, LIGHT_SILENCE_TIMEOUT_MS);
-    
-    // 深い問いかけ
-    deepSilenceTimerRef.current = setTimeout(() => {
-      console.log('CallSession: Deep silence timeout - sending deep prompt');
-      if (geminiServiceRef.current?.isReady()) {
-        geminiServiceRef.current.sendDeepSilencePrompt();
-        updateCallState(CallState.AI_THINKING);
-      }
-    }, DEEP_SILENCE_TIMEOUT_MS);
-  }, [resetSilenceTimer, updateCallState]);
+  // 会話のペース（発話検出の感度。設定から読み込む）と音声の入力方法
+  const [pacing, setPacing] = useState<PacingProfile>(getPacingProfile(DEFAULT_SESSION_PACING));
+  const [inputMode, setInputMode] = useState<InputMode>(inputModeOverride ?? 'auto');
 
   // Audio Player（コールバックはシンプルにしてRef経由でアクセス）
   const audioPlayerRef = useRef<ReturnType<typeof useSimpleAudioPlayer> | null>(null);
+
+  // 状態マシン（音声の再生・マイク入力は audioPlayer に任せる）
+  const controllerRef = useRef<CallSessionController | null>(null);
+  if (!controllerRef.current) {
+    controllerRef.current = new CallSessionController({
+      audio: {
+        startRecording: () => audioPlayerRef.current?.startRecording(),
+        stopRecording: () => audioPlayerRef.current?.stopRecording(),
+        playAudio: (base64Audio) => audioPlayerRef.current?.playAudio(base64Audio),
+        stopPlaying: () => audioPlayerRef.current?.stopPlaying(),
+        interruptAI: async () => { await audioPlayerRef.current?.interruptAI(); },
+        onTurnComplete: () => audioPlayerRef.current?.onTurnComplete(),
+      },
+      transport: liveTransport,
+    });
+  }
+  const controller = controllerRef.current;
+
+  const applySessionSettings = useCallback((settings: UserSettings) => {
+    const profile = getPacingProfile(settings.sessionPacing);
+    const mode = inputModeOverride ?? settings.inputMode;
+    controller.applySettings({
+      pacing: profile,
+      silencePromptsEnabled: settings.silencePromptsEnabled,
+      targetSessionMinutes: settings.targetSessionMinutes,
+      inputMode: mode,
+    });
+    setPacing(profile);
+    setInputMode(mode);
+  }, [controller, inputModeOverride]);
+
+  useEffect(() => {
+    StorageService.getUserSettings().then(applySessionSettings);
+  }, [applySessionSettings]);
+
+  // 状態マシンのイベントを React の状態へ
+  useEffect(() => {
+    const handleStateChange = (newState: CallState, prevState: CallState) => {
+      setCallState(newState);
+      callbacksRef.current.onStateChange?.(newState, prevState);
+    };
+    const handleError = (error: Error) => callbacksRef.current.onError?.(error);
+    const handleTranscript = (log: ConversationLog) => {
+      setConversationLogs(prev => [...prev, log]);
+      if (log.speaker === 'user') callbacksRef.current.onConversationLog?.(log);
+      RecoveryService.appendLog(log);
+    };
+    controller.on('stateChange', handleStateChange);
+    controller.on('errorMessage', setErrorMessage);
+    controller.on('error', handleError);
+    controller.on('transcript', handleTranscript);
+
+    // クリーンアップ
+    return () => {
+      controller.off('stateChange', handleStateChange);
+      controller.off('errorMessage', setErrorMessage);
+      controller.off('error', handleError);
+      controller.off('transcript', handleTranscript);
+      controller.dispose();
+    };
+  }, [controller]);
+  
+  // Audio Session（権限・設定）
+  const { isReady: isAudioReady } = useAudioSession();
   
   const audioPlayer = useSimpleAudioPlayer({
-    onAudioData: (base64Audio: string) => {
-      geminiServiceRef.current?.sendAudioChunk(base64Audio);
-    },
+    onAudioData: (base64Audio: string) => controller.sendMicAudio(base64Audio),
     sampleRate: 16000,
-    onSpeechStart: () => {
-      console.log('CallSession: User speech started');
-      resetSilenceTimer();
-      
-      const currentState = callStateRef.current;
-      // AI発話中なら割り込み処理
-      if (currentState === CallState.AI_TALKING) {
-        // 二重割り込み防止
-        if (isInterruptingRef.current) {
-          console.log('CallSession: Already interrupting, skip');
-          return;
-        }
-        isInterruptingRef.current = true;
-        
-        // Turn complete処理中の場合もリセット
-        // （Turn completeと割り込みが重なると、isTurnCompletingRefが
-        //  1.2秒間trueのまま残り、新しいaudioイベントをブロックしてしまう）
-        isTurnCompletingRef.current = false;
-        
-        console.log('CallSession: Interrupting AI');
-        geminiServiceRef.current?.sendInterrupt();
-        updateCallState(CallState.INTERRUPTED);
-        
-        // interruptAI()をtry-catchでラップし、失敗してもアプリがクラッシュしないようにする
-        // 非同期処理完了後に状態を遷移することで、ネイティブ側の処理と状態の整合性を保つ
-        (async () => {
-          try {
-            await audioPlayerRef.current?.interruptAI();
-          } catch (e) {
-            console.error('CallSession: interruptAI failed', e);
-          } finally {
-            isInterruptingRef.current = false;
-            // 割り込み完了後にUSER_TALKINGへ遷移
-            // （ENDEDに変わっていないことを確認）
-            const stateAfterInterrupt = callStateRef.current;
-            if (stateAfterInterrupt !== CallState.ENDED) {
-              updateCallState(CallState.USER_TALKING);
-            }
-          }
-        })();
-      } else {
-        updateCallState(CallState.USER_TALKING);
-      }
-    },
-    onSpeechEnd: () => {
-      console.log('CallSession: User speech ended');
-      updateCallState(CallState.LISTENING);
-      startSilenceTimer();
-    },
-    // VAD設定（誤検出を減らすため閾値を高めに設定）
-    speechThreshold: 0.08,    // 0.05 → 0.08 発話検出閾値をさらに上げる
-    silenceThreshold: 0.02,   // 無音閾値は維持
-    speechDebounceMs: 300,    // 200 → 300 発話開始までの待機時間をさらに延長
-    silenceDebounceMs: 500,   // 発話終了判定は維持
+    onSpeechStart: () => controller.handleSpeechStart(),
+    onSpeechEnd: () => controller.handleSpeechEnd(),
+    // VAD設定（会話のペースごと。閾値は周囲の雑音から自動で決まる）
+    ...pacing.vad,
   });
   
   // audioPlayerをRefに保存（循環参照回避用）
@@ -177,144 +158,13 @@ export const useCallSession = (config: CallSessionConfig = {}): UseCallSessionRe
       return;
     }
     
-    if (geminiServiceRef.current?.isReady()) {
-      console.log('CallSession: Already connected');
-      return;
-    }
-
-    console.log('CallSession: Connecting...');
-    updateCallState(CallState.CONNECTING);
-    setErrorMessage(null);
+    if (!controller.beginConnect()) return;
     setPendingConnect(false);
 
-    const apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY || '';
-    if (!apiKey) {
-      console.error('CallSession: API key not configured');
-      setErrorMessage('API key not configured');
-      onError?.(new Error('API key not configured'));
-      return;
-    }
-
-    // Load user settings to get voice preference
+    // ペルソナ（声・最初の問いかけ・沈黙時の問いかけ）
     const userSettings = await StorageService.getUserSettings();
-    const voiceName = userSettings.aiVoice || 'Aoede';
-    console.log('CallSession: Using voice:', voiceName);
-
-    const service = new GeminiLiveService({ apiKey, voiceName });
-    geminiServiceRef.current = service;
-
-    // イベントリスナー設定
-    service.on('connected', () => {
-      console.log('CallSession: Connected to Gemini, starting recording...');
-      updateCallState(CallState.LISTENING);
-      
-      // 録音開始
-      audioPlayerRef.current?.startRecording();
-      
-      // 最初のAI挨拶をトリガー（話しやすいきっかけを作る）
-      setTimeout(() => {
-        console.log('CallSession: Sending initial greeting...');
-        // 選択肢を出して話しやすくする（敬語統一）
-        service.sendText('こんにちは！今日はどんな1日でしたか？良いことがありましたか？それとも大変でしたか？', false);
-        updateCallState(CallState.AI_THINKING);
-      }, 1000);
-    });
-
-    service.on('disconnected', () => {
-      console.log('CallSession: Disconnected');
-      updateCallState(CallState.ENDED);
-      audioPlayerRef.current?.stopRecording();
-      resetSilenceTimer();
-    });
-
-    service.on('error', (error) => {
-      console.error('CallSession: Error', error);
-      setErrorMessage('接続エラーが発生しました');
-      onError?.(error);
-    });
-
-    service.on('audio', (base64Audio) => {
-      // ターン完了処理中は新しい音声イベントを無視（前のターンの残りとみなす）
-      if (isTurnCompletingRef.current) {
-        return;
-      }
-      
-      // 割り込み処理中も新しい音声イベントを無視
-      // （ネイティブのstopPlaying完了前に到着した残りチャンクをブロック）
-      if (isInterruptingRef.current) {
-        return;
-      }
-      
-      // AI音声を受信 -> 再生
-      updateCallState(CallState.AI_TALKING);
-      resetSilenceTimer();
-      audioPlayerRef.current?.playAudio(base64Audio);
-    });
-
-// ... (remove the import)
-
-// ...
-
-    service.on('text', (text) => {
-      // AIテキスト受信（ストリーミング断片。確定ログはgemini-live.tsで出力）
-      const log: ConversationLog = {
-        timestamp: Date.now(),
-        speaker: 'ai',
-        text,
-      };
-      setConversationLogs(prev => [...prev, log]);
-      RecoveryService.appendLog(log);
-    });
-
-    service.on('inputTranscript', (text) => {
-      // ユーザー音声の認識結果
-      console.log('CallSession: User said:', text);
-
-      const log: ConversationLog = {
-        timestamp: Date.now(),
-        speaker: 'user',
-        text,
-      };
-      setConversationLogs(prev => [...prev, log]);
-      onConversationLog?.(log);
-      RecoveryService.appendLog(log);
-    });
-
-    service.on('turnComplete', () => {
-      console.log('CallSession: Turn complete');
-      isTurnCompletingRef.current = true;
-      
-      // 音声送信を一時停止（残響が次のターンとして誤認識されるのを防ぐ）
-      geminiServiceRef.current?.pauseAudioSending();
-      
-      audioPlayerRef.current?.onTurnComplete();
-      
-      // 沈黙カウンターをリセット
-      geminiServiceRef.current?.resetSilenceCount();
-      
-      // AI発話完了 -> LISTENINGへ（500ms -> 200msに短縮して応答性を向上）
-      setTimeout(() => {
-        const currentState = callStateRef.current;
-        if (currentState !== CallState.ENDED && currentState !== CallState.USER_TALKING) {
-          updateCallState(CallState.LISTENING);
-          startSilenceTimer();
-        }
-        
-        // 状態遷移完了後にフラグ解除と音声送信再開（少しバッファを持たせる）
-        setTimeout(() => {
-          isTurnCompletingRef.current = false;
-          geminiServiceRef.current?.resumeAudioSending();
-        }, 1000); // 1秒間は残響による誤検知を完全にブロック
-        
-      }, 200);
-    });
-
-    service.on('interrupted', () => {
-      console.log('CallSession: AI interrupted');
-    });
-
-    // 接続開始
-    console.log('CallSession: Starting WebSocket connection...');
+    applySessionSettings(userSettings);
+    const persona = await PersonaService.get(personaIdRef.current);
     
     let instructionToUse = systemInstructionRef.current;
     
@@ -322,16 +172,21 @@ export const useCallSession = (config: CallSessionConfig = {}): UseCallSessionRe
     if (!instructionToUse) {
       console.log('CallSession: Generating personalized system instruction...');
       try {
-        instructionToUse = await generateSystemInstruction();
+        instructionToUse = await generateSystemInstruction(persona);
         console.log('CallSession: Instruction generated, length:', instructionToUse?.length);
       } catch (e) {
         console.error('CallSession: Failed to generate instruction', e);
       }
     }
     
-    service.connect(instructionToUse);
-
-  }, [isAudioReady, updateCallState, resetSilenceTimer, startSilenceTimer, onError, onConversationLog]);
+    controller.connect({
+      apiKey: process.env.EXPO_PUBLIC_GEMINI_API_KEY || '',
+      persona,
+      systemInstruction: instructionToUse,
+      // 会話音声の保存（設定で有効な場合）
+      createRecorder: () => SessionAudioRecorder.start(userSettings.audioRecording),
+    });
+  }, [isAudioReady, controller, applySessionSettings]);
 
   // isAudioReadyがtrueになったらpendingConnectを実行
   useEffect(() => {
@@ -348,70 +203,77 @@ export const useCallSession = (config: CallSessionConfig = {}): UseCallSessionRe
 
   // 切断
   const disconnect = useCallback(() => {
-    console.log('CallSession: Disconnecting...');
     setPendingConnect(false);
-    resetSilenceTimer();
-    audioPlayerRef.current?.stopRecording();
-    audioPlayerRef.current?.stopPlaying();
-    geminiServiceRef.current?.disconnect();
-    geminiServiceRef.current = null;
-    updateCallState(CallState.ENDED);
-  }, [resetSilenceTimer, updateCallState]);
+    controller.disconnect();
+  }, [controller]);
+
+  // 押して話す（ボタンを押した・離した）
+  const startTalking = useCallback(() => controller.startTalking(), [controller]);
+  const stopTalking = useCallback(() => controller.stopTalking(), [controller]);
+
+  const liveTranscript = useMemo(
+    () => groupLiveTranscript(conversationLogs, corrections),
+    [conversationLogs, corrections]
+  );
+
+  // 字幕からの訂正
+  const correctUserTurn = useCallback((timestamp: number, text: string): boolean => {
+    if (!controller.correctUserTurn(timestamp, text)) return false;
+    setCorrections(prev => ({ ...prev, [timestamp]: text.trim() }));
+    return true;
+  }, [controller]);
+
+  // 会話終了（日記は見直しの後で generateJournal で生成する）
+  const endCall = useCallback((): FinishedCall => {
+    setPendingConnect(false);
+    return controller.endCall();
+  }, [controller]);
+
+  // 日記生成
+  const generateJournal = useCallback(async (call: FinishedCall, transcript: ConversationLog[]): Promise<ConversationResult | null> => {
+    // 発言を削除・訂正した場合、録音には元の発言が残っているので保存しない
+    const altered = isTranscriptAltered(call.transcript, transcript);
+    if (altered && call.audio) {
+      console.log('CallSession: Turns removed or edited, discarding recording');
+      SessionAudio.delete(call.audio.fileName);
+    }
+    const audio = altered ? undefined : call.audio;
 
-  // 会話終了・日記生成
-  const endConversation = useCallback(async (): Promise<{title: string; summary: string; emotion: string} | null> => {
-    console.log('CallSession: Ending conversation...');
-    
-    // 録音停止
-    audioPlayerRef.current?.stopRecording();
-    
-    // 会話ログを取得（WebSocket切断前に）
-    const conversationHistory = geminiServiceRef.current?.getConversationHistory() || '';
-    console.log('CallSession: Conversation history length:', conversationHistory.length);
-    console.log('CallSession: Conversation history preview:', conversationHistory.substring(0, 200));
-    
-    // WebSocket切断
-    disconnect();
-    
-    // 会話が十分にある場合のみREST APIで日記生成
-    if (conversationHistory.length < 30) {
-      console.log('CallSession: Not enough conversation to generate journal');
+    // 会話が十分にある場合のみ日記生成（失敗時は「作成待ち」として返る）
+    console.log('CallSession: Generating journal...');
+    let result: ConversationResult | null;
+    try {
+      result = await generateConversationResult(transcript);
+    } catch (e) {
+      // 日記にできなかった会話の録音は残さない（会話ログは一時保存から復元できる）
+      if (audio) SessionAudio.delete(audio.fileName);
+      throw e;
+    }
+
+    // 日記にならない会話の録音は残さない
+    if (!result) {
+      if (audio) SessionAudio.delete(audio.fileName);
       return null;
     }
-    
-    try {
-      console.log('CallSession: Generating journal via REST API...');
-      const restService = getGeminiRestService();
-      const journal = await restService.generateJournal(conversationHistory);
-      console.log('CallSession: Journal generated:', journal);
-      
-      // 正常に日記生成（またはフォールバック）できたので、一時保存ログを消す
-      RecoveryService.clear();
-      
-      return journal;
-    } catch (error) {
-      console.error('CallSession: Failed to generate journal via REST API', error);
-      // エラー時はフォールバックとして会話ログをそのまま保存する
-      const fallbackJournal = {
-        title: '日記生成エラー (自動保存)',
-        summary: '【AIによる生成に失敗しました。会話ログを保存します】\n\n' + conversationHistory,
-        emotion: 'neutral' as const
-      };
-      
-      // フォールバックでも一応保存できているのでクリアする（次回起動時に復元と競合しないように）
-      RecoveryService.clear();
-      
-      return fallbackJournal;
+    if (audio) {
+      result.audio = audio;
     }
-  }, [disconnect]);
+    result.duration = call.duration;
+    result.talkTime = call.talkTime;
+    
+    // 日記（または作成待ち）として会話ログごと保存されるので、一時保存ログを消す
+    // （次回起動時に復元と競合しないように）
+    RecoveryService.clear();
+    
+    return result;
+  }, []);
 
-  // クリーンアップ
-  useEffect(() => {
-    return () => {
-      resetSilenceTimer();
-      geminiServiceRef.current?.disconnect();
-    };
-  }, [resetSilenceTimer]);
+  // 日記にしない（見直しで残したくない内容があった場合など、復元用の一時保存ログも残さない）
+  const discardCall = useCallback((call: FinishedCall) => {
+    console.log('CallSession: Discarding call');
+    if (call.audio) SessionAudio.delete(call.audio.fileName);
+    RecoveryService.clear();
+  }, []);
 
   return {
     // State
@@ -421,12 +283,20 @@ export const useCallSession = (config: CallSessionConfig = {}): UseCallSessionRe
     isAiTalking: callState === CallState.AI_TALKING,
     errorMessage,
     conversationLogs,
+    liveTranscript,
+    correctUserTurn,
     // Actions
     connect,
     disconnect,
-    endConversation,
+    endCall,
+    generateJournal,
+    discardCall,
     // Mute
     isMuted: audioPlayer.isMuted,
     toggleMute: audioPlayer.toggleMute,
+    // Push-to-talk
+    inputMode,
+    startTalking,
+    stopTalking,
   };
 };
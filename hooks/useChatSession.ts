@@ -0,0 +1,113 @@
+// hooks/useChatSession.ts
+// テキストチャットでの会話セッションを管理するフック
+// 音声（useCallSession）と同じ聞き役の指示・会話ログ・日記生成を使う
+
+import { useCallback, useRef, useState } from 'react';
+import { generateConversationResult, getJournalGenerator } from '../services/journal-generator';
+import { PersonaService } from '../services/persona';
+import { RecoveryService } from '../services/recovery';
+import { ConversationLog, ConversationResult } from '../types/callSession';
+import { generateSystemInstruction } from '../utils/ai-prompt';
+import { cleanTranscript } from '../utils/transcript';
+
+// 音声向けの指示をテキストチャット用に補う
+const CHAT_INSTRUCTION_SUFFIX = `
+
+【テキストチャットでの注意】
+・これは音声ではなくテキストチャットです。
+・「えー」「あー」「うーん」などの相づちの言葉は使わないでください。
+・絵文字や記号での装飾は控えめにしてください。`;
+
+interface UseChatSessionReturn {
+  /** 会話ログ（古い順） */
+  logs: ConversationLog[];
+  /** AIが返信を作成中 */
+  isResponding: boolean;
+  /** セッション準備中（システム指示の生成中） */
+  isStarting: boolean;
+  errorMessage: string | null;
+  start: () => Promise<void>;
+  sendMessage: (text: string) => Promise<void>;
+  endConversation: () => Promise<ConversationResult | null>;
+}
+
+/**
+ * @param personaId 会話相手のペルソナ（省略時は設定で選択したもの）
+ */
+export const useChatSession = (personaId?: string): UseChatSessionReturn => {
+  const [logs, setLogs] = useState<ConversationLog[]>([]);
+  const [isResponding, setIsResponding] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 非同期処理中でも最新の値を参照できるようRefで保持
+  const logsRef = useRef<ConversationLog[]>([]);
+  const systemInstructionRef = useRef<string>('');
+
+  const appendLog = useCallback((log: ConversationLog) => {
+    logsRef.current = [...logsRef.current, log];
+    setLogs(logsRef.current);
+    RecoveryService.appendLog(log);
+  }, []);
+
+  // セッション開始（システム指示を生成し、ペルソナの挨拶を表示）
+  const start = useCallback(async () => {
+    setIsStarting(true);
+    setErrorMessage(null);
+    logsRef.current = [];
+    setLogs([]);
+
+    const persona = await PersonaService.get(personaId);
+    try {
+      systemInstructionRef.current = (await generateSystemInstruction(persona)) + CHAT_INSTRUCTION_SUFFIX;
+    } catch (e) {
+      console.error('ChatSession: Failed to generate instruction', e);
+      systemInstructionRef.current = CHAT_INSTRUCTION_SUFFIX.trim();
+    }
+
+    appendLog({ timestamp: Date.now(), speaker: 'ai', text: persona.greeting });
+    setIsStarting(false);
+  }, [appendLog, personaId]);
+
+  // ユーザーの発言を送信し、AIの返信を受け取る
+  const sendMessage = useCallback(async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isResponding) return;
+
+    appendLog({ timestamp: Date.now(), speaker: 'user', text: trimmed });
+    setIsResponding(true);
+    setErrorMessage(null);
+
+    try {
+      const generator = await getJournalGenerator();
+      const reply = await generator.reply(systemInstructionRef.current, logsRef.current);
+      appendLog({ timestamp: Date.now(), speaker: 'ai', text: reply });
+    } catch (e) {
+      console.error('ChatSession: Failed to get reply', e);
+      setErrorMessage('返信を受け取れませんでした。もう一度送信するか、このまま会話を終了できます');
+    } finally {
+      setIsResponding(false);
+    }
+  }, [appendLog, isResponding]);
+
+  // 会話終了・日記生成
+  const endConversation = useCallback(async (): Promise<ConversationResult | null> => {
+    console.log('ChatSession: Ending conversation...');
+    const transcript = cleanTranscript(logsRef.current);
+    const result = await generateConversationResult(transcript);
+    if (result) {
+      RecoveryService.clear();
+    }
+    return result;
+  }, []);
+
+  return {
+    logs,
+    isResponding,
+    isStarting,
+    errorMessage,
+    start,
+    sendMessage,
+    endConversation,
+  };
+};
@@ -0,0 +1,125 @@
+// hooks/useRecordingPlayer.ts
+// 日記に保存された会話の録音を再生するフック
+// 会話ログの時刻から再生位置を求めて、その発話から再生できる
+
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SessionAudio } from '../services/session-audio';
+import type { EntryAudio } from '../services/storage';
+
+// 発話の開始時刻は文字起こしが届いた時刻なので、少し前から再生する
+const SEEK_LEAD_IN_MS = 1000;
+
+export const useRecordingPlayer = (audio: EntryAudio | undefined, enabled: boolean) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isMissing, setIsMissing] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [durationMs, setDurationMs] = useState(0);
+
+  useEffect(() => {
+    setIsMissing(false);
+    setDurationMs(audio?.durationMs ?? 0);
+    if (!enabled || !audio) return;
+
+    const uri = SessionAudio.getUri(audio.fileName);
+    if (!uri) {
+      // 録音ファイルが削除された・別の端末からインポートした日記など
+      setIsMissing(true);
+      return;
+    }
+
+    let cancelled = false;
+    const onStatus = (status: AVPlaybackStatus) => {
+      if (!status.isLoaded) return;
+      setIsPlaying(status.isPlaying);
+      setPositionMs(status.positionMillis);
+      if (status.durationMillis) setDurationMs(status.durationMillis);
+    };
+
+    (async () => {
+      try {
+        // マナーモードでも再生する
+        await Audio.setAudioModeAsync({ playsInSilentModeIOS: true, allowsRecordingIOS: false });
+        const { sound } = await Audio.Sound.createAsync({ uri }, { progressUpdateIntervalMillis: 250 }, onStatus);
+        if (cancelled) {
+          sound.unloadAsync();
+          return;
+        }
+        soundRef.current = sound;
+        setIsLoaded(true);
+      } catch (e) {
+        console.error('RecordingPlayer: Failed to load recording', e);
+        if (!cancelled) setIsMissing(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      soundRef.current?.unloadAsync();
+      soundRef.current = null;
+      setIsLoaded(false);
+      setIsPlaying(false);
+      setPositionMs(0);
+    };
+  }, [enabled, audio]);
+
+  const togglePlay = useCallback(async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+    try {
+      if (isPlaying) {
+        await sound.pauseAsync();
+        return;
+      }
+      // 最後まで再生済みなら最初から
+      if (durationMs > 0 && positionMs >= durationMs - 100) {
+        await sound.setPositionAsync(0);
+      }
+      await sound.playAsync();
+    } catch (e) {
+      console.error('RecordingPlayer: Failed to toggle playback', e);
+    }
+  }, [isPlaying, positionMs, durationMs]);
+
+  const seekTo = useCallback(async (ms: number) => {
+    const sound = soundRef.current;
+    if (!sound) return;
+    try {
+      await sound.setPositionAsync(Math.max(0, Math.min(ms, durationMs)));
+      await sound.playAsync();
+    } catch (e) {
+      console.error('RecordingPlayer: Failed to seek', e);
+    }
+  }, [durationMs]);
+
+  /**
+   * 会話ログの時刻が録音の範囲内か（チャットでの発言や録音前後のログは除く）
+   */
+  const canSeekToLog = useCallback((timestamp: number) => {
+    if (!audio || !isLoaded) return false;
+    const offset = timestamp - audio.startedAt;
+    return offset >= 0 && offset <= audio.durationMs;
+  }, [audio, isLoaded]);
+
+  /**
+   * 会話ログの発話から再生する
+   */
+  const seekToLog = useCallback((timestamp: number) => {
+    if (!audio) return;
+    seekTo(timestamp - audio.startedAt - SEEK_LEAD_IN_MS);
+  }, [audio, seekTo]);
+
+  return {
+    isLoaded,
+    isMissing,
+    isPlaying,
+    positionMs,
+    durationMs,
+    togglePlay,
+    seekTo,
+    canSeekToLog,
+    seekToLog,
+  };
+};
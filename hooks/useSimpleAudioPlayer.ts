@@ -4,6 +4,17 @@
 
 import { AudioDataEvent, ExpoPlayAudioStream, RecordingConfig } from '@mykin-ai/expo-audio-stream';
 import { useCallback, useRef, useState } from 'react';
+import {
+  computeFrameFeatures,
+  createVadState,
+  decodePcm16,
+  DEFAULT_VAD_CONFIG,
+  isInEchoTail,
+  processVadFrame,
+  VadConfig,
+  VadFrameFeatures,
+  VadState,
+} from '../utils/vad';
 
 interface UseSimpleAudioPlayerOptions {
   onAudioData: (base64Audio: string) => void;
@@ -13,10 +24,9 @@ interface UseSimpleAudioPlayerOptions {
   onSpeechEnd?: () => void;     // ユーザー発話終了
   onSilence?: () => void;       // 無音検出（タイムアウト用）
   // 設定
-  speechThreshold?: number;     // 発話検出の音量閾値（0-1、デフォルト0.02）
-  silenceThreshold?: number;    // 無音とみなす音量閾値（0-1、デフォルト0.01）
   speechDebounceMs?: number;    // 発話開始のデバウンス時間（ms）
   silenceDebounceMs?: number;   // 発話終了のデバウンス時間（ms）
+  vadConfig?: Partial<VadConfig>; // VADの詳細設定（省略時は DEFAULT_VAD_CONFIG）
 }
 
 export const useSimpleAudioPlayer = (options: UseSimpleAudioPlayerOptions) => {
@@ -26,10 +36,9 @@ export const useSimpleAudioPlayer = (options: UseSimpleAudioPlayerOptions) => {
     onSpeechStart,
     onSpeechEnd,
     onSilence,
-    speechThreshold = 0.02,
-    silenceThreshold = 0.01,
-    speechDebounceMs = 100,
-    silenceDebounceMs = 300,
+    speechDebounceMs = DEFAULT_VAD_CONFIG.speechDebounceMs,
+    silenceDebounceMs = DEFAULT_VAD_CONFIG.silenceDebounceMs,
+    vadConfig,
   } = options;
   
   const [isRecording, setIsRecording] = useState(false);
@@ -53,37 +62,8 @@ export const useSimpleAudioPlayer = (options: UseSimpleAudioPlayerOptions) => {
   const isStoppingRef = useRef<boolean>(false);
 
   
-  // VAD用タイマー
-  const speechStartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const speechEndTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const wasSpeakingRef = useRef<boolean>(false);
-  
-  // 音量計算ヘルパー（Base64 PCM 16bit -> RMS音量）
-  const calculateAudioLevel = useCallback((base64Data: string): number => {
-    try {
-      // Base64デコード
-      const binaryStr = atob(base64Data);
-      const bytes = new Uint8Array(binaryStr.length);
-      for (let i = 0; i < binaryStr.length; i++) {
-        bytes[i] = binaryStr.charCodeAt(i);
-      }
-      
-      // 16bit PCMとしてパース
-      const samples = new Int16Array(bytes.buffer);
-      if (samples.length === 0) return 0;
-      
-      // RMS（Root Mean Square）計算
-      let sumSquares = 0;
-      for (let i = 0; i < samples.length; i++) {
-        const normalized = samples[i] / 32768;  // -1.0 to 1.0
-        sumSquares += normalized * normalized;
-      }
-      
-      return Math.sqrt(sumSquares / samples.length);
-    } catch (e) {
-      return 0;
-    }
-  }, []);
+  // VADの状態（録音開始ごとにノイズフロアを測り直す）
+  const vadStateRef = useRef<VadState>(createVadState());
 
   // VAD処理
   const processVAD = useCallback((base64Audio: string) => {
@@ -92,48 +72,29 @@ export const useSimpleAudioPlayer = (options: UseSimpleAudioPlayerOptions) => {
       return;
     }
 
-    // 再生終了直後もVADをスキップ（残響・テイルエコー・レイテンシー対策）
-    // 800ms -> 1500ms に延長してテイルエコーを確実に回避
-    if (Date.now() - lastPlaybackTimeRef.current < 1500) {
+    let features: VadFrameFeatures;
+    try {
+      features = computeFrameFeatures(decodePcm16(base64Audio), sampleRate);
+    } catch (e) {
       return;
     }
-    
-    const level = calculateAudioLevel(base64Audio);
-    const isSpeakingNow = level > speechThreshold;
-    const isSilentNow = level < silenceThreshold;
-    
-    if (isSpeakingNow && !wasSpeakingRef.current) {
-      // 発話開始検出（デバウンス）
-      if (speechEndTimerRef.current) {
-        clearTimeout(speechEndTimerRef.current);
-        speechEndTimerRef.current = null;
-      }
-      
-      if (!speechStartTimerRef.current) {
-        speechStartTimerRef.current = setTimeout(() => {
-          wasSpeakingRef.current = true;
-          setIsSpeaking(true);
-          onSpeechStart?.();
-          speechStartTimerRef.current = null;
-        }, speechDebounceMs);
-      }
-    } else if (isSilentNow && wasSpeakingRef.current) {
-      // 発話終了検出（デバウンス）
-      if (speechStartTimerRef.current) {
-        clearTimeout(speechStartTimerRef.current);
-        speechStartTimerRef.current = null;
-      }
-      
-      if (!speechEndTimerRef.current) {
-        speechEndTimerRef.current = setTimeout(() => {
-          wasSpeakingRef.current = false;
-          setIsSpeaking(false);
-          onSpeechEnd?.();
-          speechEndTimerRef.current = null;
-        }, silenceDebounceMs);
-      }
+    const config: VadConfig = { ...DEFAULT_VAD_CONFIG, ...vadConfig, speechDebounceMs, silenceDebounceMs };
+
+    // 再生終了直後の残響・テイルエコーは、音量が下がるまでスキップ
+    if (isInEchoTail(Date.now() - lastPlaybackTimeRef.current, features, vadStateRef.current, config)) {
+      return;
+    }
+
+    const { state, event } = processVadFrame(vadStateRef.current, features, config);
+    vadStateRef.current = state;
+    if (event === 'speechStart') {
+      setIsSpeaking(true);
+      onSpeechStart?.();
+    } else if (event === 'speechEnd') {
+      setIsSpeaking(false);
+      onSpeechEnd?.();
     }
-  }, [calculateAudioLevel, speechThreshold, silenceThreshold, speechDebounceMs, silenceDebounceMs, onSpeechStart, onSpeechEnd]);
+  }, [sampleRate, vadConfig, speechDebounceMs, silenceDebounceMs, onSpeechStart, onSpeechEnd]);
 
   // AI音声再生（シンプルな即時再生）
   const playAudio = useCallback(async (base64Audio: string) => {
@@ -261,6 +222,8 @@ export const useSimpleAudioPlayer = (options: UseSimpleAudioPlayerOptions) => {
     try {
       // 新しいターンIDを生成（新しい会話ターン開始）
       turnIdRef.current = `turn-${Date.now()}`;
+      // 周囲の雑音を測り直す
+      vadStateRef.current = createVadState();
       
       const recordingConfig: RecordingConfig = {
         sampleRate: sampleRate as 16000 | 44100 | 48000,
@@ -298,16 +261,8 @@ export const useSimpleAudioPlayer = (options: UseSimpleAudioPlayerOptions) => {
   // 録音停止
   const stopRecording = useCallback(async () => {
     try {
-      // VADタイマーをクリア
-      if (speechStartTimerRef.current) {
-        clearTimeout(speechStartTimerRef.current);
-        speechStartTimerRef.current = null;
-      }
-      if (speechEndTimerRef.current) {
-        clearTimeout(speechEndTimerRef.current);
-        speechEndTimerRef.current = null;
-      }
-      wasSpeakingRef.current = false;
+      // VADの状態をクリア
+      vadStateRef.current = createVadState();
       setIsSpeaking(false);
       
       if (subscriptionRef.current) {
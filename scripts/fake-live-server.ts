@@ -0,0 +1,298 @@
+// scripts/fake-live-server.ts
+// Gemini Live API（BidiGenerateContent）の疑似サーバー
+// APIキーなしで GeminiLiveService / CallSessionController（services/call-session）の状態遷移を Node 上で動かすためのもの
+//
+// 使い方:
+//   npx sucrase-node scripts/fake-live-server.ts          # 待ち受けのみ（簡単な自動応答つき）
+//   npx sucrase-node scripts/fake-live-server.ts --demo   # GeminiLiveService を接続して1往復を確認
+//
+// テスト（npm test）からは FakeLiveServer を起動し、server.transport を
+// GeminiLiveService の transport / CallSessionController の transport に渡す
+// （services/__tests__/call-session.test.ts。アプリでは useCallSession の liveTransport で差し替えられる）
+
+import { EventEmitter } from 'eventemitter3';
+import { WebSocket, WebSocketServer } from 'ws';
+import { GeminiLiveService } from '../services/gemini-live';
+import type { LiveTransportFactory } from '../services/live-transport';
+
+// 24kHz 16bit PCM の無音（約10ms分）
+const SILENT_PCM_BASE64 = Buffer.alloc(480).toString('base64');
+
+/**
+ * サーバーから送るメッセージ（実際の Live API と同じ形）
+ */
+export const FakeLiveMessages = {
+  setupComplete: () => ({ setupComplete: {} }),
+  audio: (data: string = SILENT_PCM_BASE64) => ({
+    serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data } }] } },
+  }),
+  inputTranscription: (text: string) => ({ serverContent: { inputTranscription: { text } } }),
+  outputTranscription: (text: string) => ({ serverContent: { outputTranscription: { text } } }),
+  interrupted: () => ({ serverContent: { interrupted: true } }),
+  turnComplete: () => ({ serverContent: { turnComplete: true } }),
+  sessionResumptionUpdate: (newHandle: string) => ({ sessionResumptionUpdate: { newHandle, resumable: true } }),
+  goAway: (timeLeft: string = '5s') => ({ goAway: { timeLeft } }),
+};
+
+/** 台本の1手順：メッセージを送る、または待つ */
+export type FakeLiveStep = object | { delayMs: number };
+
+/** 1ターン分の台本（ユーザー発話の認識結果 → AIの音声と文字起こし → ターン完了） */
+export const buildTurn = ({ userText, aiText, audioChunks = 3 }: {
+  userText?: string;
+  aiText: string;
+  audioChunks?: number;
+}): FakeLiveStep[] => [
+  ...(userText ? [FakeLiveMessages.inputTranscription(userText)] : []),
+  ...Array.from({ length: audioChunks }, () => FakeLiveMessages.audio()),
+  FakeLiveMessages.outputTranscription(aiText),
+  FakeLiveMessages.turnComplete(),
+];
+
+/**
+ * ws パッケージによる通信路（Node 用）
+ * Live API と同じくメッセージは Buffer で届く
+ */
+export const createNodeTransport: LiveTransportFactory = (url, handlers) => {
+  const ws = new WebSocket(url);
+
+  ws.on('open', () => handlers.onOpen());
+  ws.on('message', (data) => handlers.onMessage(data));
+  ws.on('error', (error) => handlers.onError(error));
+  ws.on('close', (code, reason) => handlers.onClose(code, reason.toString()));
+
+  return {
+    get isOpen() {
+      return ws.readyState === WebSocket.OPEN;
+    },
+    send: (data) => ws.send(data),
+    close: () => ws.close(),
+  };
+};
+
+interface FakeLiveServerEvents {
+  connection: () => void;
+  setup: (setup: any) => void;
+  clientMessage: (message: any) => void;
+}
+
+interface FakeLiveServerOptions {
+  /** 省略時は空いているポート */
+  port?: number;
+  /** setup を受け取ったら自動で setupComplete を返す（デフォルト: true） */
+  autoSetupComplete?: boolean;
+  /** setupComplete を返す前に送る再開ハンドル */
+  resumptionHandle?: string;
+}
+
+export class FakeLiveServer extends EventEmitter<FakeLiveServerEvents> {
+  private server: WebSocketServer | null = null;
+  private socket: WebSocket | null = null;
+  private options: FakeLiveServerOptions;
+
+  /** 受信したクライアントメッセージ（setup・realtimeInput・clientContent） */
+  readonly received: any[] = [];
+  /** 接続回数（再接続の確認用） */
+  connectionCount: number = 0;
+  url: string = '';
+
+  constructor(options: FakeLiveServerOptions = {}) {
+    super();
+    this.options = { autoSetupComplete: true, ...options };
+  }
+
+  /**
+   * 待ち受けを開始し、接続先URLを返す
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({ port: this.options.port ?? 0 }, () => {
+        const address = server.address();
+        const port = typeof address === 'object' && address ? address.port : this.options.port;
+        this.url = `ws://127.0.0.1:${port}`;
+        resolve(this.url);
+      });
+      server.on('error', reject);
+      server.on('connection', (socket) => this.handleConnection(socket));
+      this.server = server;
+    });
+  }
+
+  /**
+   * 受け取ったURLを無視してこのサーバーに接続する通信路
+   * （useCallSession のように接続先URLを指定できない場合に使う）
+   */
+  get transport(): LiveTransportFactory {
+    return (url, handlers) => {
+      const query = url.includes('?') ? url.slice(url.indexOf('?')) : '';
+      return createNodeTransport(this.url + query, handlers);
+    };
+  }
+
+  private handleConnection(socket: WebSocket) {
+    // 新しい接続が来たら古い接続は使わない（再接続）
+    this.socket = socket;
+    this.connectionCount++;
+    this.emit('connection');
+
+    socket.on('message', (data) => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (e) {
+        console.error('FakeLiveServer: Failed to parse client message', e);
+        return;
+      }
+      this.received.push(message);
+
+      if (message.setup) {
+        this.emit('setup', message.setup);
+        if (this.options.autoSetupComplete) {
+          if (this.options.resumptionHandle) {
+            this.send(FakeLiveMessages.sessionResumptionUpdate(this.options.resumptionHandle));
+          }
+          this.send(FakeLiveMessages.setupComplete());
+        }
+        return;
+      }
+      this.emit('clientMessage', message);
+    });
+  }
+
+  /**
+   * 現在の接続にメッセージを送る（Live API と同じくバイナリで送る）
+   */
+  send(message: object) {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('FakeLiveServer: No client connected');
+    }
+    this.socket.send(Buffer.from(JSON.stringify(message)));
+  }
+
+  /**
+   * 台本どおりに順番に送る
+   */
+  async play(steps: FakeLiveStep[]): Promise<void> {
+    for (const step of steps) {
+      if ('delayMs' in step) {
+        await new Promise(resolve => setTimeout(resolve, step.delayMs));
+      } else {
+        this.send(step);
+      }
+    }
+  }
+
+  /**
+   * 条件を満たすクライアントメッセージが届くまで待つ（既に届いていれば即座に返す）
+   */
+  waitForMessage(predicate: (message: any) => boolean, timeoutMs: number = 5000): Promise<any> {
+    const found = this.received.find(predicate);
+    if (found) return Promise.resolve(found);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off('setup', onSetup);
+        this.off('clientMessage', onMessage);
+        reject(new Error('FakeLiveServer: Timed out waiting for message'));
+      }, timeoutMs);
+      const onMessage = (message: any) => {
+        if (!predicate(message)) return;
+        clearTimeout(timer);
+        this.off('setup', onSetup);
+        this.off('clientMessage', onMessage);
+        resolve(message);
+      };
+      const onSetup = (setup: any) => onMessage({ setup });
+      this.on('setup', onSetup);
+      this.on('clientMessage', onMessage);
+    });
+  }
+
+  /**
+   * 通信断を再現する（クライアントからは予期しない切断に見える）
+   */
+  dropConnection() {
+    this.socket?.terminate();
+    this.socket = null;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server?.clients.forEach(client => client.terminate());
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+      this.socket = null;
+    });
+  }
+}
+
+// 待ち受けのみ：テキスト・音声を受け取るたびに定型の返事をする
+const runServer = async () => {
+  const server = new FakeLiveServer({ port: Number(process.env.FAKE_LIVE_PORT) || 8765 });
+  const url = await server.start();
+  console.log(`FakeLiveServer: Listening on ${url}`);
+
+  let audioChunks = 0;
+  let manualActivity = false;
+  server.on('setup', (setup) => {
+    manualActivity = setup.realtimeInputConfig?.automaticActivityDetection?.disabled === true;
+  });
+  server.on('clientMessage', (message) => {
+    if (message.clientContent) {
+      server.play(buildTurn({ aiText: 'なるほど、そうだったんですね。お仕事ですか？それともプライベートですか？' }));
+    } else if (message.realtimeInput?.activityEnd) {
+      // 押して話す（automaticActivityDetection 無効）では、発話終了の合図で返事をする
+      audioChunks = 0;
+      server.play(buildTurn({ userText: '今日は仕事が忙しかったです', aiText: 'それは大変でしたね。何が一番きつかったですか？' }));
+    } else if (message.realtimeInput?.mediaChunks && !manualActivity && ++audioChunks % 50 === 0) {
+      server.play(buildTurn({ userText: '今日は仕事が忙しかったです', aiText: 'それは大変でしたね。何が一番きつかったですか？' }));
+    }
+  });
+};
+
+// 接続確認：GeminiLiveService を接続し、1往復と割り込みを流して終了する
+const runDemo = async () => {
+  const server = new FakeLiveServer();
+  const url = await server.start();
+  const service = new GeminiLiveService({ apiKey: 'fake', url, transport: createNodeTransport });
+
+  service.on('connected', () => console.log('[event] connected'));
+  service.on('audio', () => console.log('[event] audio'));
+  service.on('inputTranscript', (text) => console.log('[event] inputTranscript:', text));
+  service.on('interrupted', () => console.log('[event] interrupted'));
+  service.on('turnComplete', () => console.log('[event] turnComplete'));
+  service.on('error', (error) => console.error('[event] error', error));
+
+  const connected = new Promise<void>(resolve => service.once('connected', () => resolve()));
+  service.connect('テスト用のシステム指示');
+  await connected;
+
+  await server.play([
+    ...buildTurn({ userText: '今日は散歩しました', aiText: 'いいですね！どこまで歩きましたか？' }),
+    // AIの発話中にユーザーが割り込む
+    FakeLiveMessages.audio(),
+    FakeLiveMessages.outputTranscription('公園ですか？それとも'),
+    FakeLiveMessages.interrupted(),
+    ...buildTurn({ userText: '川沿いです', aiText: '川沿い、気持ちよさそうですね。' }),
+    { delayMs: 50 },
+  ]);
+
+  service.flushPendingTurns();
+  console.log('Conversation logs:', service.getConversationLogs());
+
+  const disconnected = new Promise<void>(resolve => service.once('disconnected', () => resolve()));
+  service.disconnect();
+  await disconnected;
+  await server.stop();
+};
+
+if (require.main === module) {
+  (process.argv.includes('--demo') ? runDemo() : runServer()).catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
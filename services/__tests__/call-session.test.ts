@@ -0,0 +1,247 @@
+// 通話セッションの状態マシンを疑似サーバー相手に動かす
+// 接続 → 最初の問いかけ → ユーザーの発話 → AIの応答 → ターン完了、割り込み、押して話す、振り返りの促し、通信断からの再接続
+
+import { buildTurn, FakeLiveMessages, FakeLiveServer } from '../../scripts/fake-live-server';
+import { CallState, ConversationLog, InputMode } from '../../types/callSession';
+import { CallAudio, CallSessionController } from '../call-session';
+import * as pacing from '../pacing';
+
+const PERSONA = {
+  id: 'test',
+  voice: 'Aoede',
+  greeting: '（テスト用の最初の問いかけ）',
+  lightSilencePrompts: ['（軽い合いの手）'],
+  deepSilencePrompts: ['（問いかけ）'],
+};
+
+const createAudio = (): jest.Mocked<CallAudio> => ({
+  startRecording: jest.fn(),
+  stopRecording: jest.fn(),
+  playAudio: jest.fn(),
+  stopPlaying: jest.fn(),
+  interruptAI: jest.fn().mockResolvedValue(undefined),
+  onTurnComplete: jest.fn(),
+});
+
+/** 指定の状態になるまで待つ（既にその状態なら即座に返す） */
+const waitForState = (controller: CallSessionController, state: CallState, timeoutMs = 3000): Promise<void> => {
+  if (controller.state === state) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.off('stateChange', onChange);
+      reject(new Error(`Timed out waiting for ${state} (current: ${controller.state})`));
+    }, timeoutMs);
+    const onChange = (newState: CallState) => {
+      if (newState !== state) return;
+      clearTimeout(timer);
+      controller.off('stateChange', onChange);
+      resolve();
+    };
+    controller.on('stateChange', onChange);
+  });
+};
+
+describe('CallSessionController', () => {
+  let server: FakeLiveServer;
+  let audio: jest.Mocked<CallAudio>;
+  let controller: CallSessionController;
+  let states: CallState[];
+  let fragments: ConversationLog[];
+
+  const start = async (inputMode: InputMode = 'auto', targetSessionMinutes = 0) => {
+    controller.applySettings({
+      pacing: pacing.getPacingProfile('normal'),
+      silencePromptsEnabled: false,
+      targetSessionMinutes,
+      inputMode,
+    });
+    expect(controller.beginConnect()).toBe(true);
+    controller.connect({ apiKey: '', persona: PERSONA });
+    await waitForState(controller, CallState.LISTENING);
+    // 最初の問いかけが送られるのを待つ
+    await server.waitForMessage(message => message.clientContent?.turns?.[0]?.parts?.[0]?.text === PERSONA.greeting);
+    await waitForState(controller, CallState.AI_THINKING);
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    server = new FakeLiveServer();
+    await server.start();
+    audio = createAudio();
+    controller = new CallSessionController({
+      audio,
+      transport: server.transport,
+      timing: { greetingDelayMs: 10, turnSettleMs: 10, echoGuardMs: 10 },
+    });
+    states = [];
+    fragments = [];
+    controller.on('stateChange', state => states.push(state));
+    controller.on('transcript', log => fragments.push(log));
+  });
+
+  afterEach(async () => {
+    controller.disconnect();
+    await server.stop();
+    // クライアント側で切断が届くのを待つ
+    await new Promise(resolve => setTimeout(resolve, 20));
+  });
+
+  it('connects, starts recording and sends the greeting', async () => {
+    await start();
+
+    expect(states.slice(0, 3)).toEqual([CallState.CONNECTING, CallState.LISTENING, CallState.AI_THINKING]);
+    expect(audio.startRecording).toHaveBeenCalledTimes(1);
+    expect(server.received[0].setup).toBeDefined();
+    expect(server.received[0].setup.realtimeInputConfig).toBeUndefined();
+  });
+
+  it('goes through a user turn and returns to LISTENING on turnComplete', async () => {
+    await start();
+    await server.play(buildTurn({ aiText: 'こんにちは。今日はどんな一日でしたか？' }));
+    await waitForState(controller, CallState.LISTENING);
+
+    controller.handleSpeechStart();
+    expect(controller.state).toBe(CallState.USER_TALKING);
+    controller.handleSpeechEnd();
+    expect(controller.state).toBe(CallState.LISTENING);
+
+    // ターン完了直後の残響対策の間（echoGuardMs）を待ってから返事を送る
+    await server.play([{ delayMs: 30 }, ...buildTurn({ userText: '散歩をしました', aiText: 'いいですね。' })]);
+    await waitForState(controller, CallState.AI_TALKING);
+    await waitForState(controller, CallState.LISTENING);
+
+    expect(audio.playAudio).toHaveBeenCalled();
+    expect(audio.onTurnComplete).toHaveBeenCalledTimes(2);
+    expect(fragments).toContainEqual(expect.objectContaining({ speaker: 'user', text: '散歩をしました' }));
+    expect(fragments).toContainEqual(expect.objectContaining({ speaker: 'ai', text: 'いいですね。' }));
+
+    const call = controller.endCall();
+    expect(controller.state).toBe(CallState.ENDED);
+    expect(call.transcript.map(log => [log.speaker, log.text])).toEqual([
+      ['ai', 'こんにちは。今日はどんな一日でしたか？'],
+      ['user', '散歩をしました'],
+      ['ai', 'いいですね。'],
+    ]);
+    expect(call.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('interrupts the AI when the user starts talking over it', async () => {
+    await start();
+    await server.play([FakeLiveMessages.audio(), FakeLiveMessages.outputTranscription('公園ですか？それとも')]);
+    await waitForState(controller, CallState.AI_TALKING);
+
+    controller.handleSpeechStart();
+    expect(controller.state).toBe(CallState.INTERRUPTED);
+    await waitForState(controller, CallState.USER_TALKING);
+    expect(audio.interruptAI).toHaveBeenCalledTimes(1);
+
+    // 割り込み後に届いた前のターンの残りは再生しない
+    audio.playAudio.mockClear();
+    await server.play([FakeLiveMessages.audio(), FakeLiveMessages.interrupted(), FakeLiveMessages.turnComplete(), { delayMs: 30 }]);
+    expect(audio.playAudio).not.toHaveBeenCalled();
+    // 話している途中はターン完了で LISTENING に戻さない
+    expect(controller.state).toBe(CallState.USER_TALKING);
+  });
+
+  it('uses the talk button instead of voice detection in push-to-talk mode', async () => {
+    await start('hold');
+    expect(server.received[0].setup.realtimeInputConfig).toEqual({ automaticActivityDetection: { disabled: true } });
+    await server.play(buildTurn({ aiText: 'こんにちは。' }));
+    await waitForState(controller, CallState.LISTENING);
+
+    // 発話検出は無視する
+    controller.handleSpeechStart();
+    expect(controller.state).toBe(CallState.LISTENING);
+
+    controller.startTalking();
+    expect(controller.state).toBe(CallState.USER_TALKING);
+    await server.waitForMessage(message => message.realtimeInput?.activityStart);
+
+    controller.stopTalking();
+    expect(controller.state).toBe(CallState.AI_THINKING);
+    await server.waitForMessage(message => message.realtimeInput?.activityEnd);
+  });
+
+  it('reconnects with the resumption handle and returns to LISTENING after a dropped connection', async () => {
+    await start();
+    server.send(FakeLiveMessages.sessionResumptionUpdate('handle-1'));
+    await server.play(buildTurn({ aiText: 'こんにちは。' }));
+    await waitForState(controller, CallState.LISTENING);
+    states = [];
+
+    server.dropConnection();
+    await waitForState(controller, CallState.RECONNECTING);
+    // 最初の再接続は 1 秒後
+    await waitForState(controller, CallState.LISTENING, 5000);
+
+    expect(states).toEqual([CallState.RECONNECTING, CallState.LISTENING]);
+    expect(server.connectionCount).toBe(2);
+    const setups = server.received.filter(message => message.setup);
+    expect(setups[1].setup.sessionResumption).toEqual({ handle: 'handle-1' });
+    // 会話の続きなので、録音の開始や最初の問いかけはやり直さない
+    expect(audio.startRecording).toHaveBeenCalledTimes(1);
+    expect(server.received.filter(message => message.clientContent?.turns?.[0]?.parts?.[0]?.text === PERSONA.greeting)).toHaveLength(1);
+  });
+
+  describe('wrap-up prompt', () => {
+    const isWrapUp = (message: any) => message.clientContent?.turns?.[0]?.parts?.[0]?.text?.includes('そろそろ会話の目安の時間です');
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    let wrapUpDelay: jest.SpyInstance;
+
+    beforeEach(() => {
+      // 目安の時間の1分前の代わりに、通話開始から 50ms で促す
+      wrapUpDelay = jest.spyOn(pacing, 'getWrapUpDelayMs').mockReturnValue(50);
+    });
+
+    afterEach(() => {
+      wrapUpDelay.mockRestore();
+    });
+
+    it('sends it when the user pauses even if they never fall silent', async () => {
+      await start('auto', 5);
+      await server.play(buildTurn({ aiText: 'こんにちは。' }));
+      await waitForState(controller, CallState.LISTENING);
+
+      // 目安の時間をまたいで話し続ける
+      controller.handleSpeechStart();
+      await wait(80);
+      expect(server.received.some(isWrapUp)).toBe(false);
+
+      controller.handleSpeechEnd();
+      expect(controller.state).toBe(CallState.AI_THINKING);
+      await server.waitForMessage(isWrapUp);
+
+      // 1回だけ
+      controller.handleSpeechStart();
+      controller.handleSpeechEnd();
+      await wait(30);
+      expect(server.received.filter(isWrapUp)).toHaveLength(1);
+    });
+
+    it('sends it when the talk button is released in push-to-talk mode', async () => {
+      await start('hold', 5);
+      await server.play(buildTurn({ aiText: 'こんにちは。' }));
+      await waitForState(controller, CallState.LISTENING);
+
+      controller.startTalking();
+      await wait(80);
+      controller.stopTalking();
+
+      await server.waitForMessage(isWrapUp);
+      expect(controller.state).toBe(CallState.AI_THINKING);
+    });
+  });
+
+  it('does not connect when disconnected while preparing', async () => {
+    controller.beginConnect();
+    controller.disconnect();
+    controller.connect({ apiKey: '', persona: PERSONA });
+
+    expect(controller.state).toBe(CallState.ENDED);
+    expect(server.connectionCount).toBe(0);
+  });
+});
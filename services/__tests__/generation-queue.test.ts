@@ -0,0 +1,135 @@
+// 日記生成の待ち行列：処理中に手動で再試行された日記を取りこぼさない
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateJournalWithSettings } from '../journal-generator';
+import { GenerationQueue } from '../generation-queue';
+import { JournalEntry, StorageService } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: async () => ({ isConnected: true, isInternetReachable: true }),
+}));
+jest.mock('react-native', () => ({ AppState: {} }));
+jest.mock('../storage', () => {
+  const entries = new Map<string, unknown>();
+  return {
+    StorageService: {
+      entries,
+      getJournalEntry: async (id: string) => entries.get(id) ?? null,
+      updateJournalEntry: async (entry: { id: string }) => {
+        entries.set(entry.id, entry);
+      },
+      getTranscript: async () => [{ speaker: 'user', text: '散歩をしました', timestamp: 0 }],
+    },
+  };
+});
+jest.mock('../journal-generator', () => ({
+  generateJournalWithSettings: jest.fn(),
+  // このテストでは通信エラーだけを「通信の回復を待てば成功する失敗」とする
+  isTransientError: (error: Error) => error.message === 'Network request failed',
+}));
+jest.mock('../memory', () => ({
+  MemoryService: { rememberEntry: async () => {} },
+}));
+
+const entries = (StorageService as unknown as { entries: Map<string, JournalEntry> }).entries;
+const generate = generateJournalWithSettings as jest.Mock;
+
+/** 生成中（実際には数秒かかる）に行われた再試行の保存を終わらせる */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+const pendingEntry = (id: string): JournalEntry => ({
+  id,
+  date: '2026-10-19',
+  title: '作成待ち',
+  summary: '',
+  emotion: 'calm',
+  createdAt: 0,
+  status: 'pending',
+});
+
+describe('GenerationQueue', () => {
+  beforeAll(() => {
+    // 失敗時の再試行タイマーは進めない
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    entries.clear();
+    generate.mockReset();
+  });
+
+  it('keeps a job that was retried while the run was processing it', async () => {
+    entries.set('a', pendingEntry('a'));
+    await GenerationQueue.saveJobs([{ entryId: 'a', enqueuedAt: 0, attempts: 0 }]);
+
+    let retried: Promise<void> | undefined;
+    generate
+      .mockImplementationOnce(async () => {
+        retried = GenerationQueue.retry('a');
+        await flush();
+        throw new Error('Network request failed');
+      })
+      .mockResolvedValueOnce({ title: '散歩の日', summary: '公園を歩いた。' });
+
+    await GenerationQueue.processQueue();
+    await retried;
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(await GenerationQueue.getJobs()).toEqual([]);
+    expect(entries.get('a')).toEqual(expect.objectContaining({ title: '散歩の日', summary: '公園を歩いた。' }));
+    expect(entries.get('a')?.status).toBeUndefined();
+  });
+
+  it('regenerates an entry that was retried while its last attempt was failing', async () => {
+    entries.set('a', pendingEntry('a'));
+    await GenerationQueue.saveJobs([{ entryId: 'a', enqueuedAt: 0, attempts: 4 }]);
+
+    let statusOnRetry: string | undefined;
+    generate
+      .mockImplementationOnce(async () => {
+        GenerationQueue.retry('a');
+        await flush();
+        throw new Error('Network request failed');
+      })
+      .mockImplementationOnce(async () => {
+        statusOnRetry = entries.get('a')?.status;
+        return { title: '散歩の日', summary: '公園を歩いた。' };
+      });
+
+    await GenerationQueue.processQueue();
+
+    // 前回の処理で「失敗」になった日記は「作成待ち」に戻してから生成する
+    expect(statusOnRetry).toBe('pending');
+    expect(entries.get('a')?.status).toBeUndefined();
+    expect(await GenerationQueue.getJobs()).toEqual([]);
+  });
+
+  it('leaves a failed job in the queue for the next retry', async () => {
+    entries.set('a', pendingEntry('a'));
+    await GenerationQueue.saveJobs([{ entryId: 'a', enqueuedAt: 0, attempts: 0 }]);
+    generate.mockRejectedValueOnce(new Error('Network request failed'));
+
+    await GenerationQueue.processQueue();
+
+    expect(await GenerationQueue.getJobs()).toEqual([
+      expect.objectContaining({ entryId: 'a', enqueuedAt: 0, attempts: 1 }),
+    ]);
+  });
+
+  it('marks the entry failed right away when the error is not caused by the network', async () => {
+    entries.set('a', pendingEntry('a'));
+    await GenerationQueue.saveJobs([{ entryId: 'a', enqueuedAt: 0, attempts: 0 }]);
+    generate.mockRejectedValueOnce(new Error('OpenAI互換APIのURLが設定されていません'));
+
+    await GenerationQueue.processQueue();
+
+    expect(entries.get('a')?.status).toBe('failed');
+    expect(await GenerationQueue.getJobs()).toEqual([]);
+  });
+});
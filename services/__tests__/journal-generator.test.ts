@@ -0,0 +1,247 @@
+// 日記生成：通信の問題かどうかの判別（作成待ちにするか、エラーを見せるか）、モデルの出力の取り出し・検証・補正
+
+import { ConversationLog } from '../../types/callSession';
+import {
+  extractJson,
+  generateConversationResult,
+  generateValidatedJournal,
+  isTransientError,
+  requestWithRetry,
+  validateJournalData,
+} from '../journal-generator';
+import { StorageService } from '../storage';
+
+jest.mock('../storage', () => ({
+  StorageService: { getUserSettings: jest.fn() },
+}));
+
+const getUserSettings = StorageService.getUserSettings as jest.Mock;
+
+const TRANSCRIPT: ConversationLog[] = [
+  { timestamp: 1000, speaker: 'ai', text: '今日はどんな一日でしたか？' },
+  { timestamp: 2000, speaker: 'user', text: '朝から公園を散歩して、帰りにパン屋さんで新しいパンを買いました' },
+];
+
+const response = (status: number, body: unknown = {}) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body, text: async () => JSON.stringify(body) }) as Response;
+
+/** 指数バックオフの待ち時間を進めながら最後まで実行する */
+const runWithBackoff = async <T,>(promise: Promise<T>): Promise<T> => {
+  const settled = promise.then(
+    value => ({ value }),
+    error => ({ error }),
+  );
+  await jest.advanceTimersByTimeAsync(10 * 1000);
+  const result = await settled;
+  if ('error' in result) throw result.error;
+  return result.value;
+};
+
+describe('requestWithRetry', () => {
+  beforeAll(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('does not retry a 4xx response and does not mark it as transient', async () => {
+    const request = jest.fn().mockResolvedValue(response(400, { error: 'invalid argument' }));
+
+    const error = await requestWithRetry('Test', request).catch(e => e);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(isTransientError(error)).toBe(false);
+  });
+
+  it('marks a 5xx response as transient after retrying', async () => {
+    const request = jest.fn().mockResolvedValue(response(503));
+
+    const error = await runWithBackoff(requestWithRetry('Test', request)).catch(e => e);
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(isTransientError(error)).toBe(true);
+  });
+
+  it('marks a network error as transient', async () => {
+    const request = jest.fn().mockRejectedValue(new TypeError('Network request failed'));
+
+    const error = await runWithBackoff(requestWithRetry('Test', request)).catch(e => e);
+
+    expect(error.message).toBe('Network request failed');
+    expect(isTransientError(error)).toBe(true);
+  });
+
+  it('returns the JSON body once a retry succeeds', async () => {
+    const request = jest.fn()
+      .mockRejectedValueOnce(new TypeError('Network request failed'))
+      .mockResolvedValueOnce(response(200, { ok: true }));
+
+    await expect(runWithBackoff(requestWithRetry('Test', request))).resolves.toEqual({ ok: true });
+  });
+});
+
+describe('generateConversationResult', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns a pending result when the network is unavailable', async () => {
+    getUserSettings.mockResolvedValue({ llmProvider: 'openai', llmBaseUrl: 'http://localhost:11434/v1' });
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('Network request failed'));
+
+    const result = await runWithBackoff(generateConversationResult(TRANSCRIPT));
+
+    expect(result).toEqual(expect.objectContaining({ pending: true, transcript: TRANSCRIPT }));
+  });
+
+  it('throws a configuration error instead of queueing it', async () => {
+    getUserSettings.mockResolvedValue({ llmProvider: 'openai', llmBaseUrl: '' });
+
+    await expect(generateConversationResult(TRANSCRIPT)).rejects.toThrow('OpenAI互換APIのURLが設定されていません');
+  });
+
+  it('throws a 4xx response instead of queueing it', async () => {
+    getUserSettings.mockResolvedValue({ llmProvider: 'openai', llmBaseUrl: 'http://localhost:11434/v1' });
+    global.fetch = jest.fn().mockResolvedValue(response(401, { error: 'invalid api key' }));
+
+    await expect(generateConversationResult(TRANSCRIPT)).rejects.toThrow('API Client Error (401)');
+  });
+});
+
+describe('extractJson', () => {
+  it('parses plain JSON', () => {
+    expect(extractJson('{"title":"散歩の日"}')).toEqual({ title: '散歩の日' });
+  });
+
+  it('extracts JSON from a fenced code block with surrounding text', () => {
+    const text = '日記を作成しました。\n```json\n{"title":"散歩の日","summary":"公園を歩いた。"}\n```\n以上です。';
+
+    expect(extractJson(text)).toEqual({ title: '散歩の日', summary: '公園を歩いた。' });
+  });
+
+  it('returns null when there is no JSON object', () => {
+    expect(extractJson('すみません、日記を作成できませんでした。')).toBeNull();
+    expect(extractJson('{"title": "散歩の日",')).toBeNull();
+  });
+});
+
+describe('validateJournalData', () => {
+  const valid = { title: '散歩の日', summary: '公園を歩いた。', emotion: 'calm' };
+
+  it('accepts valid data and normalizes the optional fields', () => {
+    const result = validateJournalData({
+      ...valid,
+      emotionIntensity: 9,
+      secondaryEmotions: [{ emotion: 'happy', intensity: 2 }, { emotion: 'calm', intensity: 3 }, { emotion: 'bored', intensity: 1 }],
+      tags: ['#健康', 42],
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      journal: {
+        ...valid,
+        emotionIntensity: 5,
+        secondaryEmotions: [{ emotion: 'happy', intensity: 2 }],
+        tags: ['健康'],
+      },
+    });
+  });
+
+  it('drops extra keys', () => {
+    const result = validateJournalData({ ...valid, mood: 'good', date: '2026-10-19' });
+
+    expect(result.ok && Object.keys(result.journal).sort()).toEqual(
+      ['emotion', 'emotionIntensity', 'secondaryEmotions', 'summary', 'tags', 'title'],
+    );
+  });
+
+  it('rejects an unknown emotion', () => {
+    const result = validateJournalData({ ...valid, emotion: 'bored' });
+
+    expect(result).toEqual({ ok: false, errors: [expect.stringContaining('emotion は')] });
+  });
+
+  it('reports every missing field', () => {
+    const result = validateJournalData({ emotion: 'calm' });
+
+    expect(result).toEqual({ ok: false, errors: ['title が空です', 'summary が空です'] });
+  });
+
+  it('rejects a title that is too long', () => {
+    const result = validateJournalData({ ...valid, title: 'とても長いタイトルの日記になってしまいました' });
+
+    expect(result).toEqual({ ok: false, errors: [expect.stringContaining('title は15文字以内')] });
+  });
+
+  it('rejects something that is not an object', () => {
+    expect(validateJournalData(null)).toEqual({ ok: false, errors: ['JSONオブジェクトではありません'] });
+    expect(validateJournalData([valid])).toEqual({ ok: false, errors: ['JSONオブジェクトではありません'] });
+  });
+});
+
+describe('generateValidatedJournal', () => {
+  const CONVERSATION = 'ユーザー: 公園を散歩しました\nAI: いいですね。';
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('asks the model to repair an invalid output', async () => {
+    const complete = jest.fn()
+      .mockResolvedValueOnce('{"title":"散歩の日","summary":"公園を歩いた。","emotion":"bored"}')
+      .mockResolvedValueOnce('{"title":"散歩の日","summary":"公園を歩いた。","emotion":"calm"}');
+
+    const journal = await generateValidatedJournal('Test', CONVERSATION, 'factual', complete);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1][0]).toContain('emotion は');
+    expect(journal).toEqual(expect.objectContaining({ title: '散歩の日', emotion: 'calm' }));
+  });
+
+  it('coerces an output that is still invalid after the repair', async () => {
+    const complete = jest.fn().mockResolvedValue(
+      '{"title":"とても長いタイトルの日記になってしまいました","summary":"公園を歩いた。","emotion":"bored"}',
+    );
+
+    const journal = await generateValidatedJournal('Test', CONVERSATION, 'factual', complete);
+
+    expect(journal).toEqual({
+      title: 'とても長いタイトルの日記になっ',
+      summary: '公園を歩いた。',
+      emotion: 'neutral',
+      emotionIntensity: 3,
+      secondaryEmotions: [],
+      tags: [],
+    });
+  });
+
+  it('uses a default title when the title is missing', async () => {
+    const complete = jest.fn().mockResolvedValue('{"summary":"公園を歩いた。","emotion":"calm"}');
+
+    const journal = await generateValidatedJournal('Test', CONVERSATION, 'factual', complete);
+
+    expect(journal.title).toBe('今日の日記');
+  });
+
+  it('fails when the summary is still missing', async () => {
+    const complete = jest.fn().mockResolvedValue('```json\n{"title":"散歩の日","emotion":"calm"}\n```');
+
+    await expect(generateValidatedJournal('Test', CONVERSATION, 'factual', complete))
+      .rejects.toThrow('Generated journal has no summary');
+  });
+});
@@ -0,0 +1,50 @@
+// AIの長期記憶：削除した日記から覚えた内容を会話に持ち込まない
+
+import { Memory, MemoryService } from '../memory';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../journal-generator', () => ({}));
+jest.mock('../storage', () => ({}));
+
+const memory = (id: string, sourceEntryIds: string[]): Memory => ({
+  id,
+  kind: 'person',
+  content: `記憶${id}`,
+  keywords: [],
+  sourceEntryIds,
+  mentionCount: sourceEntryIds.length,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('MemoryService.forgetEntries', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    await MemoryService.clear();
+  });
+
+  it('removes the deleted entry from sources and drops memories left without sources', async () => {
+    await MemoryService.saveAll([memory('a', ['1']), memory('b', ['1', '2']), memory('c', ['3'])]);
+
+    await MemoryService.forgetEntries(['1']);
+
+    const memories = await MemoryService.getAll();
+    expect(memories.map(m => [m.id, m.sourceEntryIds])).toEqual([
+      ['b', ['2']],
+      ['c', ['3']],
+    ]);
+  });
+
+  it('keeps retrieve() from returning memories of deleted entries', async () => {
+    await MemoryService.saveAll([memory('a', ['1']), memory('b', ['2'])]);
+
+    await MemoryService.forgetEntries(['1', '2']);
+
+    expect(await MemoryService.retrieve('')).toEqual([]);
+  });
+});
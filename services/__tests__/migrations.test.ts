@@ -0,0 +1,93 @@
+// スキーマのマイグレーション：古い保存データ・バックアップを最新の形式に揃える
+
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, migrateData } from '../migrations';
+
+describe('migrateData', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('fills the required fields of a legacy entry', () => {
+    const { entries } = migrateData({
+      settings: null,
+      entries: [{ id: 42, date: '2024-05-01', title: '散歩', summary: '公園を歩いた。', emotion: 'angry' }],
+    }, LEGACY_SCHEMA_VERSION);
+
+    expect(entries[0]).toEqual({
+      id: '42',
+      date: '2024-05-01',
+      title: '散歩',
+      summary: '公園を歩いた。',
+      emotion: 'neutral',
+      createdAt: new Date('2024-05-01').getTime(),
+    });
+  });
+
+  it('keeps valid optional fields added after v1', () => {
+    const entry = {
+      id: 'a',
+      date: '2026-10-19',
+      title: '散歩',
+      summary: '公園を歩いた。',
+      emotion: 'calm',
+      createdAt: 1,
+      updatedAt: 2,
+      tags: ['健康'],
+      emotionIntensity: 4,
+      secondaryEmotions: [{ emotion: 'happy', intensity: 2 }],
+      status: 'pending',
+      hasTranscript: true,
+      duration: 300,
+      talkTime: { userSeconds: 120, aiSeconds: 90 },
+      audio: { fileName: 'a.wav', startedAt: 1, durationMs: 300000, includesAi: true },
+    };
+
+    expect(migrateData({ settings: {}, entries: [entry] }, 1).entries).toEqual([entry]);
+  });
+
+  it('normalizes or drops malformed optional fields', () => {
+    const { entries } = migrateData({
+      settings: {},
+      entries: [{
+        id: 'a',
+        date: '2026-10-19',
+        title: '散歩',
+        summary: '公園を歩いた。',
+        emotion: 'calm',
+        createdAt: 1,
+        updatedAt: '2026-10-19',
+        tags: ['#健康', 3, '健康'],
+        emotionIntensity: 9,
+        secondaryEmotions: [{ emotion: 'calm', intensity: 2 }, { emotion: 'unknown' }],
+        status: 'done',
+        hasTranscript: 'yes',
+        duration: -1,
+        talkTime: { userSeconds: 120 },
+        audio: { fileName: '', startedAt: 1, durationMs: 0 },
+      }],
+    }, 1);
+
+    expect(entries[0]).toEqual({
+      id: 'a',
+      date: '2026-10-19',
+      title: '散歩',
+      summary: '公園を歩いた。',
+      emotion: 'calm',
+      createdAt: 1,
+      tags: ['健康'],
+      emotionIntensity: 5,
+    });
+  });
+
+  it('leaves settings as they are so new settings fall back to their defaults', () => {
+    const settings = { userName: 'たろう', aiVoice: 'Aoede' };
+
+    expect(migrateData({ settings, entries: [] }, LEGACY_SCHEMA_VERSION).settings).toEqual(settings);
+  });
+
+  it('does nothing for data already at the current version', () => {
+    const data = { settings: null, entries: [{ id: 'a', emotion: 'unknown' }] };
+
+    expect(migrateData(data, CURRENT_SCHEMA_VERSION)).toBe(data);
+  });
+});
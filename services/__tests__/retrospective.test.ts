@@ -0,0 +1,41 @@
+// ふりかえり：削除した日記から作ったふりかえりを残さない
+
+import { Retrospective, RetrospectiveService } from '../retrospective';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../journal-generator', () => ({}));
+jest.mock('../storage', () => ({}));
+
+const retrospective = (startDate: string, entryIds: string[]): Retrospective => ({
+  id: `week-${startDate}`,
+  period: 'week',
+  startDate,
+  endDate: startDate,
+  entryIds,
+  highlights: [],
+  themes: [],
+  moodTrajectory: '',
+  question: '',
+  moodPoints: [],
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('RetrospectiveService.forgetEntries', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('deletes retrospectives made from a deleted entry and keeps the others', async () => {
+    await RetrospectiveService.saveAll([
+      retrospective('2026-10-05', ['1', '2']),
+      retrospective('2026-10-12', ['3']),
+    ]);
+
+    await RetrospectiveService.forgetEntries(['2']);
+
+    expect((await RetrospectiveService.getAll()).map(r => r.id)).toEqual(['week-2026-10-12']);
+  });
+});
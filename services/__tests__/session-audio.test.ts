@@ -0,0 +1,51 @@
+// 会話の録音：マイクとAIの音声を同じ時間軸に重ねて保存する
+
+import { SessionAudioRecorder } from '../session-audio';
+
+jest.mock('../storage', () => ({}));
+jest.mock('expo-file-system', () => {
+  class Directory {
+    exists = true;
+    create() {}
+  }
+  class File {
+    exists = true;
+    create() {}
+    delete() {}
+    open() {
+      return { offset: 0, writeBytes() {}, close() {} };
+    }
+  }
+  return { Directory, File, Paths: { document: '/documents' } };
+});
+
+/** 指定の長さの無音でない PCM（16bit）を base64 にする */
+const pcm = (sampleRate: number, durationMs: number) => {
+  const samples = new Int16Array((sampleRate * durationMs) / 1000).fill(1000);
+  return Buffer.from(samples.buffer).toString('base64');
+};
+
+describe('SessionAudioRecorder', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('keeps AI audio that runs past the last microphone audio when the call ends', () => {
+    const recorder = SessionAudioRecorder.start('both')!;
+
+    recorder.appendMic(pcm(16000, 100));
+    // 最後の返事（マイクの位置より 300ms 長い）
+    recorder.appendAi(pcm(24000, 300));
+
+    expect(recorder.finish()).toEqual(expect.objectContaining({ durationMs: 400, includesAi: true }));
+  });
+
+  it('ends at the microphone position when AI audio is not recorded', () => {
+    const recorder = SessionAudioRecorder.start('user')!;
+
+    recorder.appendMic(pcm(16000, 100));
+    recorder.appendAi(pcm(24000, 300));
+
+    expect(recorder.finish()).toEqual(expect.objectContaining({ durationMs: 100, includesAi: false }));
+  });
+});
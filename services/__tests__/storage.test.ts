@@ -0,0 +1,62 @@
+// バックアップの取り込み（置き換え）：消える日記の録音・会話ログを端末に残さない
+
+import { SessionAudio } from '../session-audio';
+import { ImportPreview, JournalEntry, StorageService } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../sqlite-journal-repository', () => {
+  throw new Error('SQLite is not available in tests');
+});
+jest.mock('../session-audio', () => ({
+  SessionAudio: { delete: jest.fn() },
+}));
+jest.mock('../journal-generator', () => ({}));
+jest.mock('../memory', () => ({
+  MemoryService: { forgetEntries: async () => {} },
+}));
+jest.mock('../retrospective', () => ({
+  RetrospectiveService: { forgetEntries: async () => {} },
+}));
+
+const deleteAudio = SessionAudio.delete as jest.Mock;
+
+const entry = (id: string, audioFileName?: string): JournalEntry => ({
+  id,
+  date: '2026-10-19',
+  title: `日記${id}`,
+  summary: '公園を歩いた。',
+  emotion: 'calm',
+  createdAt: Number(id),
+  ...(audioFileName && { audio: { fileName: audioFileName, startedAt: 0, durationMs: 1000, includesAi: false } }),
+});
+
+const preview = async (entries: JournalEntry[]): Promise<ImportPreview> => ({
+  version: 2,
+  exportedAt: null,
+  settings: await StorageService.getUserSettings(),
+  entries,
+  transcripts: {},
+  newEntryCount: entries.length,
+  conflictCount: 0,
+});
+
+describe('StorageService.importData', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('deletes the recordings and transcripts of entries removed by replacing', async () => {
+    await StorageService.saveJournalEntry(entry('1', '1.wav'));
+    await StorageService.saveJournalEntry(entry('2', '2.wav'));
+    await StorageService.saveTranscript('1', [{ timestamp: 0, speaker: 'user', text: '散歩をしました' }]);
+
+    await StorageService.importData(await preview([entry('2', '2.wav'), entry('3')]), 'replace');
+
+    expect(deleteAudio.mock.calls).toEqual([['1.wav']]);
+    expect(await StorageService.getTranscript('1')).toEqual([]);
+    expect((await StorageService.getJournalEntries()).map(e => e.id)).toEqual(['3', '2']);
+  });
+});
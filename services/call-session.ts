@@ -0,0 +1,578 @@
+// services/call-session.ts
+// 通話セッションの状態マシン（React に依存しない部分）
+// 状態遷移、割り込み、無音タイムアウトを一元管理し、useCallSession から使う
+// 音声の再生・録音と会話の録音は差し替えられるので、Node 上でも疑似サーバー相手に動かせる
+
+import { EventEmitter } from 'eventemitter3';
+import { CallState, ConversationLog, FinishedCall, InputMode } from '../types/callSession';
+import { cleanTranscript } from '../utils/transcript';
+import { GeminiLiveService } from './gemini-live';
+import type { LiveTransportFactory } from './live-transport';
+import { DEFAULT_SESSION_PACING, getPacingProfile, getWrapUpDelayMs, PacingProfile } from './pacing';
+import type { Persona } from './persona';
+import type { EntryAudio } from './storage';
+
+/**
+ * 音声の再生・マイク入力（アプリでは useSimpleAudioPlayer）
+ */
+export interface CallAudio {
+  startRecording(): void | Promise<void>;
+  stopRecording(): void | Promise<void>;
+  playAudio(base64Audio: string): void | Promise<void>;
+  stopPlaying(): void | Promise<void>;
+  /** AI音声の再生を止める（割り込み） */
+  interruptAI(): Promise<void>;
+  onTurnComplete(): void;
+}
+
+/**
+ * 会話の録音（アプリでは SessionAudioRecorder）
+ */
+export interface CallRecorder {
+  appendMic(base64Audio: string): void;
+  appendAi(base64Audio: string): void;
+  interruptAi(): void;
+  finish(): EntryAudio | null;
+  cancel(): void;
+}
+
+/** 会話のペースと入力方法（設定から読み込んだもの） */
+export interface CallSessionSettings {
+  pacing: PacingProfile;
+  silencePromptsEnabled: boolean;
+  targetSessionMinutes: number;
+  inputMode: InputMode;
+}
+
+/** 状態遷移の待ち時間（ms） */
+export interface CallSessionTiming {
+  /** 接続してから最初の問いかけを送るまで */
+  greetingDelayMs: number;
+  /** ターン完了から LISTENING に戻るまで */
+  turnSettleMs: number;
+  /** LISTENING に戻ってから、残響の誤検知を防ぐため音声送信を止めておく時間 */
+  echoGuardMs: number;
+}
+
+export const DEFAULT_CALL_SESSION_TIMING: CallSessionTiming = {
+  greetingDelayMs: 1000,
+  // 500ms -> 200msに短縮して応答性を向上
+  turnSettleMs: 200,
+  // 1秒間は残響による誤検知を完全にブロック
+  echoGuardMs: 1000,
+};
+
+export interface CallSessionControllerOptions {
+  audio: CallAudio;
+  /** Live API の通信路（省略時は WebSocket。疑似サーバーでのテスト用） */
+  transport?: LiveTransportFactory;
+  timing?: Partial<CallSessionTiming>;
+}
+
+export interface CallConnectParams {
+  apiKey: string;
+  persona: Pick<Persona, 'id' | 'voice' | 'greeting' | 'lightSilencePrompts' | 'deepSilencePrompts'>;
+  systemInstruction?: string;
+  /** 会話の録音を始める（録音しない場合は null を返す） */
+  createRecorder?: () => CallRecorder | null;
+}
+
+interface CallSessionEvents {
+  stateChange: (state: CallState, prevState: CallState) => void;
+  /** 画面に出すエラー（null で消す） */
+  errorMessage: (message: string | null) => void;
+  error: (error: Error) => void;
+  /** ストリーミングの断片（timestamp は発話の開始時刻） */
+  transcript: (log: ConversationLog) => void;
+}
+
+export class CallSessionController extends EventEmitter<CallSessionEvents> {
+  private audio: CallAudio;
+  private transport?: LiveTransportFactory;
+  private timing: CallSessionTiming;
+
+  private service: GeminiLiveService | null = null;
+  private recorder: CallRecorder | null = null;
+  private lightSilenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private deepSilenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private wrapUpTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private callState: CallState = CallState.ENDED;
+  // 通話時間の計測（接続完了時刻・状態ごとの経過時間）
+  private sessionStartedAt: number | null = null;
+  private stateEnteredAt: number = Date.now();
+  private speechMs = { user: 0, ai: 0 };
+  private isTurnCompleting: boolean = false; // ターン完了処理中フラグ（競合回避用）
+  private isInterrupting: boolean = false; // 割り込み処理中フラグ（二重割り込み防止）
+  // 振り返りの促し（目安の時間になったら、次の区切りで1回だけ送る）
+  private wrapUpDue: boolean = false;
+  private wrapUpSent: boolean = false;
+
+  private settings: CallSessionSettings = {
+    pacing: getPacingProfile(DEFAULT_SESSION_PACING),
+    silencePromptsEnabled: true,
+    targetSessionMinutes: 0,
+    inputMode: 'auto',
+  };
+
+  constructor({ audio, transport, timing }: CallSessionControllerOptions) {
+    super();
+    this.audio = audio;
+    this.transport = transport;
+    this.timing = { ...DEFAULT_CALL_SESSION_TIMING, ...timing };
+  }
+
+  get state(): CallState {
+    return this.callState;
+  }
+
+  get inputMode(): InputMode {
+    return this.settings.inputMode;
+  }
+
+  isReady(): boolean {
+    return this.service?.isReady() ?? false;
+  }
+
+  applySettings(settings: CallSessionSettings) {
+    this.settings = settings;
+  }
+
+  // 状態変更
+  private updateCallState(newState: CallState) {
+    const prevState = this.callState;
+    if (prevState === newState) return;
+    console.log(`CallSession: State change ${prevState} -> ${newState}`);
+    // 発話中だった時間を加算
+    const now = Date.now();
+    if (prevState === CallState.USER_TALKING) this.speechMs.user += now - this.stateEnteredAt;
+    if (prevState === CallState.AI_TALKING) this.speechMs.ai += now - this.stateEnteredAt;
+    this.stateEnteredAt = now;
+    this.callState = newState;
+    this.emit('stateChange', newState, prevState);
+  }
+
+  // 無音タイマーをリセット
+  private resetSilenceTimer() {
+    if (this.lightSilenceTimer) {
+      clearTimeout(this.lightSilenceTimer);
+      this.lightSilenceTimer = null;
+    }
+    if (this.deepSilenceTimer) {
+      clearTimeout(this.deepSilenceTimer);
+      this.deepSilenceTimer = null;
+    }
+  }
+
+  // 無音タイマーを開始（2段階対応）
+  // 振り返りを促す時間になっている場合は、軽い合いの手の代わりに振り返りを促す
+  private startSilenceTimer() {
+    this.resetSilenceTimer();
+    const { lightSilenceTimeoutMs, deepSilenceTimeoutMs } = this.settings.pacing;
+    const wrapUpDue = this.wrapUpDue && !this.wrapUpSent;
+
+    if (wrapUpDue) {
+      this.lightSilenceTimer = setTimeout(() => this.sendWrapUpIfDue(), lightSilenceTimeoutMs);
+    }
+
+    if (!this.settings.silencePromptsEnabled) return;
+
+    // 軽い合いの手
+    if (!wrapUpDue) {
+      this.lightSilenceTimer = setTimeout(() => {
+        console.log('CallSession: Light silence timeout - sending light prompt');
+        if (this.service?.isReady()) {
+          this.service.sendLightSilencePrompt();
+          this.updateCallState(CallState.AI_THINKING);
+        }
+      }, lightSilenceTimeoutMs);
+    }
+
+    // 深い問いかけ
+    this.deepSilenceTimer = setTimeout(() => {
+      console.log('CallSession: Deep silence timeout - sending deep prompt');
+      if (this.service?.isReady()) {
+        this.service.sendDeepSilencePrompt();
+        this.updateCallState(CallState.AI_THINKING);
+      }
+    }, deepSilenceTimeoutMs);
+  }
+
+  // 振り返りを促す時間を通話開始から計る（発話が続いても、次の区切りで促せるように）
+  private startWrapUpTimer() {
+    this.clearWrapUpTimer();
+    this.wrapUpDue = false;
+    this.wrapUpSent = false;
+    const delayMs = getWrapUpDelayMs(this.settings.targetSessionMinutes);
+    if (delayMs === null) return;
+
+    this.wrapUpTimer = setTimeout(() => {
+      this.wrapUpTimer = null;
+      console.log('CallSession: Target session length is near - wrap-up is due');
+      this.wrapUpDue = true;
+      // 誰も話していなければ、軽い合いの手の代わりに振り返りを促す
+      if (this.callState === CallState.LISTENING) this.startSilenceTimer();
+    }, delayMs);
+  }
+
+  private clearWrapUpTimer() {
+    if (this.wrapUpTimer) {
+      clearTimeout(this.wrapUpTimer);
+      this.wrapUpTimer = null;
+    }
+  }
+
+  // 振り返りを促す時間になっていれば促す（ユーザーの発話の区切り・無音時）
+  private sendWrapUpIfDue(): boolean {
+    if (!this.wrapUpDue || this.wrapUpSent || !this.service?.isReady()) return false;
+    console.log('CallSession: Sending wrap-up prompt');
+    this.wrapUpSent = true;
+    this.resetSilenceTimer();
+    this.service.sendWrapUpPrompt();
+    this.updateCallState(CallState.AI_THINKING);
+    return true;
+  }
+
+  /**
+   * 接続の準備を始める（設定やペルソナの読み込み中も「接続中」にする）
+   * @returns 接続済みの場合 false
+   */
+  beginConnect(): boolean {
+    if (this.service?.isReady()) {
+      console.log('CallSession: Already connected');
+      return false;
+    }
+    console.log('CallSession: Connecting...');
+    this.updateCallState(CallState.CONNECTING);
+    this.emit('errorMessage', null);
+    return true;
+  }
+
+  /**
+   * 接続する（beginConnect の後に呼ぶ）
+   */
+  connect({ apiKey, persona, systemInstruction, createRecorder }: CallConnectParams) {
+    // 準備中に切断された場合は接続しない
+    if (this.callState !== CallState.CONNECTING) return;
+
+    // 通信路が差し替えられている場合（疑似サーバー）はAPIキー不要
+    if (!apiKey && !this.transport) {
+      console.error('CallSession: API key not configured');
+      this.emit('errorMessage', 'API key not configured');
+      this.emit('error', new Error('API key not configured'));
+      return;
+    }
+
+    console.log('CallSession: Using persona:', persona.id, 'voice:', persona.voice);
+
+    const service = new GeminiLiveService({
+      apiKey,
+      voiceName: persona.voice,
+      lightSilencePrompts: persona.lightSilencePrompts,
+      deepSilencePrompts: persona.deepSilencePrompts,
+      reminderInterval: this.settings.pacing.reminderInterval,
+      manualActivity: this.settings.inputMode !== 'auto',
+      transport: this.transport,
+    });
+    this.service = service;
+
+    // イベントリスナー設定
+    service.on('connected', () => {
+      console.log('CallSession: Connected to Gemini, starting recording...');
+      this.sessionStartedAt = Date.now();
+      this.speechMs = { user: 0, ai: 0 };
+      this.startWrapUpTimer();
+      this.updateCallState(CallState.LISTENING);
+
+      // 録音開始
+      this.audio.startRecording();
+      // 会話音声の保存（設定で有効な場合）
+      this.recorder?.cancel();
+      this.recorder = createRecorder?.() ?? null;
+
+      // 最初のAI挨拶をトリガー（話しやすいきっかけを作る）
+      setTimeout(() => {
+        if (this.service !== service) return;
+        console.log('CallSession: Sending initial greeting...');
+        service.sendText(persona.greeting, false);
+        this.updateCallState(CallState.AI_THINKING);
+      }, this.timing.greetingDelayMs);
+    });
+
+    service.on('disconnected', () => {
+      // 切断済みの古い接続からの通知で、新しい通話を終了させない
+      if (this.service !== service) return;
+      console.log('CallSession: Disconnected');
+      this.updateCallState(CallState.ENDED);
+      this.audio.stopRecording();
+      this.resetSilenceTimer();
+      this.clearWrapUpTimer();
+    });
+
+    service.on('reconnecting', (attempt) => {
+      console.log(`CallSession: Connection lost, reconnecting (attempt ${attempt})...`);
+      this.updateCallState(CallState.RECONNECTING);
+      this.resetSilenceTimer();
+      // 途切れたAI音声の残りは再生しない
+      this.audio.stopPlaying();
+      this.recorder?.interruptAi();
+      this.isTurnCompleting = false;
+      this.isInterrupting = false;
+    });
+
+    service.on('reconnected', () => {
+      console.log('CallSession: Reconnected, resuming conversation');
+      this.emit('errorMessage', null);
+      service.resumeAudioSending();
+      this.updateCallState(CallState.LISTENING);
+      this.startSilenceTimer();
+    });
+
+    service.on('error', (error) => {
+      console.error('CallSession: Error', error);
+      this.emit('errorMessage', '接続エラーが発生しました');
+      this.emit('error', error);
+    });
+
+    service.on('audio', (base64Audio) => {
+      // ターン完了処理中は新しい音声イベントを無視（前のターンの残りとみなす）
+      if (this.isTurnCompleting) {
+        return;
+      }
+
+      // 割り込み処理中も新しい音声イベントを無視
+      // （ネイティブのstopPlaying完了前に到着した残りチャンクをブロック）
+      if (this.isInterrupting) {
+        return;
+      }
+
+      // AI音声を受信 -> 再生
+      this.updateCallState(CallState.AI_TALKING);
+      this.resetSilenceTimer();
+      this.audio.playAudio(base64Audio);
+      this.recorder?.appendAi(base64Audio);
+    });
+
+    // AIの発話（ストリーミング断片。確定ログはgemini-live.tsで出力）
+    const handleAiFragment = (text: string, turnStartedAt: number) => {
+      this.emit('transcript', { timestamp: turnStartedAt, speaker: 'ai', text });
+    };
+    service.on('text', handleAiFragment);
+    service.on('outputTranscript', handleAiFragment);
+
+    service.on('inputTranscript', (text, turnStartedAt) => {
+      // ユーザー音声の認識結果
+      console.log('CallSession: User said:', text);
+      this.emit('transcript', { timestamp: turnStartedAt, speaker: 'user', text });
+    });
+
+    service.on('turnComplete', () => {
+      console.log('CallSession: Turn complete');
+      this.isTurnCompleting = true;
+
+      // 音声送信を一時停止（残響が次のターンとして誤認識されるのを防ぐ）
+      service.pauseAudioSending();
+
+      this.audio.onTurnComplete();
+
+      // 沈黙カウンターをリセット
+      service.resetSilenceCount();
+
+      // AI発話完了 -> LISTENINGへ
+      setTimeout(() => {
+        const currentState = this.callState;
+        if (currentState !== CallState.ENDED && currentState !== CallState.USER_TALKING && currentState !== CallState.RECONNECTING) {
+          this.updateCallState(CallState.LISTENING);
+          this.startSilenceTimer();
+        }
+
+        // 状態遷移完了後にフラグ解除と音声送信再開（少しバッファを持たせる）
+        setTimeout(() => {
+          this.isTurnCompleting = false;
+          this.service?.resumeAudioSending();
+        }, this.timing.echoGuardMs);
+
+      }, this.timing.turnSettleMs);
+    });
+
+    service.on('interrupted', () => {
+      console.log('CallSession: AI interrupted');
+    });
+
+    // 接続開始
+    console.log('CallSession: Starting WebSocket connection...');
+    service.connect(systemInstruction);
+  }
+
+  /**
+   * マイクの音声（送信と会話の録音）
+   */
+  sendMicAudio(base64Audio: string) {
+    this.service?.sendAudioChunk(base64Audio);
+    this.recorder?.appendMic(base64Audio);
+  }
+
+  // ユーザーの発話開始（AI発話中なら割り込む）
+  private handleUserSpeechStart() {
+    console.log('CallSession: User speech started');
+    this.resetSilenceTimer();
+
+    const currentState = this.callState;
+    // 再接続中は状態を変えない（再接続完了で LISTENING に戻る）
+    if (currentState === CallState.RECONNECTING) return;
+    // AI発話中なら割り込み処理
+    if (currentState === CallState.AI_TALKING) {
+      // 二重割り込み防止
+      if (this.isInterrupting) {
+        console.log('CallSession: Already interrupting, skip');
+        return;
+      }
+      this.isInterrupting = true;
+
+      // Turn complete処理中の場合もリセット
+      // （Turn completeと割り込みが重なると、isTurnCompletingが
+      //  1.2秒間trueのまま残り、新しいaudioイベントをブロックしてしまう）
+      this.isTurnCompleting = false;
+
+      console.log('CallSession: Interrupting AI');
+      this.service?.sendInterrupt();
+      this.recorder?.interruptAi();
+      this.updateCallState(CallState.INTERRUPTED);
+
+      // interruptAI()をtry-catchでラップし、失敗してもアプリがクラッシュしないようにする
+      // 非同期処理完了後に状態を遷移することで、ネイティブ側の処理と状態の整合性を保つ
+      (async () => {
+        try {
+          await this.audio.interruptAI();
+        } catch (e) {
+          console.error('CallSession: interruptAI failed', e);
+        } finally {
+          this.isInterrupting = false;
+          // 割り込み完了後にUSER_TALKINGへ遷移
+          // （その間に終了・発話終了などで状態が変わっていないことを確認）
+          if (this.callState === CallState.INTERRUPTED) {
+            this.updateCallState(CallState.USER_TALKING);
+          }
+        }
+      })();
+    } else {
+      this.updateCallState(CallState.USER_TALKING);
+    }
+  }
+
+  /**
+   * 発話検出（VAD）による発話開始。押して話すモードではボタンで区切るので無視する
+   */
+  handleSpeechStart() {
+    if (this.settings.inputMode !== 'auto') return;
+    this.handleUserSpeechStart();
+  }
+
+  /**
+   * 発話検出（VAD）による発話終了
+   */
+  handleSpeechEnd() {
+    if (this.settings.inputMode !== 'auto') return;
+    console.log('CallSession: User speech ended');
+    if (this.callState === CallState.RECONNECTING) return;
+    this.updateCallState(CallState.LISTENING);
+    if (this.sendWrapUpIfDue()) return;
+    this.startSilenceTimer();
+  }
+
+  // 押して話す: 発話開始（ボタンを押した・タップした）
+  startTalking() {
+    const service = this.service;
+    if (this.settings.inputMode === 'auto' || !service?.isReady()) return;
+    if (this.callState === CallState.USER_TALKING || this.callState === CallState.RECONNECTING) return;
+    // 明示的に話し始めたので、ターン完了後の残響対策のブロックも解除する
+    this.isTurnCompleting = false;
+    service.sendActivityStart();
+    this.handleUserSpeechStart();
+  }
+
+  // 押して話す: 発話終了（ボタンを離した・もう一度タップした）。AIが応答する
+  stopTalking() {
+    if (this.settings.inputMode === 'auto') return;
+    this.service?.sendActivityEnd();
+    if (this.callState === CallState.USER_TALKING || this.callState === CallState.INTERRUPTED) {
+      console.log('CallSession: User released talk button');
+      this.updateCallState(CallState.AI_THINKING);
+      this.sendWrapUpIfDue();
+    }
+  }
+
+  /**
+   * 字幕からの訂正（GeminiLiveService の確定ログを書き換え、endCall の会話ログに反映される）
+   */
+  correctUserTurn(timestamp: number, text: string): boolean {
+    if (!this.service?.correctUserMessage(timestamp, text)) return false;
+    console.log('CallSession: User turn corrected');
+    return true;
+  }
+
+  // 切断
+  disconnect() {
+    console.log('CallSession: Disconnecting...');
+    this.resetSilenceTimer();
+    this.clearWrapUpTimer();
+    this.audio.stopRecording();
+    this.audio.stopPlaying();
+    this.service?.disconnect();
+    this.service = null;
+    // 会話を破棄した場合は録音も残さない（endCall では先に保存済み）
+    this.recorder?.cancel();
+    this.recorder = null;
+    this.updateCallState(CallState.ENDED);
+  }
+
+  /**
+   * 会話終了（日記は見直しの後で生成する）
+   */
+  endCall(): FinishedCall {
+    console.log('CallSession: Ending call...');
+
+    // 録音停止
+    this.audio.stopRecording();
+
+    // 会話ログを取得（WebSocket切断前に）
+    // turnComplete待ちの発話も確定させてから取得する
+    this.service?.flushPendingTurns();
+    const transcript = cleanTranscript(this.service?.getConversationLogs() || []);
+    console.log('CallSession: Transcript turns:', transcript.length);
+
+    // 通話時間（発話中のまま終了した場合は、その分も含める）
+    const now = Date.now();
+    const ongoingMs = now - this.stateEnteredAt;
+    const userMs = this.speechMs.user + (this.callState === CallState.USER_TALKING ? ongoingMs : 0);
+    const aiMs = this.speechMs.ai + (this.callState === CallState.AI_TALKING ? ongoingMs : 0);
+    const startedAt = this.sessionStartedAt;
+    this.sessionStartedAt = null;
+
+    // 録音を保存
+    const audio = this.recorder?.finish() || undefined;
+    this.recorder = null;
+
+    // WebSocket切断
+    this.disconnect();
+
+    const call: FinishedCall = { transcript, audio };
+    if (startedAt !== null) {
+      call.duration = Math.round((now - startedAt) / 1000);
+      call.talkTime = { userSeconds: Math.round(userMs / 1000), aiSeconds: Math.round(aiMs / 1000) };
+    }
+    return call;
+  }
+
+  /**
+   * 画面を離れたときの後片付け（状態は通知しない）
+   */
+  dispose() {
+    this.resetSilenceTimer();
+    this.clearWrapUpTimer();
+    this.service?.disconnect();
+    this.service = null;
+    this.recorder?.cancel();
+    this.recorder = null;
+  }
+}
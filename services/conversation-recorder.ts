@@ -2,23 +2,13 @@
 // 会話ログを蓄積し、終了時に日記を生成する
 // 音声ベースではなくテキストベースで記録
 
+import { DEFAULT_EMOTION_INTENSITY } from '../constants/emotions';
 import { ConversationLog } from '../types/callSession';
-
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
-
-interface JournalData {
-  title: string;
-  summary: string;
-  emotion: 'happy' | 'sad' | 'excited' | 'calm' | 'tired' | 'neutral';
-}
+import { formatConversationHistory } from '../utils/transcript';
+import { generateJournalWithSettings, JournalData } from './journal-generator';
 
 export class ConversationRecorder {
-  private apiKey: string;
   private logs: ConversationLog[] = [];
-  
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
 
   // 会話をリセット
   reset() {
@@ -38,9 +28,7 @@ export class ConversationRecorder {
 
   // 会話履歴をテキスト形式で取得
   getConversationText(): string {
-    return this.logs
-      .map(log => `${log.speaker === 'user' ? 'ユーザー' : 'AI'}: ${log.text}`)
-      .join('\n');
+    return formatConversationHistory(this.logs);
   }
 
   // 会話が十分にあるかチェック
@@ -60,6 +48,9 @@ export class ConversationRecorder {
         title: '今日の日記',
         summary: 'AIと短い会話をしました。',
         emotion: 'neutral',
+        emotionIntensity: DEFAULT_EMOTION_INTENSITY,
+        secondaryEmotions: [],
+        tags: [],
       };
     }
 
@@ -67,74 +58,19 @@ export class ConversationRecorder {
       const conversationText = this.getConversationText();
       console.log('ConversationRecorder: Conversation text:', conversationText.substring(0, 200));
 
-      // Gemini REST API にテキストリクエスト
-      const response = await fetch(`${GEMINI_API_URL}?key=${this.apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `以下は今日のAIアシスタントとユーザーの会話です。
-
-${conversationText}
-
-この会話を元に、ユーザーの今日の日記を作成してください。
-ユーザーの視点で、今日あった出来事や気持ちをまとめてください。
-
-以下のJSON形式のみを返してください：
-{
-  "title": "日記のタイトル（15文字以内）",
-  "summary": "日記の本文（ユーザー視点での100文字程度の要約）",
-  "emotion": "happy" | "sad" | "excited" | "calm" | "tired"
-}`
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 500,
-          }
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('Gemini API error:', error);
-        throw new Error(`API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      
-      if (!textResponse) {
-        throw new Error('No text response from API');
-      }
-
-      console.log('ConversationRecorder: Received response:', textResponse.substring(0, 200));
-
-      // JSONを抽出してパース
-      const jsonMatch = textResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const journal = JSON.parse(jsonMatch[0]);
-      return {
-        title: journal.title || '今日の日記',
-        summary: journal.summary || '（要約なし）',
-        emotion: journal.emotion || 'neutral',
-      };
+      // 設定で選択されたプロバイダー・文体で生成
+      const journal = await generateJournalWithSettings(conversationText);
+      console.log('ConversationRecorder: Generated journal:', journal.title);
+      return journal;
     } catch (error) {
       console.error('ConversationRecorder: Failed to generate journal', error);
       return {
         title: '今日の日記',
         summary: 'AIと会話しました。（日記生成に失敗しました）',
         emotion: 'neutral',
+        emotionIntensity: DEFAULT_EMOTION_INTENSITY,
+        secondaryEmotions: [],
+        tags: [],
       };
     }
   }
@@ -145,11 +81,7 @@ let recorderInstance: ConversationRecorder | null = null;
 
 export const getConversationRecorder = (): ConversationRecorder => {
   if (!recorderInstance) {
-    const apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('EXPO_PUBLIC_GEMINI_API_KEY is not set');
-    }
-    recorderInstance = new ConversationRecorder(apiKey);
+    recorderInstance = new ConversationRecorder();
   }
   return recorderInstance;
 };
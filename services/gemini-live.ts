@@ -2,34 +2,65 @@
 // Gemini Multimodal Live API WebSocket接続サービス
 // 割り込み機能とリアルタイム音声ストリーミング対応
 
+import { Buffer } from 'buffer';
 import { EventEmitter } from 'eventemitter3';
 import { ConversationLog, getDeepSilencePrompt, getLightSilencePrompt } from '../types/callSession';
 import { ConversationMood, inferMoodFromTexts, MOOD_RESPONSE_HINTS } from '../types/conversationMood';
+import { formatConversationHistory } from '../utils/transcript';
+import { createWebSocketTransport, LiveTransport, LiveTransportFactory } from './live-transport';
 
 const HOST = 'generativelanguage.googleapis.com';
 const PATH = '/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent';
 
+// 再接続（予期しない切断時）
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+// 再開ハンドルがない場合に setup で送り直す会話履歴の上限
+const RESUME_CONTEXT_MAX_TURNS = 20;
+const RESUME_CONTEXT_MAX_CHARS = 3000;
+
 interface GeminiLiveConfig {
   apiKey: string;
   model?: string;
   voiceName?: string; // e.g. "Aoede", "Charon", "Kore", "Fenrir", "Puck"
+  /** 沈黙時の問いかけ（省略時は LIGHT_SILENCE_PROMPTS / DEEP_SILENCE_PROMPTS。ペルソナごとに指定） */
+  lightSilencePrompts?: string[];
+  deepSilencePrompts?: string[];
+  /** 会話継続のリマインダーを送るターン数の間隔（省略時は5） */
+  reminderInterval?: number;
+  /**
+   * サーバー側の発話検出を使わず、sendActivityStart / sendActivityEnd で発話の区切りを伝える（プッシュトゥトーク）
+   * 発話中（activityStart〜activityEnd）以外の音声は送らない
+   */
+  manualActivity?: boolean;
+  /** 接続先（省略時は Gemini の本番エンドポイント。疑似サーバーでのテスト用） */
+  url?: string;
+  /** 通信路の生成（省略時は WebSocket） */
+  transport?: LiveTransportFactory;
 }
 
 // イベント型定義
 interface GeminiLiveEvents {
   connected: () => void;
   disconnected: () => void;
+  // 予期しない切断からの再接続
+  reconnecting: (attempt: number) => void;
+  reconnected: () => void;
   error: (error: Error) => void;
   audio: (base64Audio: string) => void;
-  text: (text: string) => void;
+  // ストリーミングの断片（turnStartedAt は発話の開始時刻 = 確定後の会話ログの timestamp）
+  text: (text: string, turnStartedAt: number) => void;
   turnComplete: () => void;
   // 新規追加イベント
   interrupted: () => void;
-  inputTranscript: (text: string) => void;  // ユーザー音声の認識結果
+  inputTranscript: (text: string, turnStartedAt: number) => void;  // ユーザー音声の認識結果
+  outputTranscript: (text: string, turnStartedAt: number) => void;  // AI音声の文字起こし
 }
 
 export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
-  private ws: WebSocket | null = null;
+  private transport: LiveTransport | null = null;
   private config: GeminiLiveConfig;
   private setupComplete: boolean = false;
   
@@ -41,6 +72,10 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
   
   // 現在のユーザー入力テキスト（バッファリング用）
   private currentUserInput: string = '';
+
+  // 発話の開始時刻（会話ログの時刻。録音の再生位置に使う）
+  private currentAiResponseStartedAt: number | null = null;
+  private currentUserInputStartedAt: number | null = null;
   
   // 割り込みフラグ
   private isInterrupted: boolean = false;
@@ -53,10 +88,22 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
   
   // ターンカウンター（リマインダー送信用）
   private turnCount: number = 0;
+  // 目安の会話時間が近づき、振り返りを促した後（継続のリマインダーを止める）
+  private isWrappingUp: boolean = false;
   
   // デバッグ用カウンター
   private audioChunkCount: number = 0;
 
+  // 再接続用
+  private systemInstruction?: string;
+  private hasConnected: boolean = false;  // 一度でもセットアップが完了したか
+  private isClosingIntentionally: boolean = false;
+  private isReconnecting: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // セッション再開ハンドル（sessionResumptionUpdate で受け取る）
+  private resumptionHandle: string | null = null;
+
   constructor(config: GeminiLiveConfig) {
     super();
     this.config = config;
@@ -65,6 +112,9 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
   // 音声送信一時停止フラグ
   private isAudioSendingPaused: boolean = false;
 
+  // 手動の発話区切りで、発話中かどうか（manualActivity の場合のみ）
+  private isActivityActive: boolean = false;
+
   // 音声送信を一時停止（ターン切り替え時の残響対策）
   pauseAudioSending() {
     this.isAudioSendingPaused = true;
@@ -80,8 +130,11 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
     this.conversationLogs = [];
     this.currentAiResponse = '';
     this.currentUserInput = '';  // ユーザー入力バッファもリセット
+    this.currentAiResponseStartedAt = null;
+    this.currentUserInputStartedAt = null;
     this.isInterrupted = false;
     this.turnCount = 0;
+    this.isWrappingUp = false;
   }
 
   // 会話ログを取得（日記生成用）
@@ -91,26 +144,42 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
 
   // 会話履歴をテキスト形式で取得
   getConversationHistory(): string {
-    return this.conversationLogs
-      .map(entry => `${entry.speaker === 'user' ? 'ユーザー' : 'AI'}: ${entry.text}`)
-      .join('\n');
+    return formatConversationHistory(this.conversationLogs);
+  }
+
+  // turnComplete前に会話が終了した場合、バッファ中の発話を確定する
+  flushPendingTurns() {
+    this.finalizeUserInput();
+    this.finalizeAiResponse();
+  }
+
+  /**
+   * 確定済みのユーザーの発話を訂正する（聞き間違いの修正。日記生成にはこの内容が使われる）
+   * @param timestamp 発話の開始時刻（会話ログの timestamp）
+   * @returns 該当する発話があった場合 true
+   */
+  correctUserMessage(timestamp: number, text: string): boolean {
+    const index = this.conversationLogs.findIndex(l => l.speaker === 'user' && l.timestamp === timestamp);
+    if (index < 0 || !text.trim()) return false;
+    this.conversationLogs[index] = { ...this.conversationLogs[index], text: text.trim() };
+    return true;
   }
 
   // ユーザーからのメッセージを記録
-  private recordUserMessage(text: string) {
+  private recordUserMessage(text: string, timestamp: number = Date.now()) {
     if (!text.trim()) return;
     this.conversationLogs.push({ 
-      timestamp: Date.now(),
+      timestamp,
       speaker: 'user', 
       text: text.trim()
     });
   }
 
   // AIからのメッセージを記録
-  private recordAiMessage(text: string) {
+  private recordAiMessage(text: string, timestamp: number = Date.now()) {
     if (!text.trim()) return;
     this.conversationLogs.push({ 
-      timestamp: Date.now(),
+      timestamp,
       speaker: 'ai', 
       text: text.trim()
     });
@@ -119,53 +188,150 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
   // AIの現在の応答を確定して記録
   private finalizeAiResponse() {
     if (this.currentAiResponse.trim()) {
-      this.recordAiMessage(this.currentAiResponse);
+      this.recordAiMessage(this.currentAiResponse, this.currentAiResponseStartedAt ?? Date.now());
       // まとめてログ出力
       console.log('[AI発話]', this.currentAiResponse.substring(0, 100) + (this.currentAiResponse.length > 100 ? '...' : ''));
       this.currentAiResponse = '';
     }
+    this.currentAiResponseStartedAt = null;
+  }
+
+  // AIの発話が始まった時刻を記録（音声・文字起こしのうち最初に届いたもの）
+  private markAiResponseStarted() {
+    if (this.currentAiResponseStartedAt === null) {
+      this.currentAiResponseStartedAt = Date.now();
+    }
   }
   
   // ユーザーの現在の入力を確定して記録（バッファリング対応）
   private finalizeUserInput() {
     if (this.currentUserInput.trim()) {
       const cleanedInput = this.currentUserInput.trim().replace(/\s+/g, ''); // 日本語なのでスペースを完全除去
-      this.recordUserMessage(cleanedInput);
+      this.recordUserMessage(cleanedInput, this.currentUserInputStartedAt ?? Date.now());
       // まとめてログ出力
       console.log('[ユーザー発話]', cleanedInput);
       this.currentUserInput = '';
     }
+    this.currentUserInputStartedAt = null;
   }
 
   connect(systemInstructionText?: string) {
-    const url = `wss://${HOST}${PATH}?key=${this.config.apiKey}`;
-    this.ws = new WebSocket(url);
-    
-    // React Native WebSocket requires binaryType to be set for proper blob handling
-    this.ws.binaryType = 'blob';
+    this.systemInstruction = systemInstructionText;
+    this.hasConnected = false;
+    this.isClosingIntentionally = false;
+    this.isReconnecting = false;
+    this.reconnectAttempts = 0;
+    this.resumptionHandle = null;
+    this.openSocket();
+  }
 
-    this.ws.onopen = () => {
-      console.log('Gemini Live Connected');
-      this.sendSetupMessage(systemInstructionText);
-    };
+  private openSocket() {
+    const url = `${this.config.url || `wss://${HOST}${PATH}`}?key=${this.config.apiKey}`;
+    const createTransport = this.config.transport || createWebSocketTransport;
+
+    // 再接続後に古い接続のイベントが届いても無視する
+    const transport: LiveTransport = createTransport(url, {
+      onOpen: () => {
+        if (this.transport !== transport) return;
+        console.log('Gemini Live Connected');
+        this.sendSetupMessage(this.systemInstruction);
+      },
+
+      onMessage: async (data) => {
+        if (this.transport !== transport) return;
+        await this.handleMessage(data);
+      },
+
+      onError: (error) => {
+        if (this.transport !== transport) return;
+        console.error('Gemini Live Error:', error);
+        // 再接続で回復できる可能性があるので、再接続中はエラーを通知しない
+        if (!this.isReconnecting) {
+          this.emit('error', new Error('WebSocket connection error'));
+        }
+      },
+
+      onClose: (code, reason) => {
+        console.log('Gemini Live Closed, code:', code, 'reason:', reason);
+        if (this.isClosingIntentionally) {
+          // disconnect() 済み（this.transport は null）
+          if (this.transport === null) this.emit('disconnected');
+          return;
+        }
+        if (this.transport !== transport) return;
+        this.transport = null;
+        this.setupComplete = false;
+        // 新しい接続では発話の区切りもやり直しになる
+        this.isActivityActive = false;
+
+        // 初回接続に失敗した場合は再接続しない（APIキー不正など）
+        if (!this.hasConnected) {
+          this.emit('disconnected');
+          return;
+        }
+        this.scheduleReconnect();
+      },
+    });
+    this.transport = transport;
+  }
 
-    this.ws.onmessage = async (event) => {
-      await this.handleMessage(event.data);
-    };
+  /**
+   * 予期しない切断時に指数バックオフで再接続する
+   * 上限回数を超えたら disconnected を通知して終了
+   */
+  private scheduleReconnect() {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn('GeminiLive: Reconnect attempts exhausted');
+      this.isReconnecting = false;
+      this.emit('disconnected');
+      return;
+    }
 
-    this.ws.onerror = (event) => {
-      console.error('Gemini Live Error:', event);
-      this.emit('error', new Error('WebSocket connection error'));
-    };
+    // 切断時点でバッファ中の発話を確定（再開用の履歴に含める）
+    this.flushPendingTurns();
+    this.isInterrupted = false;
+    this.isReconnecting = true;
+    this.reconnectAttempts++;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(2, this.reconnectAttempts - 1), RECONNECT_MAX_DELAY_MS);
+    console.log(`GeminiLive: Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})`);
+    this.emit('reconnecting', this.reconnectAttempts);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.isClosingIntentionally) return;
+      this.openSocket();
+    }, delay);
+  }
 
-    this.ws.onclose = (event) => {
-      console.log('Gemini Live Closed, code:', event.code, 'reason:', event.reason);
-      this.emit('disconnected');
-    };
+  /**
+   * 再開ハンドルがない場合に、これまでの会話をシステム指示に添えて文脈を復元する
+   * 直近のターンだけを文字数の上限内で送る
+   */
+  private buildResumeContext(): string {
+    const recent = this.conversationLogs.slice(-RESUME_CONTEXT_MAX_TURNS);
+    let history = formatConversationHistory(recent);
+    if (history.length > RESUME_CONTEXT_MAX_CHARS) {
+      history = '…' + history.slice(-RESUME_CONTEXT_MAX_CHARS);
+    }
+    return `
+
+【これまでの会話（通信が途切れたため再接続しました）】
+${history}
+
+【再接続後のルール】
+・挨拶や自己紹介をやり直さず、上の会話の続きとして自然に再開してください。
+・ユーザーが最後に話していた内容に短く触れてから、次の質問をしてください。`;
   }
 
   private sendSetupMessage(instruction?: string) {
-    if (!this.ws) return;
+    if (!this.transport) return;
+
+    // 再接続時：再開ハンドルがあればサーバー側の文脈を引き継ぎ、
+    // なければ会話履歴をシステム指示に添えて送る
+    const resumeContext = this.isReconnecting && !this.resumptionHandle && this.conversationLogs.length > 0
+      ? this.buildResumeContext()
+      : '';
     
     const defaultInstruction = `あなたは日記のための会話相手です。
 ユーザーの今日の出来事や気持ちを、自然に引き出してください。
@@ -248,6 +414,8 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
             thinkingBudget: 0
           }
         },
+        // プッシュトゥトークではサーバー側の発話検出を無効にし、activityStart / activityEnd で区切る
+        ...(this.config.manualActivity ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
         // ユーザー音声のテキスト化を有効化（日記生成用）
         inputAudioTranscription: {},
         // AI音声のテキスト化を有効化（ログ・日記生成用）
@@ -256,20 +424,22 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
         systemInstruction: {
           parts: [
             {
-              text: instruction || defaultInstruction
+              text: (instruction || defaultInstruction) + resumeContext
             }
           ]
-        }
+        },
+        // セッション再開を有効化（切断時に再開ハンドルで文脈を引き継ぐ）
+        sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {}
       }
     };
     
     console.log('Sending setup message...');
-    this.ws.send(JSON.stringify(setupMessage));
+    this.transport.send(JSON.stringify(setupMessage));
   }
 
   // 音声チャンクを送信
   sendAudioChunk(base64Audio: string) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.transport || !this.transport.isOpen) {
       return;  // WebSocketが準備できていない場合は静かにスキップ
     }
     if (!this.setupComplete) {
@@ -281,6 +451,11 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
       return;
     }
 
+    // プッシュトゥトークでは、発話中以外の音声は送らない
+    if (this.config.manualActivity && !this.isActivityActive) {
+      return;
+    }
+
     this.audioChunkCount++;
 
     // Gemini Live API正式フォーマット
@@ -294,17 +469,38 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
       }
     };
 
-    this.ws.send(JSON.stringify(message));
+    this.transport.send(JSON.stringify(message));
+  }
+
+  /**
+   * ユーザーの発話開始を伝える（manualActivity の場合のみ）
+   * 送信一時停止中でも、ユーザーが明示的に話し始めたので再開する
+   */
+  sendActivityStart() {
+    if (!this.config.manualActivity || this.isActivityActive || !this.isReady()) return;
+    this.isActivityActive = true;
+    this.isAudioSendingPaused = false;
+    this.transport!.send(JSON.stringify({ realtimeInput: { activityStart: {} } }));
+  }
+
+  /**
+   * ユーザーの発話終了を伝える（manualActivity の場合のみ）。これを受けてAIが応答する
+   */
+  sendActivityEnd() {
+    if (!this.config.manualActivity || !this.isActivityActive) return;
+    this.isActivityActive = false;
+    if (!this.isReady()) return;
+    this.transport!.send(JSON.stringify({ realtimeInput: { activityEnd: {} } }));
   }
 
   // デバッグ用: 送信状態を取得
   isReady(): boolean {
-    return this.ws !== null && this.ws.readyState === WebSocket.OPEN && this.setupComplete;
+    return this.transport !== null && this.transport.isOpen && this.setupComplete;
   }
 
   // テキストメッセージを送信
   sendText(text: string, recordInHistory: boolean = true) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.transport || !this.transport.isOpen) {
       return;  // WebSocketが準備できていない
     }
     if (!this.setupComplete) {
@@ -323,7 +519,7 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
       }
     };
 
-    this.ws.send(JSON.stringify(message));
+    this.transport.send(JSON.stringify(message));
     
     // 会話履歴に記録（システムプロンプト等は除外可能）
     if (recordInHistory && !text.startsWith('（')) {
@@ -372,7 +568,7 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
    * 質問ではなく、待っている姿勢を示す
    */
   sendLightSilencePrompt() {
-    const prompt = getLightSilencePrompt();
+    const prompt = getLightSilencePrompt(this.config.lightSilencePrompts);
     this.silencePromptCount++;
     // 会話継続のリマインダーを付加
     const fullPrompt = prompt + '\n（重要：会話を終わらせないでください。必ず次の質問をしてください）';
@@ -386,9 +582,11 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
   sendDeepSilencePrompt() {
     // 感情状態に応じたヒントを追加
     const moodHint = this.getMoodHint();
-    const prompt = getDeepSilencePrompt();
+    const prompt = getDeepSilencePrompt(this.config.deepSilencePrompts);
     // 会話継続のリマインダーを付加
-    const reminder = '\n（重要：会話を終わらせないでください。まとめたり、お疋いの言葉を言ったりしないでください。必ず次の質問をしてください）';
+    const reminder = this.isWrappingUp
+      ? '\n（重要：一方的に会話を終わらせず、ユーザーがまだ話したいことがないか、やさしく確認してください）'
+      : '\n（重要：会話を終わらせないでください。まとめたり、お疋いの言葉を言ったりしないでください。必ず次の質問をしてください）';
     const fullPrompt = moodHint ? `${moodHint}\n${prompt}${reminder}` : `${prompt}${reminder}`;
     
     this.silencePromptCount++;
@@ -403,6 +601,19 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
     this.sendDeepSilencePrompt();
   }
 
+  /**
+   * 目安の会話時間が近づいたときに、やさしく振り返りを促す（1回だけ）
+   * 以降は会話継続のリマインダーを送らない
+   */
+  sendWrapUpPrompt() {
+    if (this.isWrappingUp) return;
+    this.isWrappingUp = true;
+    this.sendText(
+      '（システム：そろそろ会話の目安の時間です。今の話を受けとめてから、今日の会話で印象に残ったことを一言で振り返り、「最後に話しておきたいことはありますか？」のようにやさしく聞いてください。ユーザーが話を続けたい場合は、そのまま聞いてください。）',
+      false  // 履歴には記録しない
+    );
+  }
+
   /**
    * 沈黙カウンターをリセット
    */
@@ -411,12 +622,12 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
   }
 
 
-  private async handleMessage(data: any) {
+  private async handleMessage(data: unknown) {
     let message;
     try {
       if (typeof data === 'string') {
         message = JSON.parse(data);
-      } else if (data instanceof Blob) {
+      } else if (typeof Blob !== 'undefined' && data instanceof Blob) {
         // Handle Blob data (React Native case)
         const text = await new Promise<string>((resolve, reject) => {
           const reader = new FileReader();
@@ -425,6 +636,12 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
           reader.readAsText(data);
         });
         message = JSON.parse(text);
+      } else if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        // Node の ws パッケージ（テスト・疑似サーバー）は Buffer で届く
+        const bytes = data instanceof ArrayBuffer
+          ? new Uint8Array(data)
+          : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        message = JSON.parse(Buffer.from(bytes).toString('utf-8'));
       } else {
         return;  // 不明なデータ型は無視
       }
@@ -437,7 +654,31 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
     if (message.setupComplete) {
       console.log('Setup complete!');
       this.setupComplete = true;
-      this.emit('connected');
+      this.hasConnected = true;
+      if (this.isReconnecting) {
+        console.log(`GeminiLive: Reconnected (${this.resumptionHandle ? 'resumed session' : 'replayed history'})`);
+        this.isReconnecting = false;
+        this.reconnectAttempts = 0;
+        this.emit('reconnected');
+      } else {
+        this.emit('connected');
+      }
+      return;
+    }
+
+    // セッション再開ハンドルの更新
+    if (message.sessionResumptionUpdate) {
+      const { newHandle, resumable } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) {
+        this.resumptionHandle = newHandle;
+      }
+      return;
+    }
+
+    // サーバーからの切断予告：接続が切れる前に張り直す
+    if (message.goAway) {
+      console.log('GeminiLive: Received goAway, timeLeft:', message.goAway.timeLeft);
+      this.transport?.close();
       return;
     }
 
@@ -452,19 +693,27 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
         }
         return;
       }
+
+      // サーバー側でユーザーの割り込みを検出した（AIの発話はここで打ち切られる）
+      if (message.serverContent.interrupted) {
+        this.finalizeAiResponse();
+        this.emit('interrupted');
+      }
       
       if (message.serverContent.modelTurn) {
         const parts = message.serverContent.modelTurn.parts;
         if (parts) {
           for (const part of parts) {
             if (part.inlineData) {
+              this.markAiResponseStarted();
               // Audio data - ログなしで再生
               this.emit('audio', part.inlineData.data);
             }
             if (part.text) {
+              this.markAiResponseStarted();
               // テキストを蓄積（turnCompleteで確定）
               this.currentAiResponse += part.text;
-              this.emit('text', part.text);
+              this.emit('text', part.text, this.currentAiResponseStartedAt!);
             }
           }
         }
@@ -478,8 +727,11 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
         const transcriptText = typeof transcription === 'string' ? transcription : transcription.text || '';
         if (transcriptText) {
           // バッファに蓄積（日本語なのでスペースなしで連結）
+          if (this.currentUserInputStartedAt === null) {
+            this.currentUserInputStartedAt = Date.now();
+          }
           this.currentUserInput += transcriptText;
-          this.emit('inputTranscript', transcriptText);
+          this.emit('inputTranscript', transcriptText, this.currentUserInputStartedAt);
         }
       }
       
@@ -489,7 +741,9 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
         const transcriptText = typeof transcription === 'string' ? transcription : transcription.text || '';
         if (transcriptText) {
           // AI応答バッファに蓄積
+          this.markAiResponseStarted();
           this.currentAiResponse += transcriptText;
+          this.emit('outputTranscript', transcriptText, this.currentAiResponseStartedAt!);
         }
       }
       
@@ -499,9 +753,10 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
         this.finalizeAiResponse();
         this.turnCount++;
         
-        // 5ターンごとに会話継続のリマインダーを送信
+        // 数ターンごとに会話継続のリマインダーを送信（振り返りを促した後は送らない）
         // 長時間会話でシステム指示の効果が薄れるのを防止
-        if (this.turnCount > 0 && this.turnCount % 5 === 0) {
+        const reminderInterval = this.config.reminderInterval ?? 5;
+        if (!this.isWrappingUp && this.turnCount > 0 && this.turnCount % reminderInterval === 0) {
           console.log(`CallSession: Sending continuation reminder (turn ${this.turnCount})`);
           // 少し遅延して送信（turnCompleteイベント処理後）
           setTimeout(() => {
@@ -518,11 +773,18 @@ export class GeminiLiveService extends EventEmitter<GeminiLiveEvents> {
   }
 
   disconnect() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    this.isClosingIntentionally = true;
+    this.isReconnecting = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.transport) {
+      this.transport.close();
+      this.transport = null;
     }
     this.setupComplete = false;
     this.isInterrupted = false;
+    this.isActivityActive = false;
   }
 }
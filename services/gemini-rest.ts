@@ -1,126 +1,141 @@
 // services/gemini-rest.ts
 // Gemini REST APIを使用したテキストベースの日記要約生成
 
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
-
-interface JournalData {
-  title: string;
-  summary: string;
-  emotion: 'happy' | 'sad' | 'excited' | 'calm' | 'tired' | 'neutral';
-}
+import { ConversationLog } from '../types/callSession';
+import {
+  DEFAULT_JOURNAL_STYLE,
+  generateValidatedJournal,
+  JOURNAL_JSON_SCHEMA,
+  JournalData,
+  JournalGenerator,
+  JournalStyle,
+  requestWithRetry,
+} from './journal-generator';
+import { ExtractedMemory, extractMemoriesWithPrompt, Memory, MEMORY_JSON_SCHEMA } from './memory';
+import { generateRetrospectiveWithPrompt, RETROSPECTIVE_JSON_SCHEMA, RetrospectiveData } from './retrospective';
+
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+// ふりかえりは複数の項目を出力するため、日記より長めに取る
+const RETROSPECTIVE_MAX_OUTPUT_TOKENS = 1000;
+
+// Gemini の responseSchema は OpenAPI のサブセットのため additionalProperties を含めない（入れ子のオブジェクトも同様）
+const toGeminiSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const { additionalProperties, ...rest } = schema as Record<string, unknown>;
+  return Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, toGeminiSchema(value)]));
+};
 
-export class GeminiRestService {
+export class GeminiRestService implements JournalGenerator {
+  readonly name = 'Gemini';
   private apiKey: string;
+  private model: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
     this.apiKey = apiKey;
+    this.model = model;
   }
 
   /**
    * 会話履歴から日記を生成
    * @param conversationHistory ユーザーとAIの会話履歴（テキスト形式）
+   * @param style 文体
    */
-  async generateJournal(conversationHistory: string): Promise<JournalData> {
-    const prompt = `あなたはユーザーの発言を忠実に記録する書記です。
-以下の会話記録を元に、**事実に基づいた日記**を作成してください。
-
-【会話履歴】
-${conversationHistory}
-
-【厳守ルール - 創作の禁止】
-1. **ユーザーが発言した内容のみ**を記述してください。
-   - 会話に含まれない感想、情景描写、哲学的考察などは一切追加しないでください。
-   - ×「特になにもなかった。淡々と時間が過ぎていった。」（後者は創作なのでNG）
-   - ○「今日は特になにもなかった。」（これだけで良い）
-
-2. **長さの調整**:
-   - 会話が短ければ、日記も短くて構いません。無理に文字数を稼がないでください。
-   - 簡潔な事実の記録を優先してください。
-
-3. **文体**:
-   - 「だ・である」調で統一してください。
-   - AIとしての返答や、AIの感想は含めないでください。
-
-【出力形式】
-以下のJSON形式のみを返してください。
-{
-  "title": "日記のタイトル（事実に基づく15文字以内）",
-  "summary": "日記の本文（会話に出た事実のみ。余計な修飾語は削除）",
-  "emotion": "happy" | "sad" | "excited" | "calm" | "tired" | "neutral"
-}`;
-
-
-    let lastError: any;
-    
-    // リトライロジック（最大3回）
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        console.log(`GeminiRest: Generating journal (Attempt ${attempt}/3)...`);
-        
-        const response = await fetch(`${GEMINI_API_URL}?key=${this.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [{ text: prompt }]
-              }
-            ],
-            generationConfig: {
-              temperature: 0.3,
-              maxOutputTokens: 500,
+  async generateJournal(conversationHistory: string, style: JournalStyle = DEFAULT_JOURNAL_STYLE): Promise<JournalData> {
+    return generateValidatedJournal('GeminiRest', conversationHistory, style, (prompt, format) =>
+      this.complete(prompt, format.schema, format.maxTokens)
+    );
+  }
+
+  /**
+   * 日記から長く覚えておく事実を抜き出す
+   */
+  async extractMemories(entryText: string, knownMemories: Memory[]): Promise<ExtractedMemory[]> {
+    return extractMemoriesWithPrompt('GeminiRest', entryText, knownMemories, prompt => this.complete(prompt, MEMORY_JSON_SCHEMA));
+  }
+
+  /**
+   * 期間内の日記からふりかえりを作成
+   */
+  async generateRetrospective(periodLabel: string, entriesText: string): Promise<RetrospectiveData> {
+    return generateRetrospectiveWithPrompt('GeminiRest', periodLabel, entriesText, prompt =>
+      this.complete(prompt, RETROSPECTIVE_JSON_SCHEMA, RETROSPECTIVE_MAX_OUTPUT_TOKENS)
+    );
+  }
+
+  /**
+   * プロンプトを送信し、応答テキスト（JSON）を返す
+   * responseSchema を指定して出力の形式を指定する（デフォルトは日記データ）
+   */
+  private async complete(prompt: string, schema: object = JOURNAL_JSON_SCHEMA, maxOutputTokens: number = 500): Promise<string> {
+    const data = await requestWithRetry('GeminiRest', () =>
+      fetch(`${GEMINI_API_BASE_URL}/${this.model}:generateContent?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              parts: [{ text: prompt }]
             }
-          }),
-        });
-
-        console.log('GeminiRest: API response status:', response.status);
-        
-        if (!response.ok) {
-           // 4xxエラーはリトライしない（クライアントエラーのため）
-           if (response.status >= 400 && response.status < 500) {
-             const errorText = await response.text();
-             throw new Error(`API Client Error (${response.status}): ${errorText}`);
-           }
-           throw new Error(`API Server Error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-        
-        if (!textResponse) {
-          throw new Error('No text response from API');
-        }
-
-        // JSONを抽出してパース
-        const jsonMatch = textResponse.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          throw new Error('No JSON found in response');
-        }
-
-        const journal = JSON.parse(jsonMatch[0]);
-        return {
-          title: journal.title || '今日の日記',
-          summary: journal.summary || '（要約なし）',
-          emotion: journal.emotion || 'neutral',
-        };
-
-      } catch (error) {
-        console.warn(`GeminiRest: Attempt ${attempt} failed:`, error);
-        lastError = error;
-        
-        if (attempt < 3) {
-          // 指数バックオフ (1s, 2s)
-          const delay = Math.pow(2, attempt - 1) * 1000;
-          console.log(`GeminiRest: Retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
+          ],
+          generationConfig: {
+            temperature: 0.3,
+            maxOutputTokens,
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(schema),
+          }
+        }),
+      })
+    );
+
+    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!textResponse) {
+      throw new Error('No text response from API');
     }
+    return textResponse;
+  }
 
-    console.error('GeminiRest: All attempts failed');
-    throw lastError;
+  /**
+   * テキストチャットでのAIの次の発話を生成
+   */
+  async reply(systemInstruction: string, logs: ConversationLog[]): Promise<string> {
+    const contents = logs.map(log => ({
+      role: log.speaker === 'user' ? 'user' : 'model',
+      parts: [{ text: log.text }]
+    }));
+    // 会話はユーザーの発言から始める必要があるため、AIの挨拶から始まる場合は開始の合図を補う
+    if (contents[0]?.role === 'model') {
+      contents.unshift({ role: 'user', parts: [{ text: '（会話を始めてください）' }] });
+    }
+
+    const data = await requestWithRetry('GeminiRest', () =>
+      fetch(`${GEMINI_API_BASE_URL}/${this.model}:generateContent?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          systemInstruction: {
+            parts: [{ text: systemInstruction }]
+          },
+          contents,
+          generationConfig: {
+            temperature: 0.8,
+            maxOutputTokens: 300,
+          }
+        }),
+      })
+    );
+
+    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!textResponse) {
+      throw new Error('No text response from API');
+    }
+    return textResponse.trim();
   }
 
   /**
@@ -131,16 +146,16 @@ ${conversationHistory}
   }
 }
 
-// シングルトンインスタンス
-let geminiRestInstance: GeminiRestService | null = null;
+// シングルトンインスタンス（モデルごと）
+const geminiRestInstances: Record<string, GeminiRestService> = {};
 
-export const getGeminiRestService = (): GeminiRestService => {
-  if (!geminiRestInstance) {
+export const getGeminiRestService = (model: string = DEFAULT_GEMINI_MODEL): GeminiRestService => {
+  if (!geminiRestInstances[model]) {
     const apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY;
     if (!apiKey) {
       throw new Error('EXPO_PUBLIC_GEMINI_API_KEY is not set');
     }
-    geminiRestInstance = new GeminiRestService(apiKey);
+    geminiRestInstances[model] = new GeminiRestService(apiKey, model);
   }
-  return geminiRestInstance;
+  return geminiRestInstances[model];
 };
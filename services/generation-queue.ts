@@ -0,0 +1,222 @@
+// services/generation-queue.ts
+// 日記生成の待ち行列
+// 通信できずに生成できなかった日記を「作成待ち」として保存し、
+// 通信の回復時・アプリ復帰時にバックグラウンドで再生成して同じ日記を更新する
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { AppState } from 'react-native';
+import { ConversationLog } from '../types/callSession';
+import { formatConversationHistory } from '../utils/transcript';
+import { generateJournalWithSettings, isTransientError } from './journal-generator';
+import { MemoryService } from './memory';
+import { JournalEntry, StorageService } from './storage';
+
+const KEY_QUEUE = 'generation_queue';
+
+// この回数失敗したら自動での再試行をやめ、履歴画面からの手動再試行を待つ
+const MAX_ATTEMPTS = 5;
+
+// 通信中にサーバーエラーで失敗した場合の再試行間隔
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+export interface GenerationJob {
+  entryId: string;
+  enqueuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+let processingPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const isOnline = async (): Promise<boolean> => {
+  const state = await NetInfo.fetch();
+  return state.isConnected !== false && state.isInternetReachable !== false;
+};
+
+export const GenerationQueue = {
+  async getJobs(): Promise<GenerationJob[]> {
+    try {
+      const json = await AsyncStorage.getItem(KEY_QUEUE);
+      return json ? JSON.parse(json) : [];
+    } catch (e) {
+      console.warn('GenerationQueue: Failed to load jobs', e);
+      return [];
+    }
+  },
+
+  async saveJobs(jobs: GenerationJob[]): Promise<void> {
+    await AsyncStorage.setItem(KEY_QUEUE, JSON.stringify(jobs));
+  },
+
+  /**
+   * 日記を「作成待ち」として保存し、待ち行列に追加する
+   * タイトル・本文は生成が完了するまでの仮の内容
+   */
+  async savePendingEntry(entry: JournalEntry, transcript: ConversationLog[]): Promise<void> {
+    await StorageService.saveJournalEntry({ ...entry, status: 'pending' }, transcript);
+    await this.enqueue(entry.id);
+    console.log('GenerationQueue: Saved pending entry', entry.id);
+  },
+
+  async enqueue(entryId: string): Promise<void> {
+    const jobs = await this.getJobs();
+    if (!jobs.some(job => job.entryId === entryId)) {
+      jobs.push({ entryId, enqueuedAt: Date.now(), attempts: 0 });
+      await this.saveJobs(jobs);
+    }
+    notify();
+  },
+
+  /**
+   * 生成に失敗した日記を手動で再試行する（履歴画面から）
+   */
+  async retry(entryId: string): Promise<void> {
+    const entry = await StorageService.getJournalEntry(entryId);
+    if (!entry) return;
+    await StorageService.updateJournalEntry({ ...entry, status: 'pending' });
+    const jobs = (await this.getJobs()).filter(job => job.entryId !== entryId);
+    jobs.push({ entryId, enqueuedAt: Date.now(), attempts: 0 });
+    await this.saveJobs(jobs);
+    notify();
+    await this.processQueue();
+  },
+
+  /**
+   * 待ち行列の日記を順番に生成する
+   * 同時に複数回呼ばれても処理は1つだけ実行する（処理中に追加されたジョブは続けて処理する）
+   */
+  async processQueue(): Promise<void> {
+    if (!processingPromise) {
+      processingPromise = (async () => {
+        while (await this.runJobs()) {
+          console.log('GenerationQueue: Jobs were added while processing, running again');
+        }
+      })().finally(() => {
+        processingPromise = null;
+      });
+    }
+    return processingPromise;
+  },
+
+  /**
+   * 待ち行列を1回分処理する
+   * @returns 処理中に追加（再試行）されたジョブがある場合 true
+   */
+  async runJobs(): Promise<boolean> {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+
+    const jobs = await this.getJobs();
+    if (jobs.length === 0) return false;
+    if (!(await isOnline())) {
+      console.log('GenerationQueue: Offline, waiting for connection');
+      return false;
+    }
+
+    console.log(`GenerationQueue: Processing ${jobs.length} job(s)...`);
+    const remaining: GenerationJob[] = [];
+
+    for (const job of jobs) {
+      const entry = await StorageService.getJournalEntry(job.entryId);
+      if (!entry) {
+        // 日記が削除済みなら何もしない
+        continue;
+      }
+      if (entry.status === 'failed') {
+        // 前回の処理中に再試行された日記（前回の処理で「失敗」に戻っている）
+        await StorageService.updateJournalEntry({ ...entry, status: 'pending' });
+        notify();
+      }
+
+      try {
+        const transcript = await StorageService.getTranscript(job.entryId);
+        if (transcript.length === 0) {
+          throw new Error('Transcript not found');
+        }
+
+        const journal = await generateJournalWithSettings(formatConversationHistory(transcript));
+
+        const { status, ...completed } = entry;
+        const generated = { ...completed, ...journal };
+        await StorageService.updateJournalEntry(generated);
+        console.log('GenerationQueue: Generated journal for', job.entryId);
+        await MemoryService.rememberEntry(generated);
+      } catch (e) {
+        const failedJob = { ...job, attempts: job.attempts + 1, lastError: String(e) };
+        console.warn(`GenerationQueue: Job ${job.entryId} failed (${failedJob.attempts}/${MAX_ATTEMPTS})`, e);
+
+        // 通信の問題でない失敗（設定の誤りなど）は待っても直らないので、すぐに手動の再試行を待つ
+        if (failedJob.attempts >= MAX_ATTEMPTS || !isTransientError(e)) {
+          await StorageService.updateJournalEntry({ ...entry, status: 'failed' });
+        } else {
+          remaining.push(failedJob);
+        }
+      }
+      notify();
+    }
+
+    // 処理中に追加されたジョブを残す
+    // （処理中に手動で再試行された日記は、処理したものより新しいジョブとして追加されている）
+    const latest = await this.getJobs();
+    const processedAt = new Map(jobs.map(job => [job.entryId, job.enqueuedAt]));
+    const added = latest.filter(job => !processedAt.has(job.entryId) || job.enqueuedAt > processedAt.get(job.entryId)!);
+    const addedIds = new Set(added.map(job => job.entryId));
+    const stillRemaining = remaining.filter(job => !addedIds.has(job.entryId));
+    await this.saveJobs([...stillRemaining, ...added]);
+
+    if (added.length > 0) return true;
+    if (stillRemaining.length > 0) {
+      retryTimer = setTimeout(() => this.processQueue(), RETRY_INTERVAL_MS);
+    }
+    return false;
+  },
+
+  /**
+   * 待ち行列の変化（生成完了・失敗など）を購読する
+   * @returns 購読解除関数
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * 通信の回復・アプリの復帰を監視して待ち行列を処理する（アプリ起動時に呼ぶ）
+   * @returns 監視解除関数
+   */
+  start(): () => void {
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') this.processQueue();
+    });
+
+    let wasOnline: boolean | null = null;
+    const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      const online = state.isConnected !== false && state.isInternetReachable !== false;
+      if (online && wasOnline === false) {
+        console.log('GenerationQueue: Connection restored');
+        this.processQueue();
+      }
+      wasOnline = online;
+    });
+
+    this.processQueue();
+
+    return () => {
+      appStateSubscription.remove();
+      unsubscribeNetInfo();
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+    };
+  },
+};
@@ -0,0 +1,590 @@
+// services/journal-generator.ts
+// 会話履歴から日記を生成するLLMプロバイダーの共通インターフェース
+// 使用するプロバイダーは設定画面（UserSettings.llmProvider）で切り替える
+
+import {
+  EMOTION_DEFINITIONS,
+  EMOTIONS,
+  EmotionWithIntensity,
+  isEmotion,
+  MAX_EMOTION_INTENSITY,
+  MAX_SECONDARY_EMOTIONS,
+  MIN_EMOTION_INTENSITY,
+  normalizeIntensity,
+  normalizeSecondaryEmotions,
+} from '../constants/emotions';
+import { ConversationLog, ConversationResult } from '../types/callSession';
+import { MAX_TAGS_PER_ENTRY, normalizeTags, SUGGESTED_TAGS } from '../utils/tags';
+import { formatConversationHistory, HIGHLIGHT_MARK, splitConversationHistory } from '../utils/transcript';
+import { getGeminiRestService } from './gemini-rest';
+import type { ExtractedMemory, Memory } from './memory';
+import type { RetrospectiveData } from './retrospective';
+import { MockJournalGenerator } from './mock-journal-generator';
+import { OpenAICompatibleService } from './openai-compatible';
+import { JournalEntry, StorageService, UserSettings } from './storage';
+
+export type LLMProvider = 'gemini' | 'openai' | 'mock';
+
+/** 日記の文体（設定画面・編集画面の作り直しで選ぶ） */
+export type JournalStyle = 'factual' | 'prose' | 'bullets' | 'futureLetter' | 'gratitude';
+
+export interface JournalData {
+  title: string;
+  summary: string;
+  emotion: JournalEntry['emotion'];
+  emotionIntensity: number;
+  secondaryEmotions: EmotionWithIntensity[];
+  tags: string[];
+}
+
+export interface JournalGenerator {
+  /** プロバイダー名（ログ出力用） */
+  readonly name: string;
+  /**
+   * 会話履歴から日記を生成
+   * @param conversationHistory ユーザーとAIの会話履歴（テキスト形式）
+   * @param style 文体（省略時は DEFAULT_JOURNAL_STYLE）
+   */
+  generateJournal(conversationHistory: string, style?: JournalStyle): Promise<JournalData>;
+  /**
+   * テキストチャットでのAIの次の発話を生成
+   * @param systemInstruction 会話相手としての指示
+   * @param logs これまでの会話（最後はユーザーの発言）
+   */
+  reply(systemInstruction: string, logs: ConversationLog[]): Promise<string>;
+  /**
+   * 日記から長く覚えておく事実を抜き出す（MemoryService から呼ばれる）
+   * @param entryText 日記の内容（テキスト形式）
+   * @param knownMemories すでに覚えている記憶（同じ内容の更新に使う）
+   */
+  extractMemories(entryText: string, knownMemories: Memory[]): Promise<ExtractedMemory[]>;
+  /**
+   * 期間内の日記からふりかえりを作成する（RetrospectiveService から呼ばれる）
+   * @param periodLabel 期間の表示名（例: 「2026年10月」）
+   * @param entriesText 期間内の日記（テキスト形式、古い順）
+   */
+  generateRetrospective(periodLabel: string, entriesText: string): Promise<RetrospectiveData>;
+}
+
+/**
+ * 出力形式の指定（プロバイダーの構造化出力に渡す）
+ */
+export interface CompletionFormat {
+  schema: object;
+  /** スキーマ名（OpenAI互換APIの json_schema.name） */
+  name: string;
+  /** 出力の最大トークン数 */
+  maxTokens: number;
+}
+
+export const LLM_PROVIDERS: { provider: LLMProvider; label: string }[] = [
+  { provider: 'gemini', label: 'Gemini' },
+  { provider: 'openai', label: 'OpenAI互換' },
+  { provider: 'mock', label: 'モック（オフライン）' },
+];
+
+export const JOURNAL_STYLES: { style: JournalStyle; label: string; description: string; instruction: string }[] = [
+  {
+    style: 'factual',
+    label: '事実の記録',
+    description: '話した事実だけを簡潔に記録します',
+    instruction: '「だ・である」調で統一し、話した事実だけを簡潔に書いてください。',
+  },
+  {
+    style: 'prose',
+    label: '日記風',
+    description: '出来事と気持ちを、読み返しやすい文章にします',
+    instruction: '「だ・である」調の一人称の日記として、出来事と気持ちを自然な文章でつないでください。',
+  },
+  {
+    style: 'bullets',
+    label: '箇条書き',
+    description: '出来事を1行ずつの箇条書きにします',
+    instruction: '本文は「・」で始まる短い箇条書きにし、1行に1つの出来事を書いてください。',
+  },
+  {
+    style: 'futureLetter',
+    label: '未来の自分への手紙',
+    description: '未来の自分に語りかける手紙にします',
+    instruction: '本文は「未来の自分へ」で始まる、未来の自分に語りかける「です・ます」調の手紙にしてください。',
+  },
+  {
+    style: 'gratitude',
+    label: '感謝の日記',
+    description: '良かったこと・ありがたかったことを中心にまとめます',
+    instruction: '「だ・である」調で、会話に出た良かったこと・ありがたかったことを中心に書いてください。会話に出ていない感謝は作らないでください。',
+  },
+];
+
+export const DEFAULT_JOURNAL_STYLE: JournalStyle = 'factual';
+
+const getJournalStyleDefinition = (style: JournalStyle) =>
+  JOURNAL_STYLES.find(s => s.style === style) ?? JOURNAL_STYLES[0];
+
+/** タイトルの最大文字数 */
+export const JOURNAL_TITLE_MAX_LENGTH = 15;
+
+/** 不正な出力を修正させる再リクエストの回数 */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/** 日記を生成するのに必要な会話量（文字数） */
+const MIN_CONVERSATION_LENGTH = 30;
+
+/** この文字数を超える会話は、区切って要約してから日記にする */
+const SEGMENT_MAX_LENGTH = 3000;
+
+/** 区切る数の上限（超える場合は1区切りを長くする） */
+const MAX_SEGMENTS = 8;
+
+/** 区切りごとの要約の最大文字数 */
+const SEGMENT_SUMMARY_MAX_LENGTH = 400;
+
+const SEGMENT_SUMMARY_MAX_TOKENS = 800;
+
+/**
+ * 会話の長さに応じた日記の長さの目安（長い会話ほど本文を長くし、出力の上限も上げる）
+ */
+const JOURNAL_LENGTH_GUIDES: { maxHistoryLength: number; guide: string; maxTokens: number }[] = [
+  { maxHistoryLength: 1500, guide: '200文字以内', maxTokens: 500 },
+  { maxHistoryLength: 6000, guide: '200〜400文字程度', maxTokens: 1000 },
+  { maxHistoryLength: Infinity, guide: '400〜800文字程度', maxTokens: 1500 },
+];
+
+const getJournalLengthGuide = (historyLength: number) =>
+  JOURNAL_LENGTH_GUIDES.find(guide => historyLength <= guide.maxHistoryLength) ?? JOURNAL_LENGTH_GUIDES[JOURNAL_LENGTH_GUIDES.length - 1];
+
+/**
+ * 日記生成プロンプト（全プロバイダー共通）
+ */
+export const buildJournalPrompt = (
+  conversationHistory: string,
+  style: JournalStyle = DEFAULT_JOURNAL_STYLE,
+  lengthGuide: string = JOURNAL_LENGTH_GUIDES[0].guide,
+): string => `あなたはユーザーの発言を忠実に記録する書記です。
+以下の会話記録を元に、**事実に基づいた日記**を作成してください。
+
+【会話履歴】
+${conversationHistory}
+
+【厳守ルール - 創作の禁止】
+1. **ユーザーが発言した内容のみ**を記述してください。
+   - 会話に含まれない感想、情景描写、哲学的考察などは一切追加しないでください。
+   - ×「特になにもなかった。淡々と時間が過ぎていった。」（後者は創作なのでNG）
+   - ○「今日は特になにもなかった。」（これだけで良い）
+
+2. **長さの調整**:
+   - 会話が短ければ、日記も短くて構いません。無理に文字数を稼がないでください。
+   - 簡潔な事実の記録を優先してください。
+   - 本文の長さの目安: ${lengthGuide}（会話の内容が少なければ、これより短くて構いません）
+
+3. **文体**:
+   - ${getJournalStyleDefinition(style).instruction}
+   - 文体が変わっても、会話にない出来事・感想・情景描写は加えないでください。
+   - AIとしての返答や、AIの感想は含めないでください。
+
+4. **感情**:
+   - emotion にはユーザーの一番強い感情を、emotionIntensity にはその強さを${MIN_EMOTION_INTENSITY}〜${MAX_EMOTION_INTENSITY}の整数で入れてください。
+   - 他にも感じていた感情があれば secondaryEmotions に${MAX_SECONDARY_EMOTIONS}個以内で入れてください（なければ空の配列）。
+   - 感情の種類: ${EMOTIONS.map(e => `${e}（${EMOTION_DEFINITIONS[e].label}）`).join('、')}
+
+5. **タグ**:
+   - 会話で話題になったことを${MAX_TAGS_PER_ENTRY}個以内の短い単語で付けてください（例: ${SUGGESTED_TAGS.slice(0, 6).join('、')}）。
+   - 会話に登場した人の名前（「田中さん」など）もタグにしてください。
+   - 該当するものがなければ空の配列にしてください。
+
+6. **大切な発言**:
+   - 「${HIGHLIGHT_MARK}」が付いた発言は、ユーザーが日記に必ず残したいと選んだ部分です。省略せずに本文に含めてください。
+   - 「${HIGHLIGHT_MARK}」という目印自体は本文に書かないでください。
+
+【出力形式】
+以下のJSON形式のみを返してください。
+{
+  "title": "日記のタイトル（事実に基づく${JOURNAL_TITLE_MAX_LENGTH}文字以内）",
+  "summary": "日記の本文（会話に出た事実のみ。余計な修飾語は削除）",
+  "emotion": ${EMOTIONS.map(e => `"${e}"`).join(' | ')},
+  "emotionIntensity": ${MIN_EMOTION_INTENSITY}〜${MAX_EMOTION_INTENSITY},
+  "secondaryEmotions": [{ "emotion": "感情の種類", "intensity": ${MIN_EMOTION_INTENSITY}〜${MAX_EMOTION_INTENSITY} }],
+  "tags": ["話題のタグ"]
+}`;
+
+/**
+ * 長い会話の区切りを要約するプロンプト
+ */
+const buildSegmentPrompt = (segment: string, index: number, total: number): string => `あなたはユーザーの発言を忠実に記録する書記です。
+以下は長い会話を時間順に${total}個に区切ったうちの${index + 1}番目です。この部分でユーザーが話した内容を要約してください。
+
+【会話（${index + 1}/${total}）】
+${segment}
+
+【ルール】
+1. ユーザーが発言した事実のみを、話した順に箇条書きで書いてください。AIの発言や、会話にない推測は含めないでください。
+2. 登場した人の名前と、ユーザーが感じていたこと（嬉しい・不安など）は省略せずに残してください。
+3. ${SEGMENT_SUMMARY_MAX_LENGTH}文字以内にしてください。
+4. 「${HIGHLIGHT_MARK}」が付いた発言は必ず要約に含め、行頭に同じ目印を残してください。
+
+【出力形式】
+以下のJSON形式のみを返してください。
+{
+  "summary": "この部分の要約（箇条書き）"
+}`;
+
+const SEGMENT_SUMMARY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: `この部分の要約（${SEGMENT_SUMMARY_MAX_LENGTH}文字以内）` },
+  },
+  required: ['summary'],
+  additionalProperties: false,
+};
+
+/**
+ * 不正な出力を修正させるプロンプト
+ */
+const buildRepairPrompt = (originalPrompt: string, invalidOutput: string, errors: string[]): string => `${originalPrompt}
+
+【前回の出力】
+${invalidOutput}
+
+前回の出力は次の点で形式が正しくありません。
+${errors.map(error => `- ${error}`).join('\n')}
+
+内容は変えずに上記の点だけを修正し、JSONのみを返してください。`;
+
+/**
+ * 日記データのJSONスキーマ（OpenAI互換APIの response_format で使う）
+ * Gemini の responseSchema はこの定義から additionalProperties を除いて使う
+ */
+export const JOURNAL_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: `日記のタイトル（${JOURNAL_TITLE_MAX_LENGTH}文字以内）` },
+    summary: { type: 'string', description: '日記の本文' },
+    emotion: { type: 'string', enum: EMOTIONS },
+    emotionIntensity: { type: 'integer', description: `感情の強さ（${MIN_EMOTION_INTENSITY}〜${MAX_EMOTION_INTENSITY}）` },
+    secondaryEmotions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          emotion: { type: 'string', enum: EMOTIONS },
+          intensity: { type: 'integer', description: `感情の強さ（${MIN_EMOTION_INTENSITY}〜${MAX_EMOTION_INTENSITY}）` },
+        },
+        required: ['emotion', 'intensity'],
+        additionalProperties: false,
+      },
+      description: `他に感じていた感情（${MAX_SECONDARY_EMOTIONS}個以内）`,
+    },
+    tags: { type: 'array', items: { type: 'string' }, description: `話題のタグ（${MAX_TAGS_PER_ENTRY}個以内）` },
+  },
+  required: ['title', 'summary', 'emotion', 'emotionIntensity', 'secondaryEmotions', 'tags'],
+  additionalProperties: false,
+};
+
+export type JournalValidationResult =
+  | { ok: true; journal: JournalData }
+  | { ok: false; errors: string[] };
+
+/**
+ * モデルの出力を検証する
+ * - title: 空でない文字列、JOURNAL_TITLE_MAX_LENGTH 文字以内
+ * - summary: 空でない文字列
+ * - emotion: EMOTIONS のいずれか
+ * - emotionIntensity / secondaryEmotions / tags: 日記の内容には影響しないので検証せず、正規化だけする
+ */
+export const validateJournalData = (raw: unknown): JournalValidationResult => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['JSONオブジェクトではありません'] };
+  }
+
+  const data = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const title = typeof data.title === 'string' ? data.title.trim() : '';
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+
+  if (!title) {
+    errors.push('title が空です');
+  } else if (Array.from(title).length > JOURNAL_TITLE_MAX_LENGTH) {
+    errors.push(`title は${JOURNAL_TITLE_MAX_LENGTH}文字以内にしてください（現在${Array.from(title).length}文字）`);
+  }
+  if (!summary) {
+    errors.push('summary が空です');
+  }
+  const emotion = isEmotion(data.emotion) ? data.emotion : null;
+  if (!emotion) {
+    errors.push(`emotion は ${EMOTIONS.join(', ')} のいずれかにしてください（現在: ${JSON.stringify(data.emotion)}）`);
+  }
+
+  if (errors.length > 0 || !emotion) return { ok: false, errors };
+  return {
+    ok: true,
+    journal: {
+      title,
+      summary,
+      emotion,
+      emotionIntensity: normalizeIntensity(data.emotionIntensity),
+      secondaryEmotions: normalizeSecondaryEmotions(data.secondaryEmotions, emotion),
+      tags: normalizeTags(data.tags),
+    },
+  };
+};
+
+/**
+ * 修正を依頼しても不正なままだった出力を、保存できる形に補正する
+ * 本文がない場合は補正できないのでエラーにする
+ */
+const coerceJournalData = (raw: unknown): JournalData => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  if (!summary) {
+    throw new Error('Generated journal has no summary');
+  }
+  const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : '今日の日記';
+  const emotion = isEmotion(data.emotion) ? data.emotion : 'neutral';
+  return {
+    title: Array.from(title).slice(0, JOURNAL_TITLE_MAX_LENGTH).join(''),
+    summary,
+    emotion,
+    emotionIntensity: normalizeIntensity(data.emotionIntensity),
+    secondaryEmotions: normalizeSecondaryEmotions(data.secondaryEmotions, emotion),
+    tags: normalizeTags(data.tags),
+  };
+};
+
+/**
+ * モデルの応答テキストからJSONを取り出す
+ * スキーマ指定に対応していないモデルが前後に文章を付けた場合にも対応する
+ */
+export const extractJson = (textResponse: string): unknown => {
+  try {
+    return JSON.parse(textResponse);
+  } catch {
+    const jsonMatch = textResponse.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch {
+      return null;
+    }
+  }
+};
+
+/**
+ * 長い会話を時間順に区切って要約し、日記生成プロンプトに渡すテキストにする（map）
+ * 要約を取り出せなかった区切りは会話をそのまま使う
+ */
+const summarizeSegments = async (
+  logPrefix: string,
+  conversationHistory: string,
+  complete: (prompt: string, format: CompletionFormat) => Promise<string>,
+): Promise<string> => {
+  const segmentLength = Math.max(SEGMENT_MAX_LENGTH, Math.ceil(conversationHistory.length / MAX_SEGMENTS));
+  const segments = splitConversationHistory(conversationHistory, segmentLength);
+  console.log(`${logPrefix}: Summarizing long conversation in ${segments.length} segments`);
+
+  const format = { schema: SEGMENT_SUMMARY_JSON_SCHEMA, name: 'segment_summary', maxTokens: SEGMENT_SUMMARY_MAX_TOKENS };
+  const summaries = await Promise.all(segments.map(async (segment, index) => {
+    const parsed = extractJson(await complete(buildSegmentPrompt(segment, index, segments.length), format));
+    const summary = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).summary : null;
+    if (typeof summary === 'string' && summary.trim()) return summary.trim();
+    console.warn(`${logPrefix}: Segment ${index + 1} summary missing, using raw conversation`);
+    return segment;
+  }));
+
+  return [
+    `（長い会話のため、時間順に${segments.length}個に区切って要約したものです）`,
+    ...summaries.map((summary, index) => `【パート${index + 1}/${segments.length}】\n${summary}`),
+  ].join('\n\n');
+};
+
+/**
+ * プロンプトを送信して検証済みの日記を得る（全プロバイダー共通）
+ * 長い会話は区切りごとに要約してから日記にまとめ（map-reduce）、本文の長さは会話の長さに合わせる
+ * 出力が不正な場合はエラー内容を伝えて修正を依頼し、それでも不正なら補正する
+ * @param logPrefix ログ出力用のプロバイダー名
+ * @param complete プロンプトを送信し、モデルの応答テキストを返す関数
+ */
+export const generateValidatedJournal = async (
+  logPrefix: string,
+  conversationHistory: string,
+  style: JournalStyle,
+  complete: (prompt: string, format: CompletionFormat) => Promise<string>,
+): Promise<JournalData> => {
+  const lengthGuide = getJournalLengthGuide(conversationHistory.length);
+  const source = conversationHistory.length > SEGMENT_MAX_LENGTH
+    ? await summarizeSegments(logPrefix, conversationHistory, complete)
+    : conversationHistory;
+  const format = { schema: JOURNAL_JSON_SCHEMA, name: 'journal', maxTokens: lengthGuide.maxTokens };
+
+  const prompt = buildJournalPrompt(source, style, lengthGuide.guide);
+  let output = await complete(prompt, format);
+  let parsed = extractJson(output);
+  let result = validateJournalData(parsed);
+
+  for (let attempt = 1; !result.ok && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`${logPrefix}: Invalid journal output, requesting repair (${attempt}/${MAX_REPAIR_ATTEMPTS})`, result.errors);
+    output = await complete(buildRepairPrompt(prompt, output, result.errors), format);
+    parsed = extractJson(output);
+    result = validateJournalData(parsed);
+  }
+
+  if (result.ok) return result.journal;
+
+  console.warn(`${logPrefix}: Output still invalid after repair, coercing`, result.errors);
+  return coerceJournalData(parsed);
+};
+
+// 応答がない場合に通信エラーとして扱うまでの時間
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+// 通信の回復を待てば成功する見込みがある失敗として印をつける
+const markTransient = (error: unknown): Error => {
+  const transientError = error instanceof Error ? error : new Error(String(error));
+  (transientError as any).transient = true;
+  return transientError;
+};
+
+/**
+ * 通信の回復を待てば成功する見込みがある失敗か（通信エラー・タイムアウト・5xx）
+ * APIキーや設定の誤り・4xx・出力の検証エラーは false（待っても直らない）
+ */
+export const isTransientError = (error: unknown): boolean => (error as any)?.transient === true;
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Request timed out after ${timeoutMs}ms`)), timeoutMs);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+/**
+ * HTTPリクエストをリトライ付きで実行（最大3回、指数バックオフ）
+ * 4xxエラーはクライアントエラーのためリトライしない
+ * 通信エラー・タイムアウト・5xxエラーには isTransientError で判別できる印をつける
+ * @param logPrefix ログ出力用のプロバイダー名
+ * @param request 1回分のリクエスト（成功時はレスポンスのJSONを返す）
+ */
+export const requestWithRetry = async (logPrefix: string, request: () => Promise<Response>): Promise<any> => {
+  let lastError: any;
+
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      console.log(`${logPrefix}: Sending request (Attempt ${attempt}/3)...`);
+      let response: Response;
+      try {
+        response = await withTimeout(request(), REQUEST_TIMEOUT_MS);
+      } catch (networkError) {
+        throw markTransient(networkError);
+      }
+      console.log(`${logPrefix}: API response status:`, response.status);
+
+      if (!response.ok) {
+        if (response.status >= 400 && response.status < 500) {
+          const errorText = await response.text();
+          const clientError = new Error(`API Client Error (${response.status}): ${errorText}`);
+          (clientError as any).noRetry = true;
+          throw clientError;
+        }
+        throw markTransient(new Error(`API Server Error: ${response.status}`));
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.warn(`${logPrefix}: Attempt ${attempt} failed:`, error);
+      lastError = error;
+      if ((error as any)?.noRetry) break;
+
+      if (attempt < 3) {
+        // 指数バックオフ (1s, 2s)
+        const delay = Math.pow(2, attempt - 1) * 1000;
+        console.log(`${logPrefix}: Retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  console.error(`${logPrefix}: All attempts failed`);
+  throw lastError;
+};
+
+/**
+ * 設定に応じたプロバイダーを生成
+ */
+export const createJournalGenerator = (settings: Pick<UserSettings, 'llmProvider' | 'llmBaseUrl' | 'llmModel'>): JournalGenerator => {
+  switch (settings.llmProvider) {
+    case 'openai':
+      if (!settings.llmBaseUrl) {
+        throw new Error('OpenAI互換APIのURLが設定されていません');
+      }
+      return new OpenAICompatibleService(
+        settings.llmBaseUrl,
+        settings.llmModel || undefined,
+        process.env.EXPO_PUBLIC_OPENAI_API_KEY,
+      );
+    case 'mock':
+      return new MockJournalGenerator();
+    case 'gemini':
+    default:
+      return getGeminiRestService(settings.llmModel || undefined);
+  }
+};
+
+/**
+ * 現在の設定で使用するプロバイダーを取得
+ */
+export const getJournalGenerator = async (): Promise<JournalGenerator> => {
+  const settings = await StorageService.getUserSettings();
+  const generator = createJournalGenerator(settings);
+  console.log(`JournalGenerator: Using ${generator.name}`);
+  return generator;
+};
+
+/**
+ * 現在の設定（プロバイダー・文体）で会話履歴から日記を生成
+ * @param style 指定した場合は設定の文体の代わりに使う（編集画面での作り直し）
+ */
+export const generateJournalWithSettings = async (conversationHistory: string, style?: JournalStyle): Promise<JournalData> => {
+  const settings = await StorageService.getUserSettings();
+  const generator = createJournalGenerator(settings);
+  const journalStyle = style ?? settings.journalStyle;
+  console.log(`JournalGenerator: Using ${generator.name} (style: ${journalStyle})`);
+  return generator.generateJournal(conversationHistory, journalStyle);
+};
+
+/**
+ * 会話終了時の日記生成（音声・テキストチャット共通）
+ * 通信の問題で生成できなかった場合は「作成待ち」の仮の日記を返す（GenerationQueue で後から生成する）
+ * それ以外の失敗（APIキー・設定の誤り、4xx、出力の検証エラーなど）は待っても直らないのでそのまま投げる
+ * @param transcript 保存用に整えた会話ログ
+ * @returns 会話が短すぎて日記にできない場合は null
+ */
+export const generateConversationResult = async (transcript: ConversationLog[]): Promise<ConversationResult | null> => {
+  const conversationHistory = formatConversationHistory(transcript);
+  if (conversationHistory.length < MIN_CONVERSATION_LENGTH) {
+    console.log('JournalGenerator: Not enough conversation to generate journal');
+    return null;
+  }
+
+  try {
+    const journal = await generateJournalWithSettings(conversationHistory);
+    console.log('JournalGenerator: Journal generated:', journal.title);
+    return { ...journal, transcript };
+  } catch (error) {
+    console.error('JournalGenerator: Failed to generate journal', error);
+    if (!isTransientError(error)) throw error;
+    return {
+      title: '日記を作成中',
+      summary: '通信が回復したら、会話の記録から自動で日記を作成します。',
+      emotion: 'neutral',
+      transcript,
+      pending: true,
+    };
+  }
+};
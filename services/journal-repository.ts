@@ -0,0 +1,165 @@
+// services/journal-repository.ts
+// 日記データの永続化層
+// SQLite を優先し、利用できない環境では AsyncStorage（従来の単一JSON）にフォールバックする
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ConversationLog } from '../types/callSession';
+import type { JournalEntry } from './storage';
+
+// AsyncStorage 実装で使うキー（SQLite 導入前の保存形式と同じ）
+export const LEGACY_KEYS = {
+  JOURNAL_ENTRIES: 'journal_entries',
+  TRANSCRIPT_PREFIX: 'journal_transcript_',
+};
+
+/**
+ * 日記ストレージの抽象インターフェース
+ * StorageService はこのインターフェースだけを使う
+ */
+export interface JournalRepository {
+  /** 実装名（ログ出力用） */
+  readonly name: string;
+  /** 全件を作成日時の新しい順で取得 */
+  getAll(): Promise<JournalEntry[]>;
+  getById(id: string): Promise<JournalEntry | null>;
+  /** date（YYYY-MM-DD）が範囲内の日記を新しい順で取得（両端を含む） */
+  getByDateRange(startDate: string, endDate: string): Promise<JournalEntry[]>;
+  /** IDが存在すれば更新、なければ追加 */
+  upsert(entry: JournalEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+  /** 全件を置き換える（マイグレーション・インポート用） */
+  replaceAll(entries: JournalEntry[]): Promise<void>;
+
+  getTranscript(entryId: string): Promise<ConversationLog[]>;
+  saveTranscript(entryId: string, transcript: ConversationLog[]): Promise<void>;
+  deleteTranscript(entryId: string): Promise<void>;
+  getAllTranscripts(): Promise<Record<string, ConversationLog[]>>;
+  clearTranscripts(): Promise<void>;
+}
+
+/**
+ * AsyncStorage 実装（フォールバック用）
+ * 全件を1つのJSONとして読み書きする従来方式
+ */
+export class AsyncStorageJournalRepository implements JournalRepository {
+  readonly name = 'AsyncStorage';
+
+  async getAll(): Promise<JournalEntry[]> {
+    const json = await AsyncStorage.getItem(LEGACY_KEYS.JOURNAL_ENTRIES);
+    if (!json) return [];
+    const entries: JournalEntry[] = JSON.parse(json);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getById(id: string): Promise<JournalEntry | null> {
+    const entries = await this.getAll();
+    return entries.find(e => e.id === id) || null;
+  }
+
+  async getByDateRange(startDate: string, endDate: string): Promise<JournalEntry[]> {
+    const entries = await this.getAll();
+    return entries.filter(e => e.date.slice(0, 10) >= startDate && e.date.slice(0, 10) <= endDate);
+  }
+
+  async upsert(entry: JournalEntry): Promise<void> {
+    const current = await this.getAll();
+    const exists = current.some(e => e.id === entry.id);
+    const updated = exists
+      ? current.map(e => e.id === entry.id ? entry : e)
+      : [entry, ...current];
+    await AsyncStorage.setItem(LEGACY_KEYS.JOURNAL_ENTRIES, JSON.stringify(updated));
+  }
+
+  async delete(id: string): Promise<void> {
+    const current = await this.getAll();
+    await AsyncStorage.setItem(LEGACY_KEYS.JOURNAL_ENTRIES, JSON.stringify(current.filter(e => e.id !== id)));
+  }
+
+  async replaceAll(entries: JournalEntry[]): Promise<void> {
+    await AsyncStorage.setItem(LEGACY_KEYS.JOURNAL_ENTRIES, JSON.stringify(entries));
+  }
+
+  async getTranscript(entryId: string): Promise<ConversationLog[]> {
+    const json = await AsyncStorage.getItem(LEGACY_KEYS.TRANSCRIPT_PREFIX + entryId);
+    return json ? JSON.parse(json) : [];
+  }
+
+  async saveTranscript(entryId: string, transcript: ConversationLog[]): Promise<void> {
+    await AsyncStorage.setItem(LEGACY_KEYS.TRANSCRIPT_PREFIX + entryId, JSON.stringify(transcript));
+  }
+
+  async deleteTranscript(entryId: string): Promise<void> {
+    await AsyncStorage.removeItem(LEGACY_KEYS.TRANSCRIPT_PREFIX + entryId);
+  }
+
+  async getAllTranscripts(): Promise<Record<string, ConversationLog[]>> {
+    const keys = await getLegacyTranscriptKeys();
+    const pairs = await AsyncStorage.multiGet(keys);
+    const transcripts: Record<string, ConversationLog[]> = {};
+    pairs.forEach(([key, json]) => {
+      if (json) transcripts[key.slice(LEGACY_KEYS.TRANSCRIPT_PREFIX.length)] = JSON.parse(json);
+    });
+    return transcripts;
+  }
+
+  async clearTranscripts(): Promise<void> {
+    await AsyncStorage.multiRemove(await getLegacyTranscriptKeys());
+  }
+}
+
+const getLegacyTranscriptKeys = async (): Promise<string[]> =>
+  (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(LEGACY_KEYS.TRANSCRIPT_PREFIX));
+
+/**
+ * AsyncStorage に残っている日記・会話ログを新しいリポジトリへ移す（一度だけ）
+ * 移行に成功したら AsyncStorage 側のデータを削除する
+ */
+const moveLegacyData = async (target: JournalRepository): Promise<void> => {
+  const legacy = new AsyncStorageJournalRepository();
+  const entriesJson = await AsyncStorage.getItem(LEGACY_KEYS.JOURNAL_ENTRIES);
+  const transcriptKeys = await getLegacyTranscriptKeys();
+  if (entriesJson === null && transcriptKeys.length === 0) return;
+
+  console.log(`JournalRepository: Moving legacy data to ${target.name}...`);
+  const parsed = entriesJson ? JSON.parse(entriesJson) : [];
+  const entries: JournalEntry[] = Array.isArray(parsed) ? parsed : [];
+  const transcripts = await legacy.getAllTranscripts();
+
+  // 既存データがあれば統合（途中で失敗した移行の再実行にも対応）
+  const existing = await target.getAll();
+  const merged = new Map(existing.map(e => [e.id, e]));
+  entries.forEach(e => merged.set(String(e.id), e));
+  await target.replaceAll(Array.from(merged.values()));
+  for (const [entryId, transcript] of Object.entries(transcripts)) {
+    await target.saveTranscript(entryId, transcript);
+  }
+
+  await AsyncStorage.removeItem(LEGACY_KEYS.JOURNAL_ENTRIES);
+  await legacy.clearTranscripts();
+  console.log(`JournalRepository: Moved ${entries.length} entries and ${Object.keys(transcripts).length} transcripts`);
+};
+
+let repositoryPromise: Promise<JournalRepository> | null = null;
+
+const createRepository = async (): Promise<JournalRepository> => {
+  try {
+    // 遅延読み込み（ネイティブモジュールがない環境でもフォールバックできるように）
+    const { SQLiteJournalRepository } = await import('./sqlite-journal-repository');
+    const repository = await SQLiteJournalRepository.open();
+    await moveLegacyData(repository);
+    return repository;
+  } catch (e) {
+    console.warn('JournalRepository: SQLite unavailable, falling back to AsyncStorage', e);
+    return new AsyncStorageJournalRepository();
+  }
+};
+
+/**
+ * 使用するリポジトリを取得（初回呼び出し時に初期化）
+ */
+export const getJournalRepository = (): Promise<JournalRepository> => {
+  if (!repositoryPromise) {
+    repositoryPromise = createRepository();
+  }
+  return repositoryPromise;
+};
@@ -0,0 +1,47 @@
+// services/live-transport.ts
+// Gemini Live API との通信路の抽象化
+// アプリでは WebSocket を使い、テストでは ws パッケージやローカルの疑似サーバーに差し替える
+
+export interface LiveTransportHandlers {
+  onOpen: () => void;
+  /** 受信データ（文字列・Blob・ArrayBuffer・Buffer のいずれか） */
+  onMessage: (data: unknown) => void;
+  onError: (error: unknown) => void;
+  onClose: (code: number, reason: string) => void;
+}
+
+/**
+ * 1本の接続を表す
+ * 接続はファクトリで作成した時点で開始する
+ */
+export interface LiveTransport {
+  /** 送信可能な状態か */
+  readonly isOpen: boolean;
+  send(data: string): void;
+  close(): void;
+}
+
+export type LiveTransportFactory = (url: string, handlers: LiveTransportHandlers) => LiveTransport;
+
+/**
+ * 標準の WebSocket による実装（React Native / ブラウザ）
+ */
+export const createWebSocketTransport: LiveTransportFactory = (url, handlers) => {
+  const ws = new WebSocket(url);
+
+  // React Native WebSocket requires binaryType to be set for proper blob handling
+  ws.binaryType = 'blob';
+
+  ws.onopen = () => handlers.onOpen();
+  ws.onmessage = (event) => handlers.onMessage(event.data);
+  ws.onerror = (event) => handlers.onError(event);
+  ws.onclose = (event) => handlers.onClose(event.code, event.reason);
+
+  return {
+    get isOpen() {
+      return ws.readyState === WebSocket.OPEN;
+    },
+    send: (data) => ws.send(data),
+    close: () => ws.close(),
+  };
+};
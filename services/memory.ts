@@ -0,0 +1,329 @@
+// services/memory.ts
+// AIの長期記憶
+// 日記を保存するたびに、今後の会話で覚えておくべき事実（人物・続いている取り組み・目標・悩み）を抜き出して保存し、
+// 会話開始時に関連の高いものを文字数の上限内でシステム指示に含める
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { extractJson, getJournalGenerator } from './journal-generator';
+import { JournalEntry, StorageService } from './storage';
+
+const KEY_MEMORIES = 'ai_memories';
+
+export type MemoryKind = 'person' | 'project' | 'goal' | 'worry';
+
+export const MEMORY_KINDS: { kind: MemoryKind; label: string; description: string }[] = [
+  { kind: 'person', label: '人物', description: '日記に登場する人と、ユーザーとの関係' },
+  { kind: 'project', label: '取り組み', description: '続いている取り組みや出来事' },
+  { kind: 'goal', label: '目標', description: 'ユーザーの目標や、やりたいこと' },
+  { kind: 'worry', label: '悩み', description: '繰り返し気にしている悩み・心配事' },
+];
+
+export interface Memory {
+  id: string;
+  kind: MemoryKind;
+  /** 覚えている内容（1文） */
+  content: string;
+  /** 関連する記憶を探すための短い単語 */
+  keywords: string[];
+  /** この記憶のもとになった日記 */
+  sourceEntryIds: string[];
+  /** 話題になった回数 */
+  mentionCount: number;
+  createdAt: number;
+  /** 最後に話題になった日時 */
+  updatedAt: number;
+}
+
+/** 日記から抜き出した記憶（モデルの出力） */
+export interface ExtractedMemory {
+  kind: MemoryKind;
+  content: string;
+  keywords: string[];
+  /** 更新するすでに覚えている記憶のID（新しい記憶なら空文字） */
+  replaces: string;
+}
+
+/** システム指示に含める記憶の文字数の上限 */
+export const MEMORY_PROMPT_BUDGET = 800;
+
+/** 保存する記憶の最大数（超えたら最後に話題になった日時が古いものから削除） */
+const MAX_MEMORIES = 200;
+
+/** 抽出時にモデルに渡すすでに覚えている記憶の数 */
+const MAX_KNOWN_MEMORIES_FOR_EXTRACTION = 30;
+
+const MEMORY_CONTENT_MAX_LENGTH = 40;
+const MAX_KEYWORDS = 3;
+
+/** 関連度の計算で新しさが半分になる期間 */
+const RECENCY_HALF_LIFE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const isMemoryKind = (value: unknown): value is MemoryKind =>
+  MEMORY_KINDS.some(({ kind }) => kind === value);
+
+export const getMemoryKindLabel = (kind: MemoryKind): string =>
+  MEMORY_KINDS.find(k => k.kind === kind)?.label ?? kind;
+
+/**
+ * 記憶抽出用に日記をテキストにする
+ */
+const formatEntryForExtraction = (entry: JournalEntry): string => [
+  `日付: ${entry.date}`,
+  `タイトル: ${entry.title}`,
+  `本文: ${entry.summary}`,
+  entry.tags?.length ? `タグ: ${entry.tags.join('、')}` : null,
+].filter(Boolean).join('\n');
+
+/**
+ * 記憶抽出プロンプト（全プロバイダー共通）
+ */
+export const buildMemoryPrompt = (entryText: string, knownMemories: Memory[]): string => `あなたはユーザーの日記から、今後の会話で覚えておくべき事実を抜き出す記録係です。
+
+【今回の日記】
+${entryText}
+
+【すでに覚えていること】
+${knownMemories.length > 0 ? knownMemories.map(memory => `${memory.id}: [${memory.kind}] ${memory.content}`).join('\n') : '（なし）'}
+
+【抜き出す対象】
+${MEMORY_KINDS.map(({ kind, description }) => `- ${kind}: ${description}`).join('\n')}
+
+【ルール】
+1. その日だけの出来事（「今日はカレーを食べた」など）は含めないでください。
+2. 日記に書かれていない推測は含めないでください。
+3. すでに覚えていることが今回も話題になった場合は、replaces にそのIDを入れて出力してください（状況が変わっていれば新しい内容にしてください）。
+4. 新しく覚えることは replaces を空文字にしてください。
+5. content は${MEMORY_CONTENT_MAX_LENGTH}文字以内の1文、keywords は検索に使う短い単語を${MAX_KEYWORDS}つまでにしてください。
+6. 該当するものがなければ空の配列にしてください。
+
+【出力形式】
+以下のJSON形式のみを返してください。
+{
+  "memories": [
+    { "kind": ${MEMORY_KINDS.map(({ kind }) => `"${kind}"`).join(' | ')}, "content": "覚えておく内容", "keywords": ["単語"], "replaces": "" }
+  ]
+}`;
+
+/**
+ * 記憶抽出のJSONスキーマ（OpenAI互換APIの response_format・Gemini の responseSchema）
+ */
+export const MEMORY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    memories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: MEMORY_KINDS.map(({ kind }) => kind) },
+          content: { type: 'string', description: `覚えておく内容（${MEMORY_CONTENT_MAX_LENGTH}文字以内）` },
+          keywords: { type: 'array', items: { type: 'string' } },
+          replaces: { type: 'string', description: '更新する記憶のID（新しい記憶なら空文字）' },
+        },
+        required: ['kind', 'content', 'keywords', 'replaces'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['memories'],
+  additionalProperties: false,
+};
+
+/**
+ * モデルの出力から記憶を取り出す（不正な項目は読み飛ばす）
+ */
+export const parseExtractedMemories = (raw: unknown): ExtractedMemory[] => {
+  const items = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).memories : null;
+  if (!Array.isArray(items)) return [];
+
+  const memories: ExtractedMemory[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const { kind, content, keywords, replaces } = item as Record<string, unknown>;
+    const text = typeof content === 'string' ? content.trim() : '';
+    if (!isMemoryKind(kind) || !text) continue;
+    memories.push({
+      kind,
+      content: Array.from(text).slice(0, MEMORY_CONTENT_MAX_LENGTH).join(''),
+      keywords: Array.isArray(keywords)
+        ? keywords.filter((k): k is string => typeof k === 'string' && k.trim() !== '').map(k => k.trim()).slice(0, MAX_KEYWORDS)
+        : [],
+      replaces: typeof replaces === 'string' ? replaces.trim() : '',
+    });
+  }
+  return memories;
+};
+
+/**
+ * プロンプトを送信して日記から記憶を抜き出す（全プロバイダー共通）
+ * @param complete プロンプトを送信し、モデルの応答テキストを返す関数
+ */
+export const extractMemoriesWithPrompt = async (
+  logPrefix: string,
+  entryText: string,
+  knownMemories: Memory[],
+  complete: (prompt: string) => Promise<string>,
+): Promise<ExtractedMemory[]> => {
+  const output = await complete(buildMemoryPrompt(entryText, knownMemories));
+  const memories = parseExtractedMemories(extractJson(output));
+  console.log(`${logPrefix}: Extracted ${memories.length} memory item(s)`);
+  return memories;
+};
+
+// 記憶のキーワードが文脈に含まれる数
+const countKeywordMatches = (memory: Memory, contextText: string): number =>
+  [...memory.keywords, memory.content].filter(keyword => keyword && contextText.includes(keyword)).length;
+
+/**
+ * 記憶の優先度（文脈との関連・新しさ・話題になった回数）
+ */
+const scoreMemory = (memory: Memory, contextText: string, now: number): number => {
+  const relevance = countKeywordMatches(memory, contextText);
+  const recency = Math.pow(0.5, (now - memory.updatedAt) / RECENCY_HALF_LIFE_MS);
+  const frequency = Math.log2(1 + memory.mentionCount);
+  return relevance * 2 + recency + frequency * 0.5;
+};
+
+/**
+ * システム指示に含める1行
+ */
+export const formatMemoryForPrompt = (memory: Memory): string => {
+  const d = new Date(memory.updatedAt);
+  const date = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  return `- [${getMemoryKindLabel(memory.kind)}] ${memory.content}（${date}）`;
+};
+
+/**
+ * 抜き出した記憶をすでに覚えている記憶に反映する（引数は変更しない）
+ */
+const mergeMemories = (current: Memory[], extracted: ExtractedMemory[], entryId: string, now: number): Memory[] => {
+  const memories = current.map(memory => ({ ...memory }));
+
+  extracted.forEach((item, index) => {
+    const existing = memories.find(memory => memory.id === item.replaces)
+      ?? memories.find(memory => memory.kind === item.kind && memory.content === item.content);
+
+    if (existing) {
+      existing.content = item.content;
+      existing.keywords = item.keywords.length > 0 ? item.keywords : existing.keywords;
+      if (!existing.sourceEntryIds.includes(entryId)) {
+        existing.sourceEntryIds = [...existing.sourceEntryIds, entryId];
+        existing.mentionCount += 1;
+      }
+      existing.updatedAt = now;
+      return;
+    }
+
+    memories.push({
+      id: `${now}-${index}`,
+      kind: item.kind,
+      content: item.content,
+      keywords: item.keywords,
+      sourceEntryIds: [entryId],
+      mentionCount: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  return memories
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_MEMORIES);
+};
+
+export const MemoryService = {
+  /**
+   * 覚えている記憶を新しい順で取得
+   */
+  async getAll(): Promise<Memory[]> {
+    try {
+      const json = await AsyncStorage.getItem(KEY_MEMORIES);
+      const memories: Memory[] = json ? JSON.parse(json) : [];
+      return memories.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (e) {
+      console.warn('MemoryService: Failed to load memories', e);
+      return [];
+    }
+  },
+
+  async saveAll(memories: Memory[]): Promise<void> {
+    await AsyncStorage.setItem(KEY_MEMORIES, JSON.stringify(memories));
+  },
+
+  async delete(id: string): Promise<void> {
+    const memories = await this.getAll();
+    await this.saveAll(memories.filter(memory => memory.id !== id));
+  },
+
+  async clear(): Promise<void> {
+    await AsyncStorage.removeItem(KEY_MEMORIES);
+  },
+
+  /**
+   * 保存した日記から記憶を抜き出して保存する
+   * 日記の保存を妨げないよう、失敗してもエラーにしない（呼び出し側は待たなくてよい）
+   */
+  async rememberEntry(entry: JournalEntry): Promise<void> {
+    if (entry.status) return;
+    try {
+      const entryText = formatEntryForExtraction(entry);
+      const current = await this.getAll();
+      // 今回の日記に関係しそうなものを優先して渡す
+      const known = [...current]
+        .sort((a, b) => countKeywordMatches(b, entryText) - countKeywordMatches(a, entryText))
+        .slice(0, MAX_KNOWN_MEMORIES_FOR_EXTRACTION);
+
+      const generator = await getJournalGenerator();
+      const extracted = await generator.extractMemories(entryText, known);
+      if (extracted.length === 0) return;
+
+      // 抽出中に日記が削除された場合は、削除した日記の内容を覚えない
+      if (!(await StorageService.getJournalEntry(entry.id))) return;
+
+      // 抽出中に削除された記憶を復活させないよう、最新の状態に反映する
+      const latest = await this.getAll();
+      await this.saveAll(mergeMemories(latest, extracted, entry.id, Date.now()));
+      console.log(`MemoryService: Remembered ${extracted.length} item(s) from entry ${entry.id}`);
+    } catch (e) {
+      console.warn('MemoryService: Failed to extract memories', e);
+    }
+  },
+
+  /**
+   * 削除した日記を記憶のもとから外す
+   * もとになった日記がすべて削除された記憶は、今後の会話に含めないよう削除する
+   */
+  async forgetEntries(entryIds: string[]): Promise<void> {
+    if (entryIds.length === 0) return;
+    const removed = new Set(entryIds);
+    const memories = await this.getAll();
+    const remaining = memories
+      .map(memory => ({ ...memory, sourceEntryIds: memory.sourceEntryIds.filter(id => !removed.has(id)) }))
+      .filter(memory => memory.sourceEntryIds.length > 0);
+    await this.saveAll(remaining);
+    console.log(`MemoryService: Forgot ${memories.length - remaining.length} memory item(s) from deleted entries`);
+  },
+
+  /**
+   * 会話に含める記憶を関連の高い順に選ぶ
+   * @param contextText 関連度の判定に使う文脈（最近の日記・プロフィールなど）
+   * @param budget システム指示に含める文字数の上限
+   */
+  async retrieve(contextText: string, budget: number = MEMORY_PROMPT_BUDGET): Promise<Memory[]> {
+    const memories = await this.getAll();
+    const now = Date.now();
+    const ranked = memories
+      .map(memory => ({ memory, score: scoreMemory(memory, contextText, now) }))
+      .sort((a, b) => b.score - a.score);
+
+    const selected: Memory[] = [];
+    let used = 0;
+    for (const { memory } of ranked) {
+      const length = formatMemoryForPrompt(memory).length + 1;
+      if (used + length > budget) continue;
+      selected.push(memory);
+      used += length;
+    }
+    return selected;
+  },
+};
@@ -0,0 +1,174 @@
+// services/migrations.ts
+// 端末内データのスキーマバージョン管理
+// 保存済みの JournalEntry / UserSettings を起動時に1段階ずつ最新形式へ引き上げる
+
+import { isEmotion, normalizeIntensity, normalizeSecondaryEmotions } from '../constants/emotions';
+import { normalizeTags } from '../utils/tags';
+
+/**
+ * 現在のスキーマバージョン
+ * 保存形式を変更したら値を上げ、MIGRATIONS に対応するステップを追加する
+ * exportDataAsJson の version もこの値を使う
+ *
+ * ステップが必要なのは、保存済みの値の意味や形式が変わる場合
+ * - 日記の任意項目の追加：項目がないこと自体が「未設定」を表すので不要（形式の検証は v2 で行う）
+ * - 設定の追加：読み込み時に DEFAULT_SETTINGS と合わせて既定値を補うので不要
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/** バージョン管理導入前のデータ（schema_version キーが存在しない） */
+export const LEGACY_SCHEMA_VERSION = 0;
+
+/**
+ * マイグレーション対象のデータ
+ * 型が保証されない保存形式そのままの値を扱う
+ */
+export interface StoredData {
+  settings: Record<string, unknown> | null;
+  entries: Record<string, unknown>[];
+}
+
+export interface Migration {
+  /** このステップを適用した後のバージョン */
+  version: number;
+  /** ログ出力用の説明 */
+  description: string;
+  /** 1つ前のバージョンのデータを受け取り、新しいデータを返す（引数は変更しない） */
+  migrate: (data: StoredData) => StoredData;
+}
+
+const VALID_EMOTIONS = ['happy', 'sad', 'excited', 'calm', 'tired', 'neutral'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const toLocalDateString = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * v0 -> v1: バージョン管理導入前の日記を正規化
+ * - id / createdAt / date の欠落を補完
+ * - 想定外の emotion を neutral に置き換え
+ * - title / summary を文字列に揃える
+ */
+const normalizeLegacyEntry = (raw: Record<string, unknown>, index: number): Record<string, unknown> => {
+  const parsedDate = typeof raw.date === 'string' ? new Date(raw.date).getTime() : NaN;
+  const createdAt = isFiniteNumber(raw.createdAt)
+    ? raw.createdAt
+    : Number.isFinite(parsedDate) ? parsedDate : Date.now() - index;
+
+  const entry: Record<string, unknown> = {
+    ...raw,
+    id: raw.id !== undefined && raw.id !== null && String(raw.id) !== '' ? String(raw.id) : `${createdAt}-${index}`,
+    date: typeof raw.date === 'string' && raw.date ? raw.date : toLocalDateString(createdAt),
+    title: typeof raw.title === 'string' ? raw.title : '今日の日記',
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    emotion: typeof raw.emotion === 'string' && VALID_EMOTIONS.includes(raw.emotion) ? raw.emotion : 'neutral',
+    createdAt,
+  };
+
+  if (!isFiniteNumber(entry.duration)) {
+    delete entry.duration;
+  }
+  return entry;
+};
+
+/**
+ * v1 -> v2: v1 以降に追加した日記の任意項目の形式を揃える
+ * （タグ・感情の強さ・副次的な感情・作成状況・会話ログの有無・発話時間・録音・更新日時）
+ * 形式が正しくない項目は「未設定」として取り除く。古いバックアップの取り込みにも適用される
+ */
+const normalizeOptionalEntryFields = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const entry: Record<string, unknown> = { ...raw };
+  const emotion = isEmotion(entry.emotion) ? entry.emotion : 'neutral';
+  entry.emotion = emotion;
+
+  if (entry.tags !== undefined) {
+    const tags = normalizeTags(entry.tags);
+    if (tags.length > 0) entry.tags = tags;
+    else delete entry.tags;
+  }
+  if (entry.emotionIntensity !== undefined) {
+    if (isFiniteNumber(entry.emotionIntensity)) entry.emotionIntensity = normalizeIntensity(entry.emotionIntensity);
+    else delete entry.emotionIntensity;
+  }
+  if (entry.secondaryEmotions !== undefined) {
+    const secondaryEmotions = normalizeSecondaryEmotions(entry.secondaryEmotions, emotion);
+    if (secondaryEmotions.length > 0) entry.secondaryEmotions = secondaryEmotions;
+    else delete entry.secondaryEmotions;
+  }
+  if (entry.status !== 'pending' && entry.status !== 'failed') {
+    delete entry.status;
+  }
+  if (entry.hasTranscript !== true) {
+    delete entry.hasTranscript;
+  }
+  if (!isFiniteNumber(entry.duration) || entry.duration < 0) {
+    delete entry.duration;
+  }
+  if (!isFiniteNumber(entry.updatedAt)) {
+    delete entry.updatedAt;
+  }
+  const talkTime = entry.talkTime;
+  if (!isRecord(talkTime) || !isFiniteNumber(talkTime.userSeconds) || !isFiniteNumber(talkTime.aiSeconds)) {
+    delete entry.talkTime;
+  }
+  const audio = entry.audio;
+  if (!isRecord(audio) || typeof audio.fileName !== 'string' || !audio.fileName ||
+      !isFiniteNumber(audio.startedAt) || !isFiniteNumber(audio.durationMs)) {
+    delete entry.audio;
+  } else {
+    entry.audio = { ...audio, includesAi: audio.includesAi === true };
+  }
+  return entry;
+};
+
+/**
+ * マイグレーション一覧（version 昇順）
+ * 一度リリースしたステップは書き換えず、新しいステップを末尾に追加すること
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'バージョン管理導入前のデータを正規化',
+    migrate: ({ settings, entries }) => ({
+      settings: isRecord(settings) ? { ...settings } : null,
+      entries: entries
+        .filter(isRecord)
+        .map(normalizeLegacyEntry),
+    }),
+  },
+  {
+    version: 2,
+    description: '日記の任意項目（タグ・感情の強さ・録音など）の形式を揃える',
+    migrate: ({ settings, entries }) => ({
+      settings,
+      entries: entries.map(normalizeOptionalEntryFields),
+    }),
+  },
+];
+
+/**
+ * 指定バージョンのデータを最新バージョンまで引き上げる
+ * 保存処理は行わない（呼び出し側が結果を書き戻す）
+ * @param data 保存形式そのままのデータ
+ * @param fromVersion データのスキーマバージョン
+ */
+export const migrateData = (data: StoredData, fromVersion: number): StoredData => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Schema version ${fromVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => {
+      console.log(`Migrations: Applying v${migration.version} (${migration.description})`);
+      return migration.migrate(current);
+    }, data);
+};
@@ -0,0 +1,157 @@
+// services/mock-journal-generator.ts
+// ネットワークを使わない日記生成（開発・オフライン動作確認用）
+// 同じ会話履歴からは常に同じ日記を返す
+
+import { DEFAULT_EMOTION_INTENSITY, MAX_EMOTION_INTENSITY, MAX_SECONDARY_EMOTIONS } from '../constants/emotions';
+import { ConversationLog } from '../types/callSession';
+import { normalizeTags } from '../utils/tags';
+import { HIGHLIGHT_MARK } from '../utils/transcript';
+import { DEFAULT_JOURNAL_STYLE, JOURNAL_TITLE_MAX_LENGTH, JournalData, JournalGenerator, JournalStyle } from './journal-generator';
+import type { ExtractedMemory, Memory, MemoryKind } from './memory';
+import type { RetrospectiveData } from './retrospective';
+
+// 感情ごとのキーワード（最初に一致したものを主な感情、残りを副次的な感情として採用）
+const EMOTION_KEYWORDS: [JournalData['emotion'], string[]][] = [
+  ['excited', ['楽しみ', 'ワクワク', 'わくわく', '最高', 'すごい']],
+  ['happy', ['嬉しい', 'うれしい', '楽しかった', '良かった', 'よかった']],
+  ['sad', ['悲しい', 'かなしい', '辛い', 'つらい', '寂しい']],
+  ['frustrated', ['イライラ', 'むかつ', 'ムカ', '腹立', '最悪']],
+  ['anxious', ['不安', '心配', 'どうしよう', '緊張']],
+  ['tired', ['疲れ', 'つかれ', '眠い', 'ねむい', 'だるい']],
+  ['calm', ['のんびり', 'ゆっくり', '落ち着', 'リラックス']],
+];
+
+// タグごとのキーワード（一致したものをすべて採用）
+const TAG_KEYWORDS: [string, string[]][] = [
+  ['仕事', ['仕事', '会社', '会議', '上司', '残業', '職場']],
+  ['家族', ['家族', '母', '父', '妻', '夫', '子ども', '子供', '息子', '娘']],
+  ['健康', ['病院', '風邪', '体調', '頭痛', '運動', 'ジム']],
+  ['趣味', ['趣味', 'ゲーム', '映画', '読書', '音楽', '散歩']],
+  ['友人', ['友達', '友人', '同僚']],
+  ['食事', ['ご飯', 'ランチ', '夕食', '料理', 'カフェ']],
+];
+
+// 「〇〇さん」を人の名前として扱う
+const PERSON_PATTERN = /([一-龯ぁ-んァ-ヶー]{1,6})さん/g;
+
+// 記憶として抜き出す文のキーワード（人物は PERSON_PATTERN で判定）
+const MEMORY_KEYWORDS: [MemoryKind, string[]][] = [
+  ['goal', ['したい', '目標', '頑張りたい', 'なりたい']],
+  ['worry', ['心配', '不安', '悩', '気になる']],
+  ['project', ['準備', '進めて', '続けて', '練習']],
+];
+
+// ふりかえり用の日記の1行（「- 日付（感情…）タイトル: 本文 #タグ」）
+const RETROSPECTIVE_LINE_PATTERN = /^- (\S+)（([^・）]+)[^）]*）(.*?): /;
+
+// テキストチャットの応答（ユーザーの発言回数に応じて順番に返す）
+const MOCK_REPLIES = [
+  'そうだったんですね。それはお仕事のことですか？それともプライベートのことですか？',
+  'なるほど。そのとき、どんな気持ちでしたか？嬉しかったですか？それとも大変でしたか？',
+  'えー、詳しく聞かせてください。誰かと一緒でしたか？それとも一人でしたか？',
+  'そうなんですね。他に何か印象に残ったことはありましたか？',
+];
+
+export class MockJournalGenerator implements JournalGenerator {
+  readonly name = 'Mock';
+
+  async reply(systemInstruction: string, logs: ConversationLog[]): Promise<string> {
+    const userTurns = logs.filter(log => log.speaker === 'user').length;
+    return MOCK_REPLIES[Math.max(0, userTurns - 1) % MOCK_REPLIES.length];
+  }
+
+  async extractMemories(entryText: string, knownMemories: Memory[]): Promise<ExtractedMemory[]> {
+    // 本文を文に分け、キーワードを含む文をそのまま記憶にする
+    const summary = entryText.split('\n').find(line => line.startsWith('本文: '))?.slice('本文: '.length) ?? '';
+    const sentences = summary.split(/[。！？\n]/).map(s => s.trim()).filter(Boolean);
+    const memories: ExtractedMemory[] = [];
+
+    const add = (kind: MemoryKind, content: string, keywords: string[]) => {
+      const known = knownMemories.find(memory => memory.kind === kind && memory.content === content);
+      memories.push({ kind, content, keywords, replaces: known?.id ?? '' });
+    };
+
+    new Set(Array.from(summary.matchAll(PERSON_PATTERN), match => `${match[1]}さん`)).forEach(person => {
+      add('person', `${person}の話をしている`, [person]);
+    });
+    sentences.forEach(sentence => {
+      const kind = MEMORY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => sentence.includes(keyword)))?.[0];
+      if (kind) add(kind, Array.from(sentence).slice(0, 40).join(''), []);
+    });
+    return memories;
+  }
+
+  async generateRetrospective(periodLabel: string, entriesText: string): Promise<RetrospectiveData> {
+    const lines = entriesText.split('\n').filter(line => line.startsWith('- '));
+    const parsed = lines
+      .map(line => line.match(RETROSPECTIVE_LINE_PATTERN))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([, , emotion, title]) => ({ emotion, title }));
+
+    // タグの出現数の多い順
+    const tagCounts = new Map<string, number>();
+    lines.forEach(line => Array.from(line.matchAll(/#(\S+)/g), match => match[1])
+      .forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1)));
+    const themes = Array.from(tagCounts).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([tag]) => tag);
+
+    const first = parsed[0]?.emotion;
+    const last = parsed[parsed.length - 1]?.emotion;
+    return {
+      highlights: parsed.slice(0, 3).map(({ title }) => `「${title}」という日がありました。`),
+      themes,
+      moodTrajectory: first && last && first !== last
+        ? `${periodLabel}は「${first}」から始まり、「${last}」で終わりました。`
+        : `${periodLabel}は「${first ?? 'ふつう'}」な気分が続きました。`,
+      question: '次の期間は、どんなことを大切に過ごしたいですか？',
+    };
+  }
+
+  async generateJournal(conversationHistory: string, style: JournalStyle = DEFAULT_JOURNAL_STYLE): Promise<JournalData> {
+    // ユーザーの発言だけを取り出す（formatConversationHistory の形式）
+    const userLines = conversationHistory
+      .split('\n')
+      .filter(line => line.startsWith('ユーザー: '))
+      .map(line => line.slice('ユーザー: '.length).replace(HIGHLIGHT_MARK, '').trim())
+      .filter(Boolean);
+
+    if (userLines.length === 0) {
+      return {
+        title: '今日の日記',
+        summary: 'AIと短い会話をした。',
+        emotion: 'neutral',
+        emotionIntensity: DEFAULT_EMOTION_INTENSITY,
+        secondaryEmotions: [],
+        tags: [],
+      };
+    }
+
+    const userText = userLines.join('\n');
+    // キーワードの出現数を強さとする
+    const matches = EMOTION_KEYWORDS
+      .map(([emotion, keywords]) => ({
+        emotion,
+        intensity: Math.min(MAX_EMOTION_INTENSITY, keywords.filter(keyword => userText.includes(keyword)).length + 1),
+      }))
+      .filter(({ intensity }) => intensity > 1);
+    const emotion = matches[0]?.emotion ?? 'neutral';
+
+    const people = Array.from(userText.matchAll(PERSON_PATTERN), match => `${match[1]}さん`);
+    const tags = TAG_KEYWORDS
+      .filter(([, keywords]) => keywords.some(keyword => userText.includes(keyword)))
+      .map(([tag]) => tag);
+
+    // 文体は本文の形だけに反映する
+    const summary = style === 'bullets'
+      ? userLines.map(line => `・${line}`).join('\n')
+      : style === 'futureLetter' ? `未来の自分へ\n${userText}` : userText;
+
+    return {
+      title: Array.from(userLines[0]).slice(0, JOURNAL_TITLE_MAX_LENGTH).join(''),
+      summary,
+      emotion,
+      emotionIntensity: matches[0]?.intensity ?? DEFAULT_EMOTION_INTENSITY,
+      secondaryEmotions: matches.slice(1, MAX_SECONDARY_EMOTIONS + 1),
+      tags: normalizeTags([...tags, ...people]),
+    };
+  }
+}
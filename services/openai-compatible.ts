@@ -0,0 +1,134 @@
+// services/openai-compatible.ts
+// OpenAI互換 Chat Completions API を使用した日記生成
+// 自前でホストしたモデル（Ollama / vLLM / LM Studio など）にも接続できる
+
+import { ConversationLog } from '../types/callSession';
+import {
+  DEFAULT_JOURNAL_STYLE,
+  generateValidatedJournal,
+  JOURNAL_JSON_SCHEMA,
+  JournalData,
+  JournalGenerator,
+  JournalStyle,
+  requestWithRetry,
+} from './journal-generator';
+import { ExtractedMemory, extractMemoriesWithPrompt, Memory, MEMORY_JSON_SCHEMA } from './memory';
+import { generateRetrospectiveWithPrompt, RETROSPECTIVE_JSON_SCHEMA, RetrospectiveData } from './retrospective';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+// ふりかえりは複数の項目を出力するため、日記より長めに取る
+const RETROSPECTIVE_MAX_TOKENS = 1000;
+
+export class OpenAICompatibleService implements JournalGenerator {
+  readonly name = 'OpenAI Compatible';
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+
+  /**
+   * @param baseUrl APIのベースURL（例: "http://192.168.0.10:11434/v1"）
+   * @param model モデル名
+   * @param apiKey APIキー（ローカルサーバーなど不要な場合は省略）
+   */
+  constructor(baseUrl: string, model: string = DEFAULT_OPENAI_MODEL, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  async generateJournal(conversationHistory: string, style: JournalStyle = DEFAULT_JOURNAL_STYLE): Promise<JournalData> {
+    return generateValidatedJournal('OpenAICompatible', conversationHistory, style, (prompt, format) =>
+      this.complete(prompt, format.schema, format.name, format.maxTokens)
+    );
+  }
+
+  async extractMemories(entryText: string, knownMemories: Memory[]): Promise<ExtractedMemory[]> {
+    return extractMemoriesWithPrompt('OpenAICompatible', entryText, knownMemories, prompt =>
+      this.complete(prompt, MEMORY_JSON_SCHEMA, 'memories')
+    );
+  }
+
+  async generateRetrospective(periodLabel: string, entriesText: string): Promise<RetrospectiveData> {
+    return generateRetrospectiveWithPrompt('OpenAICompatible', periodLabel, entriesText, prompt =>
+      this.complete(prompt, RETROSPECTIVE_JSON_SCHEMA, 'retrospective', RETROSPECTIVE_MAX_TOKENS)
+    );
+  }
+
+  async reply(systemInstruction: string, logs: ConversationLog[]): Promise<string> {
+    const data = await requestWithRetry('OpenAICompatible', () =>
+      fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            { role: 'system', content: systemInstruction },
+            ...logs.map(log => ({
+              role: log.speaker === 'user' ? 'user' : 'assistant',
+              content: log.text,
+            })),
+          ],
+          temperature: 0.8,
+          max_tokens: 300,
+        }),
+      })
+    );
+
+    const textResponse = data.choices?.[0]?.message?.content;
+    if (!textResponse) {
+      throw new Error('No text response from API');
+    }
+    return textResponse.trim();
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * プロンプトを送信し、応答テキスト（JSON）を返す
+   * Structured Outputs（json_schema）で出力の形式を指定する（デフォルトは日記データ）
+   */
+  private async complete(
+    prompt: string,
+    schema: object = JOURNAL_JSON_SCHEMA,
+    schemaName: string = 'journal',
+    maxTokens: number = 500,
+  ): Promise<string> {
+    const data = await requestWithRetry('OpenAICompatible', () =>
+      fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            { role: 'user', content: prompt }
+          ],
+          temperature: 0.3,
+          max_tokens: maxTokens,
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: schemaName,
+              strict: true,
+              schema,
+            },
+          },
+        }),
+      })
+    );
+
+    const textResponse = data.choices?.[0]?.message?.content;
+    if (!textResponse) {
+      throw new Error('No text response from API');
+    }
+    return textResponse;
+  }
+}
@@ -0,0 +1,80 @@
+// services/pacing.ts
+// 会話のペース設定
+// 沈黙時の問いかけまでの時間・会話継続のリマインダーの間隔・発話検出（VAD）の感度をまとめたもの
+// 目安の会話時間を設定すると、終わり際にやさしく振り返りを促す
+
+import type { VadConfig } from '../utils/vad';
+
+export type SessionPacing = 'slow' | 'normal' | 'brisk';
+
+/** 発話検出の設定（useSimpleAudioPlayer に渡す。閾値は utils/vad がノイズフロアから決める） */
+export type VadSettings = Pick<VadConfig, 'speechDebounceMs' | 'silenceDebounceMs'>;
+
+export interface PacingProfile {
+  pacing: SessionPacing;
+  label: string;
+  description: string;
+  /** 軽い合いの手までの沈黙（ms） */
+  lightSilenceTimeoutMs: number;
+  /** 問いかけまでの沈黙（ms） */
+  deepSilenceTimeoutMs: number;
+  /** 会話継続のリマインダーを送るターン数の間隔 */
+  reminderInterval: number;
+  vad: VadSettings;
+}
+
+export const PACING_PROFILES: PacingProfile[] = [
+  {
+    pacing: 'slow',
+    label: 'ゆっくり',
+    description: '考えながら話したい人向け。長めの間でも話の途中として待ちます',
+    lightSilenceTimeoutMs: 25000,
+    deepSilenceTimeoutMs: 50000,
+    reminderInterval: 6,
+    vad: { speechDebounceMs: 300, silenceDebounceMs: 900 },
+  },
+  {
+    pacing: 'normal',
+    label: 'ふつう',
+    description: '15秒ほど黙っていると相づち、30秒で問いかけます',
+    lightSilenceTimeoutMs: 15000,
+    deepSilenceTimeoutMs: 30000,
+    reminderInterval: 5,
+    vad: { speechDebounceMs: 300, silenceDebounceMs: 500 },
+  },
+  {
+    pacing: 'brisk',
+    label: 'テンポよく',
+    description: '短い間でもAIが話を進めます。手短に話したいとき向け',
+    lightSilenceTimeoutMs: 8000,
+    deepSilenceTimeoutMs: 18000,
+    reminderInterval: 4,
+    vad: { speechDebounceMs: 200, silenceDebounceMs: 350 },
+  },
+];
+
+export const DEFAULT_SESSION_PACING: SessionPacing = 'normal';
+
+export const getPacingProfile = (pacing: SessionPacing): PacingProfile =>
+  PACING_PROFILES.find(profile => profile.pacing === pacing)
+  ?? PACING_PROFILES.find(profile => profile.pacing === DEFAULT_SESSION_PACING)!;
+
+/** 目安の会話時間の選択肢（分、0 = 設定しない） */
+export const SESSION_LENGTH_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'なし' },
+  { minutes: 5, label: '5分' },
+  { minutes: 10, label: '10分' },
+  { minutes: 15, label: '15分' },
+  { minutes: 20, label: '20分' },
+];
+
+/** 目安の時間の何分前に振り返りを促すか */
+const WRAP_UP_LEAD_MS = 60 * 1000;
+
+/**
+ * 通話開始から振り返りを促すまでの時間
+ * @param targetMinutes 目安の会話時間
+ * @returns ミリ秒（目安の会話時間を設定していない場合は null）
+ */
+export const getWrapUpDelayMs = (targetMinutes: number): number | null =>
+  targetMinutes > 0 ? Math.max(0, targetMinutes * 60 * 1000 - WRAP_UP_LEAD_MS) : null;
@@ -0,0 +1,296 @@
+// services/retrospective.ts
+// 週・月のふりかえり
+// 期間内の日記をまとめて読み、印象に残った出来事・繰り返し話題になったこと・気分の移り変わり・次への問いかけを作成する
+// 日記とは別に保存し、日記が増えた場合などは作り直せる
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getEmotionDefinition } from '../constants/emotions';
+import { toDateKey } from '../utils/date';
+import { extractJson, getJournalGenerator } from './journal-generator';
+import { JournalEntry, StorageService } from './storage';
+
+const KEY_RETROSPECTIVES = 'retrospectives';
+
+export type RetrospectivePeriod = 'week' | 'month';
+
+export const RETROSPECTIVE_PERIODS: { period: RetrospectivePeriod; label: string }[] = [
+  { period: 'week', label: '週' },
+  { period: 'month', label: '月' },
+];
+
+/** ふりかえりの内容（モデルの出力） */
+export interface RetrospectiveData {
+  /** 印象に残った出来事 */
+  highlights: string[];
+  /** 繰り返し話題になったこと */
+  themes: string[];
+  /** 気分の移り変わり */
+  moodTrajectory: string;
+  /** 次の期間に向けたやさしい問いかけ */
+  question: string;
+}
+
+export interface Retrospective extends RetrospectiveData {
+  /** `${period}-${startDate}` */
+  id: string;
+  period: RetrospectivePeriod;
+  /** 期間（YYYY-MM-DD、両端を含む） */
+  startDate: string;
+  endDate: string;
+  /** 作成に使った日記 */
+  entryIds: string[];
+  /** 日ごとの気分（感情のスコアの平均、0〜5） */
+  moodPoints: { date: string; score: number }[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+const MAX_HIGHLIGHTS = 3;
+const MAX_THEMES = 5;
+
+/** プロンプトに含める日記1件あたりの本文の文字数 */
+const ENTRY_SUMMARY_MAX_LENGTH = 200;
+
+/** ふりかえり画面に表示する直近の期間の数 */
+export const RECENT_PERIOD_COUNT = 4;
+
+/**
+ * 日付を含む期間（週は月曜始まり）
+ */
+export const getPeriodRange = (period: RetrospectivePeriod, date: Date): { start: Date; end: Date } => {
+  if (period === 'month') {
+    return {
+      start: new Date(date.getFullYear(), date.getMonth(), 1),
+      end: new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999),
+    };
+  }
+  const offset = (date.getDay() + 6) % 7;
+  return {
+    start: new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset),
+    end: new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset + 6, 23, 59, 59, 999),
+  };
+};
+
+/**
+ * 今日を含む期間から遡って count 個の期間の開始日
+ */
+export const getRecentPeriodStarts = (period: RetrospectivePeriod, count: number = RECENT_PERIOD_COUNT, now: Date = new Date()): Date[] => {
+  const { start } = getPeriodRange(period, now);
+  return Array.from({ length: count }, (_, i) => period === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() - i, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() - i * 7));
+};
+
+export const getRetrospectiveId = (period: RetrospectivePeriod, start: Date): string => `${period}-${toDateKey(start)}`;
+
+/**
+ * 期間の表示名（例: 「2026年10月」「10月12日〜10月18日」）
+ */
+export const formatPeriodLabel = (period: RetrospectivePeriod, start: Date): string => {
+  const { end } = getPeriodRange(period, start);
+  if (period === 'month') return `${start.getFullYear()}年${start.getMonth() + 1}月`;
+  return `${start.getMonth() + 1}月${start.getDate()}日〜${end.getMonth() + 1}月${end.getDate()}日`;
+};
+
+/** YYYY-MM-DD をローカル時刻の日付にする */
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * ふりかえり用に日記をテキストにする（古い順、1行に1件）
+ */
+const formatEntriesForRetrospective = (entries: JournalEntry[]): string => entries.map(entry => {
+  const emotion = getEmotionDefinition(entry.emotion);
+  const intensity = entry.emotionIntensity ? `・強さ${entry.emotionIntensity}` : '';
+  const summary = Array.from(entry.summary.replace(/\s+/g, ' ')).slice(0, ENTRY_SUMMARY_MAX_LENGTH).join('');
+  const tags = entry.tags?.length ? ` ${entry.tags.map(tag => `#${tag}`).join(' ')}` : '';
+  return `- ${toDateKey(new Date(entry.createdAt))}（${emotion.label}${intensity}）${entry.title}: ${summary}${tags}`;
+}).join('\n');
+
+/**
+ * ふりかえりプロンプト（全プロバイダー共通）
+ */
+export const buildRetrospectivePrompt = (periodLabel: string, entriesText: string): string => `あなたはユーザーの日記を一緒に読み返す、やさしい聞き手です。
+以下は ${periodLabel} の日記です。この期間のふりかえりを作成してください。
+
+【日記】
+${entriesText}
+
+【ルール】
+1. 日記に書かれている事実だけを元にしてください。推測や創作はしないでください。
+2. highlights: 印象に残った出来事を${MAX_HIGHLIGHTS}つまで、それぞれ1文で。
+3. themes: 期間の中で繰り返し話題になったことを${MAX_THEMES}つまで、短い言葉で。
+4. moodTrajectory: 気分がどのように移り変わったかを2〜3文で。
+5. question: 次の期間に向けて、ユーザーが考えてみたくなるようなやさしい問いかけを1つ。責めたり、指示したりしないでください。
+6. ユーザーに語りかける「です・ます」調で書いてください。
+
+【出力形式】
+以下のJSON形式のみを返してください。
+{
+  "highlights": ["印象に残った出来事"],
+  "themes": ["話題"],
+  "moodTrajectory": "気分の移り変わり",
+  "question": "次への問いかけ"
+}`;
+
+/**
+ * ふりかえりのJSONスキーマ（OpenAI互換APIの response_format・Gemini の responseSchema）
+ */
+export const RETROSPECTIVE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    highlights: { type: 'array', items: { type: 'string' }, description: `印象に残った出来事（${MAX_HIGHLIGHTS}つまで）` },
+    themes: { type: 'array', items: { type: 'string' }, description: `繰り返し話題になったこと（${MAX_THEMES}つまで）` },
+    moodTrajectory: { type: 'string', description: '気分の移り変わり' },
+    question: { type: 'string', description: '次の期間に向けた問いかけ' },
+  },
+  required: ['highlights', 'themes', 'moodTrajectory', 'question'],
+  additionalProperties: false,
+};
+
+const toStringList = (raw: unknown, max: number): string[] => Array.isArray(raw)
+  ? raw.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()).slice(0, max)
+  : [];
+
+/**
+ * モデルの出力からふりかえりを取り出す
+ * 気分の移り変わり・問いかけがない場合は null
+ */
+export const parseRetrospective = (raw: unknown): RetrospectiveData | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  const moodTrajectory = typeof data.moodTrajectory === 'string' ? data.moodTrajectory.trim() : '';
+  const question = typeof data.question === 'string' ? data.question.trim() : '';
+  if (!moodTrajectory || !question) return null;
+  return {
+    highlights: toStringList(data.highlights, MAX_HIGHLIGHTS),
+    themes: toStringList(data.themes, MAX_THEMES),
+    moodTrajectory,
+    question,
+  };
+};
+
+/**
+ * プロンプトを送信してふりかえりを作成する（全プロバイダー共通）
+ * @param complete プロンプトを送信し、モデルの応答テキストを返す関数
+ */
+export const generateRetrospectiveWithPrompt = async (
+  logPrefix: string,
+  periodLabel: string,
+  entriesText: string,
+  complete: (prompt: string) => Promise<string>,
+): Promise<RetrospectiveData> => {
+  const output = await complete(buildRetrospectivePrompt(periodLabel, entriesText));
+  const retrospective = parseRetrospective(extractJson(output));
+  if (!retrospective) {
+    throw new Error('Invalid retrospective output');
+  }
+  console.log(`${logPrefix}: Retrospective generated for ${periodLabel}`);
+  return retrospective;
+};
+
+/**
+ * 日ごとの気分（感情のスコアの平均）
+ */
+const calculateMoodPoints = (entries: JournalEntry[]): Retrospective['moodPoints'] => {
+  const scores = new Map<string, number[]>();
+  entries.forEach(entry => {
+    const key = toDateKey(new Date(entry.createdAt));
+    scores.set(key, [...(scores.get(key) ?? []), getEmotionDefinition(entry.emotion).score]);
+  });
+  return Array.from(scores, ([date, values]) => ({
+    date,
+    score: values.reduce((sum, value) => sum + value, 0) / values.length,
+  })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const RetrospectiveService = {
+  /**
+   * 作成済みのふりかえり（期間の新しい順）
+   */
+  async getAll(): Promise<Retrospective[]> {
+    try {
+      const json = await AsyncStorage.getItem(KEY_RETROSPECTIVES);
+      const retrospectives: Retrospective[] = json ? JSON.parse(json) : [];
+      return retrospectives.sort((a, b) => b.startDate.localeCompare(a.startDate));
+    } catch (e) {
+      console.warn('RetrospectiveService: Failed to load retrospectives', e);
+      return [];
+    }
+  },
+
+  async saveAll(retrospectives: Retrospective[]): Promise<void> {
+    await AsyncStorage.setItem(KEY_RETROSPECTIVES, JSON.stringify(retrospectives));
+  },
+
+  async delete(id: string): Promise<void> {
+    const retrospectives = await this.getAll();
+    await this.saveAll(retrospectives.filter(retrospective => retrospective.id !== id));
+  },
+
+  /**
+   * 削除した日記から作ったふりかえりを削除する（削除した日記の内容を残さない。必要なら作り直す）
+   */
+  async forgetEntries(entryIds: string[]): Promise<void> {
+    if (entryIds.length === 0) return;
+    const removed = new Set(entryIds);
+    const retrospectives = await this.getAll();
+    const remaining = retrospectives.filter(retrospective => !retrospective.entryIds.some(id => removed.has(id)));
+    if (remaining.length === retrospectives.length) return;
+    await this.saveAll(remaining);
+    console.log(`RetrospectiveService: Deleted ${retrospectives.length - remaining.length} retrospective(s) of deleted entries`);
+  },
+
+  /**
+   * 期間内の日記（作成待ちのものを除く、古い順）
+   */
+  async getEntriesInPeriod(period: RetrospectivePeriod, start: Date): Promise<JournalEntry[]> {
+    const range = getPeriodRange(period, start);
+    // 古い日記は date が UTC 基準の場合があるので前後1日広めに取り、createdAt で絞り込む
+    const entries = await StorageService.getJournalEntriesInRange(
+      toDateKey(new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate() - 1)),
+      toDateKey(new Date(range.end.getFullYear(), range.end.getMonth(), range.end.getDate() + 1)),
+    );
+    return entries
+      .filter(entry => !entry.status && entry.createdAt >= range.start.getTime() && entry.createdAt <= range.end.getTime())
+      .sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  /**
+   * ふりかえりを作成する（作成済みの場合は作り直す）
+   * @param start 期間の開始日（getPeriodRange の start）
+   */
+  async generate(period: RetrospectivePeriod, start: Date): Promise<Retrospective> {
+    const entries = await this.getEntriesInPeriod(period, start);
+    if (entries.length === 0) {
+      throw new Error('この期間の日記がありません');
+    }
+
+    const generator = await getJournalGenerator();
+    const data = await generator.generateRetrospective(
+      formatPeriodLabel(period, start),
+      formatEntriesForRetrospective(entries),
+    );
+
+    const id = getRetrospectiveId(period, start);
+    const current = await this.getAll();
+    const existing = current.find(retrospective => retrospective.id === id);
+    const now = Date.now();
+    const retrospective: Retrospective = {
+      ...data,
+      id,
+      period,
+      startDate: toDateKey(start),
+      endDate: toDateKey(getPeriodRange(period, start).end),
+      entryIds: entries.map(entry => entry.id),
+      moodPoints: calculateMoodPoints(entries),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await this.saveAll([...current.filter(r => r.id !== id), retrospective]);
+    console.log(`RetrospectiveService: Saved ${id} (${entries.length} entries)`);
+    return retrospective;
+  },
+};
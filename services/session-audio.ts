@@ -0,0 +1,256 @@
+// services/session-audio.ts
+// 会話の音声を端末内に WAV で保存する（設定で有効にした場合のみ）
+// マイク音声（16kHz）を基準の時間軸とし、AIの音声（24kHz）は16kHzに変換して同じ時間軸に重ねる
+// 録音の先頭時刻を記録しておき、会話ログの時刻から再生位置を求める
+
+import { Directory, File, Paths, type FileHandle } from 'expo-file-system';
+import { base64ToBuffer, createWavHeader } from '../utils/audio';
+import type { EntryAudio } from './storage';
+
+export type AudioRecordingMode = 'off' | 'user' | 'both';
+
+export const AUDIO_RECORDING_MODES: { mode: AudioRecordingMode; label: string }[] = [
+  { mode: 'off', label: '録音しない' },
+  { mode: 'user', label: '自分の声のみ' },
+  { mode: 'both', label: '会話全体' },
+];
+
+const RECORDINGS_DIRECTORY = 'recordings';
+
+const SAMPLE_RATE = 16000;
+const AI_SAMPLE_RATE = 24000;
+const SAMPLES_PER_MS = SAMPLE_RATE / 1000;
+
+// マイク音声が途切れた（ミュート・再接続など）とみなす遅れ。これを超えたら無音で埋めて時刻を合わせる
+const GAP_TOLERANCE_MS = 500;
+// この長さ以上たまったらファイルに書き出す（AIの音声を重ねる余地を残すため、マイクの位置までしか書かない）
+const FLUSH_THRESHOLD_SAMPLES = SAMPLE_RATE;
+
+const getRecordingsDirectory = () => new Directory(Paths.document, RECORDINGS_DIRECTORY);
+
+const decodePcm16 = (base64Audio: string): Int16Array => {
+  const bytes = base64ToBuffer(base64Audio);
+  const samples = new Int16Array(Math.floor(bytes.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = bytes.readInt16LE(i * 2);
+  }
+  return samples;
+};
+
+// 24kHz -> 16kHz（線形補間。声の記録用なので簡易的な変換で十分）
+const resampleToRecordingRate = (samples: Int16Array): Int16Array => {
+  const ratio = AI_SAMPLE_RATE / SAMPLE_RATE;
+  const output = new Int16Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = Math.round(samples[index] * (1 - fraction) + samples[next] * fraction);
+  }
+  return output;
+};
+
+/**
+ * 1回の会話の録音
+ * start() で作成し、finish() で保存（または cancel() で破棄）する
+ */
+export class SessionAudioRecorder {
+  readonly fileName: string;
+  readonly startedAt: number;
+  private includeAi: boolean;
+  private file: File;
+  private handle: FileHandle | null;
+
+  // まだファイルに書き出していない区間（先頭は flushedSamples の位置）
+  private flushedSamples: number = 0;
+  private micSamples: number[] = [];
+  private aiSamples: number[] = [];
+  // 時間軸上の位置（サンプル数）
+  private micCursor: number = 0;
+  private aiCursor: number = 0;
+
+  private constructor(fileName: string, file: File, handle: FileHandle, includeAi: boolean) {
+    this.fileName = fileName;
+    this.file = file;
+    this.handle = handle;
+    this.startedAt = Date.now();
+    this.includeAi = includeAi;
+  }
+
+  /**
+   * 録音を開始する（録音しない設定、またはファイルを作成できない場合は null）
+   */
+  static start(mode: AudioRecordingMode): SessionAudioRecorder | null {
+    if (mode === 'off') return null;
+    try {
+      const directory = getRecordingsDirectory();
+      if (!directory.exists) directory.create({ intermediates: true });
+
+      const fileName = `session_${Date.now()}.wav`;
+      const file = new File(directory, fileName);
+      file.create();
+      const handle = file.open();
+      // データ長は終了時に書き直す
+      handle.writeBytes(createWavHeader(SAMPLE_RATE, 1, 16, 0));
+
+      console.log('SessionAudio: Recording started', fileName);
+      return new SessionAudioRecorder(fileName, file, handle, mode === 'both');
+    } catch (e) {
+      console.error('SessionAudio: Failed to start recording', e);
+      return null;
+    }
+  }
+
+  private ensureLength(length: number) {
+    while (this.micSamples.length < length) this.micSamples.push(0);
+    while (this.aiSamples.length < length) this.aiSamples.push(0);
+  }
+
+  /**
+   * マイク音声（16kHz 16bit PCM）を追加
+   */
+  appendMic(base64Audio: string) {
+    if (!this.handle) return;
+    const samples = decodePcm16(base64Audio);
+
+    // 途切れていた分を無音で埋め、会話ログの時刻とずれないようにする
+    const expectedCursor = Math.round((Date.now() - this.startedAt) * SAMPLES_PER_MS) - samples.length;
+    if (expectedCursor - this.micCursor > GAP_TOLERANCE_MS * SAMPLES_PER_MS) {
+      this.micCursor = expectedCursor;
+    }
+
+    const offset = this.micCursor - this.flushedSamples;
+    this.ensureLength(offset + samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      this.micSamples[offset + i] = samples[i];
+    }
+    this.micCursor += samples.length;
+
+    if (this.micCursor - this.flushedSamples >= FLUSH_THRESHOLD_SAMPLES) {
+      this.flush(this.micCursor);
+    }
+  }
+
+  /**
+   * AIの音声（24kHz 16bit PCM）を追加
+   * 受信した音声は続けて再生されるので、前の音声の直後（またはマイクの現在位置）に置く
+   */
+  appendAi(base64Audio: string) {
+    if (!this.handle || !this.includeAi) return;
+    const samples = resampleToRecordingRate(decodePcm16(base64Audio));
+
+    this.aiCursor = Math.max(this.aiCursor, this.micCursor);
+    const offset = this.aiCursor - this.flushedSamples;
+    this.ensureLength(offset + samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      this.aiSamples[offset + i] = samples[i];
+    }
+    this.aiCursor += samples.length;
+  }
+
+  /**
+   * AIの発話が中断された：まだ再生されていない分を取り除く
+   */
+  interruptAi() {
+    const offset = Math.max(0, this.micCursor - this.flushedSamples);
+    for (let i = offset; i < this.aiSamples.length; i++) {
+      this.aiSamples[i] = 0;
+    }
+    this.aiCursor = this.micCursor;
+  }
+
+  // 指定位置までを書き出す（マイクとAIの音声を合成）
+  private flush(untilSamples: number) {
+    if (!this.handle) return;
+    const length = Math.min(untilSamples - this.flushedSamples, this.micSamples.length);
+    if (length <= 0) return;
+
+    const bytes = new Uint8Array(length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < length; i++) {
+      const mixed = Math.max(-32768, Math.min(32767, this.micSamples[i] + this.aiSamples[i]));
+      view.setInt16(i * 2, mixed, true);
+    }
+    this.handle.writeBytes(bytes);
+
+    this.micSamples = this.micSamples.slice(length);
+    this.aiSamples = this.aiSamples.slice(length);
+    this.flushedSamples += length;
+  }
+
+  /**
+   * 録音を終了して保存する（何も録音されていなければ null）
+   */
+  finish(): EntryAudio | null {
+    if (!this.handle) return null;
+    try {
+      // マイクの位置より後ろのAIの音声（電話を切る直前の最後の返事など）も残す
+      this.flush(Math.max(this.micCursor, this.aiCursor));
+      const dataLength = this.flushedSamples * 2;
+
+      // ヘッダーのデータ長を書き直す
+      this.handle.offset = 0;
+      this.handle.writeBytes(createWavHeader(SAMPLE_RATE, 1, 16, dataLength));
+      this.handle.close();
+      this.handle = null;
+
+      if (dataLength === 0) {
+        this.file.delete();
+        return null;
+      }
+
+      const durationMs = Math.round(this.flushedSamples / SAMPLES_PER_MS);
+      console.log(`SessionAudio: Saved ${this.fileName} (${Math.round(durationMs / 1000)}s)`);
+      return {
+        fileName: this.fileName,
+        startedAt: this.startedAt,
+        durationMs,
+        includesAi: this.includeAi,
+      };
+    } catch (e) {
+      console.error('SessionAudio: Failed to save recording', e);
+      this.cancel();
+      return null;
+    }
+  }
+
+  /**
+   * 録音を破棄する
+   */
+  cancel() {
+    try {
+      this.handle?.close();
+      this.handle = null;
+      if (this.file.exists) this.file.delete();
+    } catch (e) {
+      console.warn('SessionAudio: Failed to discard recording', e);
+    }
+  }
+}
+
+export const SessionAudio = {
+  /** 再生用のURI（ファイルがなければ null） */
+  getUri(fileName: string): string | null {
+    const file = new File(getRecordingsDirectory(), fileName);
+    return file.exists ? file.uri : null;
+  },
+
+  delete(fileName: string) {
+    try {
+      const file = new File(getRecordingsDirectory(), fileName);
+      if (file.exists) file.delete();
+    } catch (e) {
+      console.warn('SessionAudio: Failed to delete recording', e);
+    }
+  },
+
+  clearAll() {
+    try {
+      const directory = getRecordingsDirectory();
+      if (directory.exists) directory.delete();
+    } catch (e) {
+      console.warn('SessionAudio: Failed to clear recordings', e);
+    }
+  },
+};
@@ -0,0 +1,170 @@
+// services/sqlite-journal-repository.ts
+// SQLite による日記リポジトリ実装
+// 1件ずつ読み書きできるので、保存のたびに全件を書き直す必要がない
+
+import * as SQLite from 'expo-sqlite';
+import { ConversationLog } from '../types/callSession';
+import type { JournalRepository } from './journal-repository';
+import type { JournalEntry } from './storage';
+
+const DATABASE_NAME = 'journal.db';
+
+// テーブル定義のバージョン（PRAGMA user_version で管理）
+// JournalEntry のフィールド追加は data 列（JSON）に入るので、ここを上げる必要はない
+const DATABASE_VERSION = 1;
+
+interface EntryRow {
+  data: string;
+}
+
+interface TranscriptRow {
+  entry_id: string;
+  data: string;
+}
+
+const nextDateString = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(year, month - 1, day + 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-${String(next.getDate()).padStart(2, '0')}`;
+};
+
+export class SQLiteJournalRepository implements JournalRepository {
+  readonly name = 'SQLite';
+  private db: SQLite.SQLiteDatabase;
+
+  private constructor(db: SQLite.SQLiteDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * データベースを開き、必要ならテーブルを作成する
+   */
+  static async open(): Promise<SQLiteJournalRepository> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    const repository = new SQLiteJournalRepository(db);
+    await repository.migrateDatabase();
+    return repository;
+  }
+
+  private async migrateDatabase(): Promise<void> {
+    const row = await this.db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const currentVersion = row?.user_version ?? 0;
+    if (currentVersion >= DATABASE_VERSION) return;
+
+    if (currentVersion === 0) {
+      await this.db.execAsync(`
+        PRAGMA journal_mode = WAL;
+        CREATE TABLE IF NOT EXISTS journal_entries (
+          id TEXT PRIMARY KEY NOT NULL,
+          date TEXT NOT NULL,
+          emotion TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_journal_entries_date ON journal_entries (date);
+        CREATE INDEX IF NOT EXISTS idx_journal_entries_emotion ON journal_entries (emotion);
+        CREATE INDEX IF NOT EXISTS idx_journal_entries_created_at ON journal_entries (created_at);
+        CREATE TABLE IF NOT EXISTS journal_transcripts (
+          entry_id TEXT PRIMARY KEY NOT NULL,
+          data TEXT NOT NULL
+        );
+      `);
+    }
+    await this.db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
+  }
+
+  private parseRows(rows: EntryRow[]): JournalEntry[] {
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  // 検索・並び替え用の列は data（JSON）から抽出して保存する
+  // マイグレーション前の古いデータでも挿入できるよう、欠けている値は既定値で埋める
+  private async insertOrReplace(executor: SQLite.SQLiteDatabase, entry: JournalEntry): Promise<void> {
+    await executor.runAsync(
+      `INSERT OR REPLACE INTO journal_entries (id, date, emotion, created_at, title, summary, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      String(entry.id),
+      entry.date ?? '',
+      entry.emotion ?? 'neutral',
+      entry.createdAt ?? 0,
+      entry.title ?? '',
+      entry.summary ?? '',
+      JSON.stringify(entry),
+    );
+  }
+
+  async getAll(): Promise<JournalEntry[]> {
+    const rows = await this.db.getAllAsync<EntryRow>(
+      'SELECT data FROM journal_entries ORDER BY created_at DESC'
+    );
+    return this.parseRows(rows);
+  }
+
+  async getById(id: string): Promise<JournalEntry | null> {
+    const row = await this.db.getFirstAsync<EntryRow>('SELECT data FROM journal_entries WHERE id = ?', id);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async getByDateRange(startDate: string, endDate: string): Promise<JournalEntry[]> {
+    // date には "YYYY-MM-DD" 以外に ISO 形式が入っている場合もあるので、上限は翌日の0時未満とする
+    const rows = await this.db.getAllAsync<EntryRow>(
+      `SELECT data FROM journal_entries
+       WHERE date >= ? AND date < ?
+       ORDER BY created_at DESC`,
+      startDate,
+      nextDateString(endDate),
+    );
+    return this.parseRows(rows);
+  }
+
+  async upsert(entry: JournalEntry): Promise<void> {
+    await this.insertOrReplace(this.db, entry);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.runAsync('DELETE FROM journal_entries WHERE id = ?', id);
+  }
+
+  async replaceAll(entries: JournalEntry[]): Promise<void> {
+    await this.db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync('DELETE FROM journal_entries');
+      for (const entry of entries) {
+        await this.insertOrReplace(txn, entry);
+      }
+    });
+  }
+
+  async getTranscript(entryId: string): Promise<ConversationLog[]> {
+    const row = await this.db.getFirstAsync<TranscriptRow>(
+      'SELECT entry_id, data FROM journal_transcripts WHERE entry_id = ?', entryId
+    );
+    return row ? JSON.parse(row.data) : [];
+  }
+
+  async saveTranscript(entryId: string, transcript: ConversationLog[]): Promise<void> {
+    await this.db.runAsync(
+      'INSERT OR REPLACE INTO journal_transcripts (entry_id, data) VALUES (?, ?)',
+      entryId,
+      JSON.stringify(transcript),
+    );
+  }
+
+  async deleteTranscript(entryId: string): Promise<void> {
+    await this.db.runAsync('DELETE FROM journal_transcripts WHERE entry_id = ?', entryId);
+  }
+
+  async getAllTranscripts(): Promise<Record<string, ConversationLog[]>> {
+    const rows = await this.db.getAllAsync<TranscriptRow>('SELECT entry_id, data FROM journal_transcripts');
+    const transcripts: Record<string, ConversationLog[]> = {};
+    rows.forEach(row => {
+      transcripts[row.entry_id] = JSON.parse(row.data);
+    });
+    return transcripts;
+  }
+
+  async clearTranscripts(): Promise<void> {
+    await this.db.runAsync('DELETE FROM journal_transcripts');
+  }
+}
@@ -1,9 +1,29 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Emotion, EmotionWithIntensity } from '../constants/emotions';
+import { ConversationLog, InputMode } from '../types/callSession';
 import { calculateStreak } from '../utils/date';
+import { buildSearchIndex, SearchFilters, SearchIndex, searchIndex, SearchResult } from '../utils/search';
+import type { JournalStyle, LLMProvider } from './journal-generator';
+import { getJournalRepository } from './journal-repository';
+import { MemoryService } from './memory';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, migrateData } from './migrations';
+import type { SessionPacing } from './pacing';
+import { RetrospectiveService } from './retrospective';
+import { AudioRecordingMode, SessionAudio } from './session-audio';
 
+// 日記と会話ログは JournalRepository（SQLite）に保存する
 const KEYS = {
   USER_SETTINGS: 'user_settings',
-  JOURNAL_ENTRIES: 'journal_entries',
+  SCHEMA_VERSION: 'schema_version',
+};
+
+// 起動中に一度だけマイグレーションを実行するためのPromise
+let migrationPromise: Promise<void> | null = null;
+
+// 全文検索の索引（初回の検索時に作成し、日記・会話ログを変更したら作り直す）
+let searchIndexPromise: Promise<SearchIndex> | null = null;
+const invalidateSearchIndex = () => {
+  searchIndexPromise = null;
 };
 
 export interface UserSettings {
@@ -17,13 +37,26 @@ export interface UserSettings {
   goals?: string;
   bio?: string;
   // AI Voice Customization
-  aiVoice?: string; // Voice name, e.g. "Aoede", "Charon"
+  aiVoice?: string; // Voice of the default persona, e.g. "Aoede", "Charon" (chosen before personas existed)
+  personaId: string; // Interviewer persona used for new conversations (see services/persona)
+  // Session pacing (see services/pacing)
+  sessionPacing: SessionPacing; // Silence timeouts, reminder interval and VAD sensitivity
+  silencePromptsEnabled: boolean; // false = the AI never speaks up during silence
+  targetSessionMinutes: number; // Gentle wrap-up prompt near this length. 0 = no target
+  inputMode: InputMode; // Automatic voice detection or push-to-talk
   // Daily Reminder
   notificationEnabled: boolean;
   notificationTime: string; // "HH:mm"
   // Theme
   theme: 'system' | 'light' | 'dark';
   themeColor: 'indigo' | 'blue' | 'pink' | 'teal' | 'orange';
+  // Journal Generation (LLM provider)
+  llmProvider: LLMProvider;
+  llmBaseUrl?: string; // OpenAI-compatible endpoint, e.g. "http://localhost:11434/v1"
+  llmModel?: string; // Empty = provider default
+  journalStyle: JournalStyle; // Writing style of generated journals
+  // Conversation audio (saved on device only)
+  audioRecording: AudioRecordingMode;
 }
 
 const DEFAULT_SETTINGS: UserSettings = {
@@ -34,10 +67,20 @@ const DEFAULT_SETTINGS: UserSettings = {
   goals: '',
   bio: '',
   aiVoice: 'Aoede', // Default female voice
+  personaId: 'gentle',
+  sessionPacing: 'normal',
+  silencePromptsEnabled: true,
+  targetSessionMinutes: 0,
+  inputMode: 'auto',
   notificationEnabled: false,
   notificationTime: '21:00',
   theme: 'system',
   themeColor: 'indigo',
+  llmProvider: 'gemini',
+  llmBaseUrl: '',
+  llmModel: '',
+  journalStyle: 'factual',
+  audioRecording: 'off',
 };
 
 export interface JournalEntry {
@@ -45,15 +88,122 @@ export interface JournalEntry {
   date: string; // ISO string 2026-01-01
   title: string;
   summary: string;
-  emotion: 'happy' | 'sad' | 'excited' | 'calm' | 'tired' | 'neutral';
-  duration?: number; // Duration in seconds
+  emotion: Emotion; // Primary emotion (see constants/emotions)
+  emotionIntensity?: number; // Intensity of the primary emotion (1-5). Absent = not rated
+  secondaryEmotions?: EmotionWithIntensity[]; // Other emotions mentioned in the conversation
+  tags?: string[]; // Topics such as "仕事", "家族" or people's names (see utils/tags)
+  duration?: number; // Duration in seconds (wall clock of the conversation)
+  talkTime?: TalkTime; // Speaking time breakdown (voice conversations only)
   createdAt: number;
+  updatedAt?: number; // Last edit time (used for import conflict resolution)
+  hasTranscript?: boolean; // Conversation transcript is stored separately (see getTranscript)
+  status?: 'pending' | 'failed'; // Generation not finished yet (see GenerationQueue). Absent = completed
+  audio?: EntryAudio; // Conversation recording (see SessionAudio)
+}
+
+// 会話中の発話時間（通話状態の遷移から計測）
+export interface TalkTime {
+  userSeconds: number;
+  aiSeconds: number;
+}
+
+// 会話の録音（WAVファイルは端末内に保存し、ファイル名だけを持つ）
+export interface EntryAudio {
+  fileName: string;
+  startedAt: number; // Wall-clock time of the first sample (to seek by transcript timestamps)
+  durationMs: number;
+  includesAi: boolean; // false = user's microphone only
+}
+
+// Import (exportDataAsJson で書き出したファイルの復元)
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportPreview {
+  /** バックアップのスキーマバージョン（読み込み時に最新へ変換済み） */
+  version: number;
+  exportedAt: string | null;
+  settings: UserSettings;
+  entries: JournalEntry[];
+  /** 日記IDごとの会話ログ */
+  transcripts: Record<string, ConversationLog[]>;
+  /** 端末に存在しないIDの件数 */
+  newEntryCount: number;
+  /** 端末に同じIDが存在する件数 */
+  conflictCount: number;
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
 }
 
+const entryTimestamp = (entry: JournalEntry) => entry.updatedAt ?? entry.createdAt;
+
 export const StorageService = {
+  // Schema Migration
+  async getSchemaVersion(): Promise<number> {
+    const stored = await AsyncStorage.getItem(KEYS.SCHEMA_VERSION);
+    if (!stored) return LEGACY_SCHEMA_VERSION;
+    const version = Number(stored);
+    return Number.isInteger(version) ? version : LEGACY_SCHEMA_VERSION;
+  },
+
+  /**
+   * 保存済みデータを現在のスキーマバージョンまで引き上げる
+   * 失敗した場合はデータを書き換えず、次回起動時に再試行する
+   */
+  async runMigrations(): Promise<void> {
+    const storedVersion = await this.getSchemaVersion();
+    if (storedVersion === CURRENT_SCHEMA_VERSION) return;
+
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+      // 新しいバージョンのアプリで保存されたデータは触らない
+      console.warn(`StorageService: Stored schema v${storedVersion} is newer than v${CURRENT_SCHEMA_VERSION}, skipping migration`);
+      return;
+    }
+
+    const repository = await getJournalRepository();
+    const settingsJson = await AsyncStorage.getItem(KEYS.USER_SETTINGS);
+    const storedEntries = await repository.getAll();
+
+    if (!settingsJson && storedEntries.length === 0) {
+      // 新規インストール：変換対象がないのでバージョンだけ記録
+      await AsyncStorage.setItem(KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+      return;
+    }
+
+    const migrated = migrateData({
+      settings: settingsJson ? JSON.parse(settingsJson) : null,
+      entries: storedEntries.map(entry => ({ ...entry })),
+    }, storedVersion);
+
+    if (migrated.settings) {
+      await AsyncStorage.setItem(KEYS.USER_SETTINGS, JSON.stringify(migrated.settings));
+    }
+    await repository.replaceAll(migrated.entries as unknown as JournalEntry[]);
+    invalidateSearchIndex();
+    await AsyncStorage.setItem(KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+    console.log(`StorageService: Migrated data from v${storedVersion} to v${CURRENT_SCHEMA_VERSION}`);
+  },
+
+  /**
+   * マイグレーション完了を待つ（起動後の初回アクセス時に一度だけ実行）
+   * 読み書きの前に必ず呼ぶことで、古い形式のデータを直接扱わないようにする
+   */
+  async ensureMigrated(): Promise<void> {
+    if (!migrationPromise) {
+      migrationPromise = this.runMigrations().catch(e => {
+        console.error('Failed to migrate storage', e);
+      });
+    }
+    return migrationPromise;
+  },
+
   // User Settings
   async getUserSettings(): Promise<UserSettings> {
     try {
+      await this.ensureMigrated();
       const json = await AsyncStorage.getItem(KEYS.USER_SETTINGS);
       if (!json) return DEFAULT_SETTINGS;
       return { ...DEFAULT_SETTINGS, ...JSON.parse(json) };
@@ -76,30 +226,61 @@ export const StorageService = {
   // Journal Entries
   async getJournalEntries(): Promise<JournalEntry[]> {
     try {
-      const json = await AsyncStorage.getItem(KEYS.JOURNAL_ENTRIES);
-      if (!json) return [];
-      return JSON.parse(json);
+      await this.ensureMigrated();
+      const repository = await getJournalRepository();
+      return await repository.getAll();
     } catch (e) {
       console.error('Failed to load journal entries', e);
       return [];
     }
   },
 
-  async saveJournalEntry(entry: JournalEntry): Promise<void> {
+  async getJournalEntry(id: string): Promise<JournalEntry | null> {
     try {
-      const current = await this.getJournalEntries();
-      // Check if entry already exists (by ID) to avoid duplicates if calling save twice
-      const exists = current.find(e => e.id === entry.id);
-      let updated;
-      if (exists) {
-        updated = current.map(e => e.id === entry.id ? entry : e);
-      } else {
-        updated = [entry, ...current];
+      await this.ensureMigrated();
+      const repository = await getJournalRepository();
+      return await repository.getById(id);
+    } catch (e) {
+      console.error('Failed to load journal entry', e);
+      return null;
+    }
+  },
+
+  /**
+   * 指定期間の日記を取得（カレンダー表示用）
+   * @param startDate YYYY-MM-DD（この日を含む）
+   * @param endDate YYYY-MM-DD（この日を含む）
+   */
+  async getJournalEntriesInRange(startDate: string, endDate: string): Promise<JournalEntry[]> {
+    try {
+      await this.ensureMigrated();
+      const repository = await getJournalRepository();
+      return await repository.getByDateRange(startDate, endDate);
+    } catch (e) {
+      console.error('Failed to load journal entries in range', e);
+      return [];
+    }
+  },
+
+  /**
+   * 日記を保存する
+   * @param transcript 会話ログ（指定した場合は日記と別に保存し hasTranscript を立てる）
+   */
+  async saveJournalEntry(entry: JournalEntry, transcript?: ConversationLog[]): Promise<void> {
+    try {
+      await this.ensureMigrated();
+      const repository = await getJournalRepository();
+      if (transcript && transcript.length > 0) {
+        await this.saveTranscript(entry.id, transcript);
+        entry = { ...entry, hasTranscript: true };
       }
-      await AsyncStorage.setItem(KEYS.JOURNAL_ENTRIES, JSON.stringify(updated));
+      // Check if entry already exists (by ID) to avoid duplicates if calling save twice
+      const exists = await repository.getById(entry.id);
+      await repository.upsert(exists ? { ...entry, updatedAt: Date.now() } : entry);
+      invalidateSearchIndex();
 
       // Update Streak
-      const streak = calculateStreak(updated);
+      const streak = calculateStreak(await repository.getAll());
       await this.saveUserSettings({ streakCount: streak });
     } catch (e) {
       console.error('Failed to save journal entry', e);
@@ -108,28 +289,80 @@ export const StorageService = {
 
   async updateJournalEntry(entry: JournalEntry): Promise<void> {
     try {
-      const current = await this.getJournalEntries();
-      const updated = current.map(e => e.id === entry.id ? entry : e);
-      await AsyncStorage.setItem(KEYS.JOURNAL_ENTRIES, JSON.stringify(updated));
+      await this.ensureMigrated();
+      const repository = await getJournalRepository();
+      // 存在しない日記は追加しない（従来の動作と同じ）
+      if (!(await repository.getById(entry.id))) return;
+      await repository.upsert({ ...entry, updatedAt: Date.now() });
+      invalidateSearchIndex();
     } catch (e) {
       console.error('Failed to update journal entry', e);
     }
   },
 
-  
   async deleteJournalEntry(id: string): Promise<void> {
     try {
-      const current = await this.getJournalEntries();
-      const updated = current.filter(e => e.id !== id);
-      await AsyncStorage.setItem(KEYS.JOURNAL_ENTRIES, JSON.stringify(updated));
+      await this.ensureMigrated();
+      const repository = await getJournalRepository();
+      const entry = await repository.getById(id);
+      await repository.delete(id);
+      invalidateSearchIndex();
+      await this.deleteTranscript(id);
+      if (entry?.audio) SessionAudio.delete(entry.audio.fileName);
+      // 削除した日記の内容を今後の会話・ふりかえりに持ち込まない
+      await MemoryService.forgetEntries([id]);
+      await RetrospectiveService.forgetEntries([id]);
     } catch (e) {
       console.error('Failed to delete journal entry', e);
     }
   },
 
+  // Transcripts
+  async getTranscript(entryId: string): Promise<ConversationLog[]> {
+    try {
+      const repository = await getJournalRepository();
+      return await repository.getTranscript(entryId);
+    } catch (e) {
+      console.error('Failed to load transcript', e);
+      return [];
+    }
+  },
+
+  async saveTranscript(entryId: string, transcript: ConversationLog[]): Promise<void> {
+    try {
+      const repository = await getJournalRepository();
+      await repository.saveTranscript(entryId, transcript);
+      invalidateSearchIndex();
+    } catch (e) {
+      console.error('Failed to save transcript', e);
+    }
+  },
+
+  async deleteTranscript(entryId: string): Promise<void> {
+    try {
+      const repository = await getJournalRepository();
+      await repository.deleteTranscript(entryId);
+      invalidateSearchIndex();
+    } catch (e) {
+      console.error('Failed to delete transcript', e);
+    }
+  },
+
+  async getAllTranscripts(): Promise<Record<string, ConversationLog[]>> {
+    const repository = await getJournalRepository();
+    return repository.getAllTranscripts();
+  },
+
   async clearAll(): Promise<void> {
     try {
         await AsyncStorage.clear();
+        const repository = await getJournalRepository();
+        await repository.replaceAll([]);
+        await repository.clearTranscripts();
+        invalidateSearchIndex();
+        SessionAudio.clearAll();
+        // 空の状態は最新スキーマとして扱う
+        await AsyncStorage.setItem(KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
     } catch (e) {
         console.error('Failed to clear storage', e);
     }
@@ -140,12 +373,14 @@ export const StorageService = {
     try {
       const settings = await this.getUserSettings();
       const entries = await this.getJournalEntries();
+      const transcripts = await this.getAllTranscripts();
       
       const exportData = {
-        version: 1,
+        version: CURRENT_SCHEMA_VERSION,
         exportedAt: new Date().toISOString(),
         settings,
-        entries
+        entries,
+        transcripts
       };
       
       return JSON.stringify(exportData, null, 2);
@@ -155,18 +390,166 @@ export const StorageService = {
     }
   },
 
-  // Search
-  async searchJournalEntries(query: string): Promise<JournalEntry[]> {
+  /**
+   * エクスポートファイルを検証し、取り込み前のプレビューを作成する
+   * 古いバージョンのバックアップはマイグレーションで最新形式に変換する
+   * @throws 形式が不正な場合（メッセージはそのままユーザーに表示できる）
+   */
+  async parseImportData(json: string): Promise<ImportPreview> {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('JSONファイルとして読み込めませんでした');
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('バックアップファイルの形式が正しくありません');
+    }
+    if (!Number.isInteger(data.version) || data.version < 1) {
+      throw new Error('バックアップのバージョン情報がありません');
+    }
+    if (data.version > CURRENT_SCHEMA_VERSION) {
+      throw new Error('このバックアップは新しいバージョンのアプリで作成されています。アプリを更新してください');
+    }
+    if (!data.settings || typeof data.settings !== 'object' || Array.isArray(data.settings)) {
+      throw new Error('バックアップに設定データが含まれていません');
+    }
+    if (!Array.isArray(data.entries)) {
+      throw new Error('バックアップに日記データが含まれていません');
+    }
+
+    const migrated = migrateData({ settings: data.settings, entries: data.entries }, data.version);
+
+    // 必須項目は直後に検証する
+    const entries = migrated.entries as unknown as JournalEntry[];
+    entries.forEach((entry, index) => {
+      if (typeof entry.id !== 'string' || typeof entry.title !== 'string' ||
+          typeof entry.summary !== 'string' || typeof entry.createdAt !== 'number') {
+        throw new Error(`${index + 1}件目の日記データが破損しています`);
+      }
+    });
+
+    // transcripts は任意項目（会話ログ保存に対応する前のバックアップには含まれない）
+    const transcripts: Record<string, ConversationLog[]> = {};
+    if (data.transcripts !== undefined) {
+      if (!data.transcripts || typeof data.transcripts !== 'object' || Array.isArray(data.transcripts)) {
+        throw new Error('バックアップの会話ログの形式が正しくありません');
+      }
+      Object.entries(data.transcripts).forEach(([entryId, logs]) => {
+        if (Array.isArray(logs)) transcripts[entryId] = logs as ConversationLog[];
+      });
+    }
+
+    const localIds = new Set((await this.getJournalEntries()).map(e => e.id));
+    const conflictCount = entries.filter(e => localIds.has(e.id)).length;
+
+    return {
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : null,
+      settings: { ...DEFAULT_SETTINGS, ...migrated.settings },
+      entries,
+      transcripts,
+      newEntryCount: entries.length - conflictCount,
+      conflictCount,
+    };
+  },
+
+  /**
+   * プレビュー済みのバックアップを取り込む
+   * - replace: 設定と日記をすべてバックアップの内容に置き換える
+   * - merge: 設定は端末のものを維持し、日記をIDで統合する
+   *          同じIDの日記は updatedAt（なければ createdAt）が新しい方を残す
+   */
+  async importData(preview: ImportPreview, mode: ImportMode): Promise<ImportResult> {
     try {
-      const allEntries = await this.getJournalEntries();
-      if (!query.trim()) return allEntries;
+      await this.ensureMigrated();
+      const repository = await getJournalRepository();
+      let merged: JournalEntry[];
+      let result: ImportResult;
+      // 会話ログを書き込む日記ID
+      const importedIds: string[] = [];
+      // 置き換えで消える日記ID
+      const removedIds: string[] = [];
+      // 置き換えで参照されなくなる録音ファイル
+      const removedAudioFiles: string[] = [];
 
-      const lowerQuery = query.toLowerCase();
-      return allEntries.filter(entry => 
-        entry.title.toLowerCase().includes(lowerQuery) ||
-        entry.summary.toLowerCase().includes(lowerQuery) ||
-        entry.emotion.toLowerCase().includes(lowerQuery)
-      );
+      if (mode === 'replace') {
+        const current = await this.getJournalEntries();
+        const incomingIds = new Set(preview.entries.map(e => e.id));
+        const incomingAudioFiles = new Set(preview.entries.map(e => e.audio?.fileName));
+        removedIds.push(...current.map(e => e.id).filter(id => !incomingIds.has(id)));
+        removedAudioFiles.push(...current
+          .map(e => e.audio?.fileName)
+          .filter((fileName): fileName is string => !!fileName && !incomingAudioFiles.has(fileName)));
+        merged = [...preview.entries];
+        result = { added: preview.entries.length, updated: 0, skipped: 0 };
+        await AsyncStorage.setItem(KEYS.USER_SETTINGS, JSON.stringify(preview.settings));
+        // 消える日記の会話ログもここで削除される
+        await repository.clearTranscripts();
+        importedIds.push(...preview.entries.map(e => e.id));
+      } else {
+        const current = await this.getJournalEntries();
+        const byId = new Map(current.map(e => [e.id, e]));
+        result = { added: 0, updated: 0, skipped: 0 };
+
+        for (const incoming of preview.entries) {
+          const existing = byId.get(incoming.id);
+          if (!existing) {
+            byId.set(incoming.id, incoming);
+            importedIds.push(incoming.id);
+            result.added++;
+          } else if (entryTimestamp(incoming) > entryTimestamp(existing)) {
+            byId.set(incoming.id, incoming);
+            importedIds.push(incoming.id);
+            result.updated++;
+          } else {
+            result.skipped++;
+          }
+        }
+        merged = Array.from(byId.values());
+      }
+
+      // 保存順は新しい順（saveJournalEntry と同じ）
+      merged.sort((a, b) => b.createdAt - a.createdAt);
+      await repository.replaceAll(merged);
+      invalidateSearchIndex();
+      removedAudioFiles.forEach(fileName => SessionAudio.delete(fileName));
+      // 消えた日記の内容を今後の会話・ふりかえりに持ち込まない
+      await MemoryService.forgetEntries(removedIds);
+      await RetrospectiveService.forgetEntries(removedIds);
+      for (const id of importedIds) {
+        if (preview.transcripts[id]) {
+          await this.saveTranscript(id, preview.transcripts[id]);
+        }
+      }
+      await this.saveUserSettings({ streakCount: calculateStreak(merged) });
+
+      console.log(`StorageService: Imported (${mode})`, result);
+      return result;
+    } catch (e) {
+      console.error('Failed to import data', e);
+      throw e;
+    }
+  },
+
+  // Search
+  /**
+   * 日記と会話ログの全文検索（関連度の高い順。utils/search を参照）
+   * 検索語が空の場合は絞り込みだけを行い、新しい順で返す
+   */
+  async searchJournalEntries(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    try {
+      await this.ensureMigrated();
+      if (!searchIndexPromise) {
+        const building = Promise.all([this.getJournalEntries(), this.getAllTranscripts()])
+          .then(([entries, transcripts]) => buildSearchIndex(entries, transcripts));
+        searchIndexPromise = building;
+        building.catch(() => {
+          if (searchIndexPromise === building) invalidateSearchIndex();
+        });
+      }
+      return searchIndex(await searchIndexPromise, query, filters);
     } catch (e) {
       console.error('Failed to search entries', e);
       return [];
@@ -1,6 +1,10 @@
 // types/callSession.ts
 // 通話状態マシンの型定義
 
+import type { EmotionWithIntensity } from '../constants/emotions';
+import type { LiveTransportFactory } from '../services/live-transport';
+import type { EntryAudio, TalkTime } from '../services/storage';
+
 /**
  * 通話の状態を表すenum
  * ChatGPT音声モードのようなスムーズな会話を実現するための状態管理
@@ -18,6 +22,8 @@ export enum CallState {
   AI_TALKING = 'AI_TALKING',
   /** ユーザー割り込み発生（AIを中断中） */
   INTERRUPTED = 'INTERRUPTED',
+  /** 接続が切れたため再接続中（会話は継続） */
+  RECONNECTING = 'RECONNECTING',
   /** 通話終了 */
   ENDED = 'ENDED',
 }
@@ -27,20 +33,81 @@ export enum CallState {
  * 日記生成のために蓄積する
  */
 export interface ConversationLog {
-  /** タイムスタンプ（Unix milliseconds） */
+  /** タイムスタンプ（Unix milliseconds。音声の会話では発話の開始時刻） */
   timestamp: number;
   /** 発話者 */
   speaker: 'user' | 'ai';
   /** 発話内容（テキスト） */
   text: string;
+  /** ユーザーが日記に必ず残したいと印をつけた発言（日記生成前の見直しで設定） */
+  highlighted?: boolean;
+}
+
+/**
+ * 通話を終えた時点の記録
+ * 日記を生成する前に会話ログを見直せるよう、生成とは分けて受け取る
+ */
+export interface FinishedCall {
+  /** 保存用に整えた発話単位の会話ログ */
+  transcript: ConversationLog[];
+  /** 会話の録音（録音が有効な場合のみ） */
+  audio?: EntryAudio;
+  /** 通話時間（秒。接続完了から終了まで） */
+  duration?: number;
+  /** ユーザー・AIそれぞれの発話時間 */
+  talkTime?: TalkTime;
+}
+
+/**
+ * 会話終了時の結果
+ * 生成された日記と、保存用に整えた発話単位の会話ログ
+ */
+export interface ConversationResult {
+  title: string;
+  summary: string;
+  emotion: string;
+  /** 主な感情の強さ（1〜5） */
+  emotionIntensity?: number;
+  /** 他に感じていた感情 */
+  secondaryEmotions?: EmotionWithIntensity[];
+  /** 話題のタグ */
+  tags?: string[];
+  /** 発話単位の会話ログ（JournalEntry とは別に保存する） */
+  transcript: ConversationLog[];
+  /** 生成できなかった場合 true（title / summary は仮の内容。GenerationQueue で後から生成する） */
+  pending?: boolean;
+  /** 会話の録音（録音が有効な場合のみ） */
+  audio?: EntryAudio;
+  /** 通話時間（秒。接続完了から終了まで） */
+  duration?: number;
+  /** ユーザー・AIそれぞれの発話時間 */
+  talkTime?: TalkTime;
 }
 
+/**
+ * 音声の入力方法
+ * - auto: 発話を自動で検出する
+ * - hold: ボタンを押している間だけ話す（プッシュトゥトーク）
+ * - toggle: ボタンをタップして話し始め、もう一度タップして終える（押し続けるのが難しい場合）
+ */
+export type InputMode = 'auto' | 'hold' | 'toggle';
+
+export const INPUT_MODES: { mode: InputMode; label: string; description: string }[] = [
+  { mode: 'auto', label: '自動', description: '話し始め・話し終わりを自動で判断します' },
+  { mode: 'hold', label: '押して話す', description: 'ボタンを押している間だけ聞き取ります。周りがうるさいときに' },
+  { mode: 'toggle', label: 'タップで切り替え', description: 'タップで話し始め、もう一度タップで終わります' },
+];
+
 /**
  * 通話セッションの設定
  */
 export interface CallSessionConfig {
   /** システムインストラクション（AIのキャラクター設定） */
   systemInstruction?: string;
+  /** 会話相手のペルソナ（省略時は設定で選択したもの） */
+  personaId?: string;
+  /** 音声の入力方法（省略時は設定で選択したもの） */
+  inputMode?: InputMode;
   /** 無音後のAI問いかけまでの秒数（デフォルト: 3秒） */
   silenceTimeoutMs?: number;
   /** 会話ログが追加された時のコールバック */
@@ -49,6 +116,8 @@ export interface CallSessionConfig {
   onStateChange?: (state: CallState, prevState: CallState) => void;
   /** エラー発生時のコールバック */
   onError?: (error: Error) => void;
+  /** Live API の通信路（省略時は WebSocket。疑似サーバーでのテスト用） */
+  liveTransport?: LiveTransportFactory;
 }
 
 /**
@@ -103,17 +172,17 @@ export const SILENCE_PROMPTS = DEEP_SILENCE_PROMPTS;
 /**
  * 軽い合いの手をランダムに取得（6〜8秒沈黙時用）
  */
-export const getLightSilencePrompt = (): string => {
-  const index = Math.floor(Math.random() * LIGHT_SILENCE_PROMPTS.length);
-  return LIGHT_SILENCE_PROMPTS[index];
+export const getLightSilencePrompt = (prompts: string[] = LIGHT_SILENCE_PROMPTS): string => {
+  const index = Math.floor(Math.random() * prompts.length);
+  return prompts[index];
 };
 
 /**
  * 深い沈黙時のプロンプトをランダムに取得（10秒以上沈黙時用）
  */
-export const getDeepSilencePrompt = (): string => {
-  const index = Math.floor(Math.random() * DEEP_SILENCE_PROMPTS.length);
-  return DEEP_SILENCE_PROMPTS[index];
+export const getDeepSilencePrompt = (prompts: string[] = DEEP_SILENCE_PROMPTS): string => {
+  const index = Math.floor(Math.random() * prompts.length);
+  return prompts[index];
 };
 
 /**
@@ -2,19 +2,13 @@
 // 会話の感情状態を管理するための型定義
 // 直近の会話から感情を推測し、AIの対応を調整する
 
+import type { Emotion } from '../constants/emotions';
+
 /**
- * 会話の感情状態
+ * 会話の感情状態（日記の感情と同じ分類。constants/emotions を参照）
  * 直近3ターンの会話から推測し、AIの反応を調整するために使用
  */
-export type ConversationMood = 
-  | 'tired'      // 疲労（忙しい、疲れた、眠い）
-  | 'happy'      // 喜び（楽しい、嬉しい、良かった）
-  | 'anxious'    // 不安（心配、どうしよう）
-  | 'frustrated' // イライラ（むかつく、最悪）
-  | 'calm'       // 穏やか（まあまあ、普通）
-  | 'excited'    // ワクワク（楽しみ、やった）
-  | 'sad'        // 悲しい（悲しい、辛い、泣きたい）
-  | 'neutral';   // 不明/中立
+export type ConversationMood = Emotion;
 
 /**
  * 感情推測用のキーワードマッピング
@@ -0,0 +1,130 @@
+// 日記の全文検索：表記ゆれの吸収・検索語の分割・絞り込みの基準・強調表示の位置
+
+import type { JournalEntry } from '../../services/storage';
+import { buildSearchIndex, highlightText, normalizeSearchText, searchIndex, tokenize } from '../search';
+
+const entry = (id: string, title: string, summary: string, createdAt: number): JournalEntry => ({
+  id,
+  date: '2026-10-19',
+  title,
+  summary,
+  emotion: 'calm',
+  createdAt,
+});
+
+const terms = (text: string) => tokenize(text).map(token => token.term);
+
+describe('normalizeSearchText', () => {
+  it('converts katakana to hiragana', () => {
+    expect(normalizeSearchText('カフェでコーヒー')).toBe('かふぇでこーひー');
+  });
+
+  it('converts full-width letters and digits to lower-case half-width', () => {
+    expect(normalizeSearchText('ＡＢＣ１２３')).toBe('abc123');
+  });
+
+  it('keeps one character for each character of the original text', () => {
+    const text = 'ＡＢＣのカフェ、ｘ';
+
+    expect(normalizeSearchText(text)).toHaveLength(text.length);
+  });
+});
+
+describe('tokenize', () => {
+  it('splits Japanese text into bigrams', () => {
+    expect(tokenize('散歩した')).toEqual([
+      { term: '散歩', start: 0, end: 2 },
+      { term: '歩し', start: 1, end: 3 },
+      { term: 'した', start: 2, end: 4 },
+    ]);
+  });
+
+  it('keeps an ASCII word as one term and splits it from the Japanese around it', () => {
+    expect(tokenize('新しいiPhone15を買った')).toEqual([
+      { term: '新し', start: 0, end: 2 },
+      { term: 'しい', start: 1, end: 3 },
+      { term: 'iphone15', start: 3, end: 11 },
+      { term: 'を買', start: 11, end: 13 },
+      { term: '買っ', start: 12, end: 14 },
+      { term: 'った', start: 13, end: 15 },
+    ]);
+  });
+
+  it('keeps a single-character run as one term', () => {
+    expect(tokenize('猫と、犬')).toEqual([
+      { term: '猫と', start: 0, end: 2 },
+      { term: '犬', start: 3, end: 4 },
+    ]);
+  });
+
+  it('produces the same terms for katakana and hiragana, full-width and half-width', () => {
+    expect(terms('サンポ')).toEqual(terms('さんぽ'));
+    expect(terms('ＪＡＶＡ')).toEqual(['java']);
+  });
+});
+
+describe('highlightText', () => {
+  it('highlights the matched characters at their position in the original text', () => {
+    expect(highlightText('今日は公園を散歩した', new Set(['公園']))).toEqual([
+      { text: '今日は', highlighted: false },
+      { text: '公園', highlighted: true },
+      { text: 'を散歩した', highlighted: false },
+    ]);
+  });
+
+  it('highlights the original katakana and full-width text', () => {
+    expect(highlightText('ＡＢＣのカフェ', new Set(['abc', 'かふ', 'ふぇ']))).toEqual([
+      { text: 'ＡＢＣ', highlighted: true },
+      { text: 'の', highlighted: false },
+      { text: 'カフェ', highlighted: true },
+    ]);
+  });
+
+  it('cuts out the part with the most matches when the text is too long', () => {
+    const text = `${'あ'.repeat(100)}公園${'い'.repeat(100)}`;
+
+    expect(highlightText(text, new Set(['公園']), 10)).toEqual([
+      { text: '…', highlighted: false },
+      { text: 'あ'.repeat(8), highlighted: false },
+      { text: '公園', highlighted: true },
+      { text: '…', highlighted: false },
+    ]);
+  });
+});
+
+describe('searchIndex', () => {
+  const entries = [
+    entry('exact', '公園散歩', '朝の日課', 1),
+    entry('partial', '朝の時間', '公園で散歩をした', 2),
+    entry('few', '昼の時間', '公園で遊んだ', 3),
+  ];
+  const index = buildSearchIndex(entries, {});
+
+  it('returns only entries containing at least half of the query terms', () => {
+    // 「公園散歩」の検索語は 公園・園散・散歩 の3つ。1つだけ含む日記は除く
+    const ids = searchIndex(index, '公園散歩').map(result => result.entry.id);
+
+    expect(ids).toEqual(['exact', 'partial']);
+  });
+
+  it('matches katakana queries against hiragana text', () => {
+    const katakanaIndex = buildSearchIndex([entry('a', '休日', '近所をさんぽした', 1)], {});
+
+    expect(searchIndex(katakanaIndex, 'サンポ').map(result => result.entry.id)).toEqual(['a']);
+  });
+
+  it('searches the conversation log and uses it for the snippet when it matches more', () => {
+    const transcriptIndex = buildSearchIndex([entry('a', '休日', 'のんびり過ごした', 1)], {
+      a: [{ timestamp: 0, speaker: 'user', text: '図書館で本を借りました' }],
+    });
+
+    const [result] = searchIndex(transcriptIndex, '図書館');
+
+    expect(result.snippetSource).toBe('transcript');
+    expect(result.snippet).toContainEqual({ text: '図書館', highlighted: true });
+  });
+
+  it('returns every entry newest first for an empty query', () => {
+    expect(searchIndex(index, '  ').map(result => result.entry.id)).toEqual(['few', 'partial', 'exact']);
+  });
+});
@@ -0,0 +1,32 @@
+// 見直しで会話ログが録音と食い違うようになったかの判定
+
+import { ConversationLog } from '../../types/callSession';
+import { isTranscriptAltered } from '../transcript';
+
+const ORIGINAL: ConversationLog[] = [
+  { timestamp: 1000, speaker: 'ai', text: '今日はどんな一日でしたか？' },
+  { timestamp: 2000, speaker: 'user', text: '公園を散歩しました' },
+  { timestamp: 3000, speaker: 'ai', text: 'いいですね。' },
+];
+
+describe('isTranscriptAltered', () => {
+  it('is false when nothing was changed', () => {
+    expect(isTranscriptAltered(ORIGINAL, ORIGINAL.map(log => ({ ...log })))).toBe(false);
+  });
+
+  it('ignores highlighting a turn', () => {
+    const reviewed = ORIGINAL.map(log => (log.speaker === 'user' ? { ...log, highlighted: true } : log));
+
+    expect(isTranscriptAltered(ORIGINAL, reviewed)).toBe(false);
+  });
+
+  it('is true when a turn was removed', () => {
+    expect(isTranscriptAltered(ORIGINAL, ORIGINAL.slice(0, 2))).toBe(true);
+  });
+
+  it('is true when the text of a turn was edited', () => {
+    const reviewed = ORIGINAL.map(log => (log.speaker === 'user' ? { ...log, text: '公園を歩きました' } : log));
+
+    expect(isTranscriptAltered(ORIGINAL, reviewed)).toBe(true);
+  });
+});
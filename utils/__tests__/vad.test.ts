@@ -0,0 +1,135 @@
+// 発話検出（utils/vad）の判定：測定・ヒステリシス・ゼロ交差率・デバウンス・残響
+
+import {
+  computeFrameFeatures,
+  createVadState,
+  DEFAULT_VAD_CONFIG,
+  getVadThresholds,
+  isInEchoTail,
+  isVadCalibrated,
+  processVadFrame,
+  VadEvent,
+  VadFrameFeatures,
+  VadState,
+} from '../vad';
+
+const frame = (rms: number, { zeroCrossingRate = 0.1, durationMs = 100 } = {}): VadFrameFeatures => ({
+  rms,
+  zeroCrossingRate,
+  durationMs,
+});
+
+/** フレームを順に処理し、最後の状態と各フレームのイベントを返す */
+const run = (state: VadState, frames: VadFrameFeatures[]) => {
+  const events: (VadEvent | null)[] = [];
+  for (const features of frames) {
+    const result = processVadFrame(state, features);
+    state = result.state;
+    events.push(result.event);
+  }
+  return { state, events };
+};
+
+const repeat = (features: VadFrameFeatures, count: number) => Array.from({ length: count }, () => features);
+
+// 雑音 0.01 で測定を終えた状態（発話開始 0.03・発話終了 0.018）
+const calibrated = () => run(createVadState(), repeat(frame(0.01), 10)).state;
+
+describe('processVadFrame', () => {
+  it('calibrates the noise floor from the median so a spike does not raise it', () => {
+    const levels = [0.01, 0.012, 0.3, 0.01, 0.011, 0.4, 0.01, 0.012, 0.01, 0.011];
+    const { state, events } = run(createVadState(), levels.map(rms => frame(rms)));
+
+    expect(events.every(event => event === null)).toBe(true);
+    expect(isVadCalibrated(state)).toBe(true);
+    expect(state.noiseFloor).toBeCloseTo(0.011, 5);
+    expect(state.calibrationLevels).toEqual([]);
+  });
+
+  it('does not detect speech while calibrating', () => {
+    const { state, events } = run(createVadState(), repeat(frame(0.2), 9));
+
+    expect(isVadCalibrated(state)).toBe(false);
+    expect(state.isSpeaking).toBe(false);
+    expect(events.every(event => event === null)).toBe(true);
+  });
+
+  it('starts speech only after speechDebounceMs of loud frames', () => {
+    const { state, events } = run(calibrated(), repeat(frame(0.05), 3));
+
+    expect(events).toEqual([null, null, 'speechStart']);
+    expect(state.isSpeaking).toBe(true);
+  });
+
+  it('drops a speech candidate when a silent frame comes in between', () => {
+    const { state, events } = run(calibrated(), [frame(0.05), frame(0.05), frame(0.01), frame(0.05), frame(0.05)]);
+
+    expect(events.every(event => event === null)).toBe(true);
+    expect(state.isSpeaking).toBe(false);
+  });
+
+  it('ignores loud frames with a high zero-crossing rate (hiss)', () => {
+    const { state, events } = run(calibrated(), repeat(frame(0.1, { zeroCrossingRate: 0.6 }), 10));
+
+    expect(events.every(event => event === null)).toBe(true);
+    expect(state.isSpeaking).toBe(false);
+  });
+
+  it('keeps speaking between the speech and silence thresholds (hysteresis)', () => {
+    const { speech, silence } = getVadThresholds(0.01);
+    const between = (speech + silence) / 2;
+    const speaking = run(calibrated(), repeat(frame(0.05), 3)).state;
+
+    const { state, events } = run(speaking, repeat(frame(between), 20));
+
+    expect(events.every(event => event === null)).toBe(true);
+    expect(state.isSpeaking).toBe(true);
+  });
+
+  it('ends speech after silenceDebounceMs of quiet frames', () => {
+    const speaking = run(calibrated(), repeat(frame(0.05), 3)).state;
+
+    const { state, events } = run(speaking, repeat(frame(0.01), 5));
+
+    expect(events).toEqual([null, null, null, null, 'speechEnd']);
+    expect(state.isSpeaking).toBe(false);
+  });
+
+  it('follows a rising noise floor slowly and a falling one quickly', () => {
+    const base = calibrated();
+    const rose = processVadFrame(base, frame(0.02)).state.noiseFloor;
+    const fell = processVadFrame({ ...base, noiseFloor: 0.02 }, frame(0.01)).state.noiseFloor;
+
+    expect(rose - 0.01).toBeCloseTo(0.01 * DEFAULT_VAD_CONFIG.noiseRiseRate);
+    expect(0.02 - fell).toBeCloseTo(0.01 * DEFAULT_VAD_CONFIG.noiseFallRate);
+  });
+});
+
+describe('isInEchoTail', () => {
+  const state = calibrated();
+
+  it('always blocks right after playback ends', () => {
+    expect(isInEchoTail(DEFAULT_VAD_CONFIG.minEchoTailMs - 1, frame(0.001), state)).toBe(true);
+  });
+
+  it('ends early once the level falls below the silence threshold', () => {
+    expect(isInEchoTail(DEFAULT_VAD_CONFIG.minEchoTailMs, frame(0.05), state)).toBe(true);
+    expect(isInEchoTail(DEFAULT_VAD_CONFIG.minEchoTailMs, frame(0.01), state)).toBe(false);
+  });
+
+  it('ends after maxEchoTailMs even if it is still loud', () => {
+    expect(isInEchoTail(DEFAULT_VAD_CONFIG.maxEchoTailMs, frame(0.2), state)).toBe(false);
+  });
+});
+
+describe('computeFrameFeatures', () => {
+  it('computes level, zero-crossing rate and duration of PCM samples', () => {
+    const samples = new Int16Array(1600).map((_, i) => (i % 2 === 0 ? 16384 : -16384));
+
+    const features = computeFrameFeatures(samples, 16000);
+
+    expect(features.rms).toBeCloseTo(0.5);
+    expect(features.zeroCrossingRate).toBe(1);
+    expect(features.durationMs).toBe(100);
+  });
+});
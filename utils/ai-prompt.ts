@@ -1,3 +1,5 @@
+import { formatMemoryForPrompt, MemoryService } from '../services/memory';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, Persona } from '../services/persona';
 import { StorageService } from '../services/storage';
 
 const BASE_INSTRUCTION = `あなたは日記のための会話相手です。
@@ -6,22 +8,26 @@ const BASE_INSTRUCTION = `あなたは日記のための会話相手です。
 【最重要ルール】
 ・ユーザーが話すことがメイン。あなたは聞き役です。
 ・あなたの発話は短く。ユーザーにたくさん話してもらいます。
-・ユーザーが考えている沈黙は大切です。急かさないでください。
-・必ず「です」「ます」調の敬語で話してください。
-・1回の発話は1〜2文程度（短く）
+・ユーザーが考えている沈黙は大切です。急かさないでください。`;
 
-【会話の基本姿勢：選択肢を出して話しやすくする】
-質問するときは、必ず選択肢を添えてください。
-これが一番重要です。選択肢があると答えやすくなります。
-✓ 良い例：「お仕事ですか？それともプライベートですか？」
-✓ 良い例：「楽しかったですか？それとも大変でしたか？」
+/**
+ * 共通のルールとペルソナの話し方のルール
+ */
+const buildPersonaInstruction = (persona: Persona): string => `${BASE_INSTRUCTION}
 
-【共感の型：言い換え + 掘り下げ】
-1. まず共感の一言（「それは大変でしたね」「嬉しいですね」）
-2. 相手の言葉を言い換えて確認（「〜ということですか？」）
-3. 選択肢付きの掘り下げ質問`;
+【あなたのキャラクター：${persona.name}】
+${persona.speakingRules}`;
 
-export const generateSystemInstruction = async (): Promise<string> => {
+// 長期記憶の関連度の判定に使う最近の日記の数
+const MEMORY_CONTEXT_ENTRY_COUNT = 5;
+
+/**
+ * 会話用のシステムインストラクション
+ * @param persona 会話相手のペルソナ（省略時は既定のもの）
+ */
+export const generateSystemInstruction = async (
+  persona: Persona = BUILT_IN_PERSONAS.find(p => p.id === DEFAULT_PERSONA_ID)!,
+): Promise<string> => {
   try {
     const settings = await StorageService.getUserSettings();
     const entries = await StorageService.getJournalEntries();
@@ -46,12 +52,24 @@ export const generateSystemInstruction = async (): Promise<string> => {
       ? `\n【過去の会話の記憶（さりげなく触れてください）】\n${recentEntries}`
       : '';
 
-    return `${BASE_INSTRUCTION}
+    // 長期記憶（最近の日記・プロフィールに関係の深いものから、文字数の上限まで）
+    const contextText = [
+      ...entries.slice(0, MEMORY_CONTEXT_ENTRY_COUNT).map(entry => `${entry.title} ${entry.summary} ${(entry.tags ?? []).join(' ')}`),
+      ...(settings.interests ?? []),
+      settings.goals ?? '',
+    ].join('\n');
+    const memories = await MemoryService.retrieve(contextText);
+    const longTermContext = memories.length > 0
+      ? `\n【ユーザーについて覚えていること（必要なときだけ自然に触れてください）】\n${memories.map(formatMemoryForPrompt).join('\n')}`
+      : '';
+
+    return `${buildPersonaInstruction(persona)}
 
 【ユーザー情報】
 ${userContext}
 
 ${memoryContext}
+${longTermContext}
 
 システム設定:
 ユーザーの名前は「${userName}」さんです。会話の中で時々名前を呼んでください。
@@ -60,6 +78,6 @@ ${memoryContext}
 
   } catch (error) {
     console.error('Failed to generate system instruction:', error);
-    return BASE_INSTRUCTION;
+    return buildPersonaInstruction(persona);
   }
 };
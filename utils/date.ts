@@ -68,3 +68,22 @@ export const hasJournaledToday = (entries: JournalEntry[]): boolean => {
         return entryDateStr === todayStr;
     });
 };
+
+/**
+ * Formats a duration in seconds for display (e.g. "1時間5分", "12分", "45秒").
+ */
+export const formatDuration = (totalSeconds: number): string => {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    if (seconds < 60) return seconds === 0 ? '0分' : `${seconds}秒`;
+    const totalMinutes = Math.round(seconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${minutes}分`;
+    return minutes === 0 ? `${hours}時間` : `${hours}時間${minutes}分`;
+};
+
+/**
+ * Formats a date as a local date key (YYYY-MM-DD).
+ */
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
@@ -0,0 +1,286 @@
+import type { Emotion } from '../constants/emotions';
+import type { JournalEntry } from '../services/storage';
+import { ConversationLog } from '../types/callSession';
+
+/**
+ * 日記の全文検索（端末内）
+ * 日本語は単語の区切りがないため、文字の bigram（2文字ずつ）を単位に索引を作り、BM25 で順位付けする
+ * 英数字は単語単位で扱う。カタカナはひらがなに、全角英数は半角に揃えて表記ゆれを吸収する
+ */
+
+/** 検索対象の項目 */
+type SearchField = 'title' | 'tags' | 'summary' | 'transcript';
+
+// 項目ごとの重み（タイトル・タグに一致したものを上位にする）
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  summary: 1,
+  transcript: 0.5,
+};
+
+// BM25 のパラメータ
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 検索語の bigram のうち、この割合以上が含まれる日記だけを結果にする（言い換えによる部分一致を許す）
+const MIN_TERM_COVERAGE = 0.5;
+
+// 検索語がそのまま含まれる場合の加点
+const EXACT_MATCH_BONUS = 2;
+
+/** 検索結果の抜粋の長さ（文字数） */
+export const SNIPPET_LENGTH = 80;
+
+// 区切り文字（空白・句読点・括弧など）
+const SEPARATOR_PATTERN = /[\s、。，．,.・:;：；!?！？「」『』（）()［］[\]{}【】"'“”‘’…〜~\-―_/]/;
+const ASCII_WORD_PATTERN = /[a-z0-9]/;
+
+export interface SearchToken {
+  term: string;
+  /** 元のテキスト上の位置 */
+  start: number;
+  end: number;
+}
+
+export interface SearchFilters {
+  /** 主な感情・副次的な感情のいずれかがこの感情 */
+  emotion?: Emotion;
+  tag?: string;
+  /** 作成日時の範囲（ミリ秒、両端を含む） */
+  since?: number;
+  until?: number;
+}
+
+/** 表示用のテキスト片（highlighted は検索語に一致した部分） */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchResult {
+  entry: JournalEntry;
+  score: number;
+  title: HighlightSegment[];
+  /** 本文または会話ログのうち、一致の多い部分の抜粋 */
+  snippet: HighlightSegment[];
+  snippetSource: 'summary' | 'transcript';
+}
+
+interface IndexedDocument {
+  entry: JournalEntry;
+  fields: Record<SearchField, string>;
+  /** 重み付きの出現回数 */
+  termFrequency: Map<string, number>;
+  length: number;
+  /** 完全一致の判定用（正規化済みの全項目） */
+  normalizedText: string;
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+/**
+ * 1文字を検索用に正規化する（元のテキストと位置を対応させるため、必ず1文字を返す）
+ */
+const normalizeChar = (char: string): string => {
+  const normalized = char.normalize('NFKC').toLowerCase();
+  if (normalized.length !== 1) return char.toLowerCase().length === 1 ? char.toLowerCase() : char;
+  const code = normalized.charCodeAt(0);
+  // カタカナ -> ひらがな
+  if (code >= 0x30a1 && code <= 0x30f6) return String.fromCharCode(code - 0x60);
+  return normalized;
+};
+
+export const normalizeSearchText = (text: string): string =>
+  Array.from({ length: text.length }, (_, i) => normalizeChar(text[i])).join('');
+
+/**
+ * テキストを検索語に分割する
+ * - 英数字の連続: 1語
+ * - それ以外の文字の連続: 2文字ずつ（1文字だけなら1文字）
+ */
+export const tokenize = (text: string): SearchToken[] => {
+  const normalized = normalizeSearchText(text);
+  const tokens: SearchToken[] = [];
+
+  let runStart = 0;
+  const flushRun = (end: number) => {
+    if (end <= runStart) return;
+    const run = normalized.slice(runStart, end);
+    if (ASCII_WORD_PATTERN.test(run[0])) {
+      tokens.push({ term: run, start: runStart, end });
+    } else if (run.length === 1) {
+      tokens.push({ term: run, start: runStart, end });
+    } else {
+      for (let i = 0; i < run.length - 1; i++) {
+        tokens.push({ term: run.slice(i, i + 2), start: runStart + i, end: runStart + i + 2 });
+      }
+    }
+  };
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (SEPARATOR_PATTERN.test(char)) {
+      flushRun(i);
+      runStart = i + 1;
+      continue;
+    }
+    // 英数字とそれ以外の境目で区切る
+    if (i > runStart && ASCII_WORD_PATTERN.test(char) !== ASCII_WORD_PATTERN.test(normalized[i - 1])) {
+      flushRun(i);
+      runStart = i;
+    }
+  }
+  flushRun(normalized.length);
+  return tokens;
+};
+
+const queryTerms = (query: string): string[] => Array.from(new Set(tokenize(query).map(token => token.term)));
+
+/**
+ * 日記と会話ログから検索用の索引を作る
+ * @param transcripts 日記IDごとの会話ログ（ない日記は本文のみを対象にする）
+ */
+export const buildSearchIndex = (entries: JournalEntry[], transcripts: Record<string, ConversationLog[]>): SearchIndex => {
+  const documentFrequency = new Map<string, number>();
+
+  const documents = entries.map(entry => {
+    const fields: Record<SearchField, string> = {
+      title: entry.title,
+      tags: (entry.tags ?? []).join(' '),
+      summary: entry.summary,
+      transcript: (transcripts[entry.id] ?? []).map(log => log.text).join('\n'),
+    };
+
+    const termFrequency = new Map<string, number>();
+    let length = 0;
+    (Object.keys(fields) as SearchField[]).forEach(field => {
+      tokenize(fields[field]).forEach(({ term }) => {
+        termFrequency.set(term, (termFrequency.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+        length += FIELD_WEIGHTS[field];
+      });
+    });
+    termFrequency.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+
+    return {
+      entry,
+      fields,
+      termFrequency,
+      length,
+      normalizedText: normalizeSearchText(`${fields.title}\n${fields.tags}\n${fields.summary}\n${fields.transcript}`),
+    };
+  });
+
+  const averageLength = documents.length > 0
+    ? documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length
+    : 0;
+  return { documents, documentFrequency, averageLength };
+};
+
+export const matchesSearchFilters = (entry: JournalEntry, filters: SearchFilters): boolean => {
+  if (filters.emotion && entry.emotion !== filters.emotion &&
+    !(entry.secondaryEmotions ?? []).some(e => e.emotion === filters.emotion)) {
+    return false;
+  }
+  if (filters.tag && !(entry.tags ?? []).includes(filters.tag)) return false;
+  if (filters.since !== undefined && entry.createdAt < filters.since) return false;
+  if (filters.until !== undefined && entry.createdAt > filters.until) return false;
+  return true;
+};
+
+/**
+ * 検索語に一致する部分を強調したテキスト片に分ける
+ * @param maxLength 指定した場合は一致の最も多い部分を切り出す（前後を「…」で省略）
+ */
+export const highlightText = (text: string, terms: Set<string>, maxLength?: number): HighlightSegment[] => {
+  const marked = new Array<boolean>(text.length).fill(false);
+  tokenize(text).forEach(token => {
+    if (!terms.has(token.term)) return;
+    for (let i = token.start; i < token.end; i++) marked[i] = true;
+  });
+
+  let start = 0;
+  let end = text.length;
+  if (maxLength !== undefined && text.length > maxLength) {
+    // 一致した文字が最も多い範囲（同数なら先頭に近い方）
+    let count = marked.slice(0, maxLength).filter(Boolean).length;
+    let best = count;
+    for (let s = 1; s + maxLength <= text.length; s++) {
+      count += (marked[s + maxLength - 1] ? 1 : 0) - (marked[s - 1] ? 1 : 0);
+      if (count > best) {
+        best = count;
+        start = s;
+      }
+    }
+    end = start + maxLength;
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (let i = start; i < end; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], highlighted: marked[i] });
+    }
+  }
+  if (start > 0) segments.unshift({ text: '…', highlighted: false });
+  if (end < text.length) segments.push({ text: '…', highlighted: false });
+  return segments;
+};
+
+const countHighlighted = (segments: HighlightSegment[]) =>
+  segments.reduce((sum, segment) => sum + (segment.highlighted ? segment.text.length : 0), 0);
+
+/**
+ * 索引から検索する（関連度の高い順、同じなら新しい順）
+ * 検索語が空の場合は絞り込みだけを行い、新しい順で返す
+ */
+export const searchIndex = (index: SearchIndex, query: string, filters: SearchFilters = {}): SearchResult[] => {
+  const terms = queryTerms(query);
+  const termSet = new Set(terms);
+  const normalizedQuery = normalizeSearchText(query.trim());
+  const totalDocuments = index.documents.length;
+
+  const results: SearchResult[] = [];
+  for (const doc of index.documents) {
+    if (!matchesSearchFilters(doc.entry, filters)) continue;
+
+    let score = 0;
+    if (terms.length > 0) {
+      let matched = 0;
+      terms.forEach(term => {
+        const tf = doc.termFrequency.get(term);
+        if (!tf) return;
+        matched++;
+        const df = index.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (totalDocuments - df + 0.5) / (df + 0.5));
+        const norm = 1 - BM25_B + BM25_B * (index.averageLength > 0 ? doc.length / index.averageLength : 1);
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+      });
+      if (matched / terms.length < MIN_TERM_COVERAGE) continue;
+      if (normalizedQuery && doc.normalizedText.includes(normalizedQuery)) score += EXACT_MATCH_BONUS;
+    }
+
+    // 本文と会話ログのうち、一致の多い方を抜粋にする
+    const summarySnippet = highlightText(doc.fields.summary, termSet, SNIPPET_LENGTH);
+    const transcriptSnippet = doc.fields.transcript
+      ? highlightText(doc.fields.transcript.replace(/\n/g, ' / '), termSet, SNIPPET_LENGTH)
+      : [];
+    const useTranscript = countHighlighted(transcriptSnippet) > countHighlighted(summarySnippet);
+
+    results.push({
+      entry: doc.entry,
+      score,
+      title: highlightText(doc.fields.title, termSet),
+      snippet: useTranscript ? transcriptSnippet : summarySnippet,
+      snippetSource: useTranscript ? 'transcript' : 'summary',
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score || b.entry.createdAt - a.entry.createdAt);
+};
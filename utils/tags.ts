@@ -0,0 +1,51 @@
+import { JournalEntry } from '../services/storage';
+
+/** 1件の日記に付けられるタグの最大数 */
+export const MAX_TAGS_PER_ENTRY = 5;
+
+/** タグ1つの最大文字数 */
+export const TAG_MAX_LENGTH = 20;
+
+/**
+ * AIに付けてもらうタグの例（プロンプトと編集画面の候補に使う）
+ * 人の名前など、この一覧にないタグも付けられる
+ */
+export const SUGGESTED_TAGS = ['仕事', '家族', '健康', '趣味', '友人', '恋愛', '勉強', 'お金', '食事', '旅行'];
+
+/**
+ * タグ1つを正規化する（前後の空白と先頭の # を除き、長さを制限）
+ * 空になった場合は null
+ */
+export const normalizeTag = (raw: string): string | null => {
+  const tag = raw.trim().replace(/^[#＃]+/, '').trim();
+  if (!tag) return null;
+  return Array.from(tag).slice(0, TAG_MAX_LENGTH).join('');
+};
+
+/**
+ * タグの一覧を正規化する（文字列以外・空・重複を除き、最大数に制限）
+ * AIの出力や保存済みデータなど、型が保証されない値も受け付ける
+ */
+export const normalizeTags = (raw: unknown): string[] => {
+  if (!Array.isArray(raw)) return [];
+  const tags: string[] = [];
+  for (const value of raw) {
+    if (typeof value !== 'string') continue;
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+    if (tags.length >= MAX_TAGS_PER_ENTRY) break;
+  }
+  return tags;
+};
+
+/**
+ * タグごとの日記の件数（件数の多い順）
+ */
+export const countTags = (entries: JournalEntry[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => {
+    entry.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, 'ja'));
+};
@@ -0,0 +1,114 @@
+import { ConversationLog } from '../types/callSession';
+
+/** ユーザーが印をつけた発言の目印（日記生成プロンプトで必ず残すよう指示する） */
+export const HIGHLIGHT_MARK = '【大切】';
+
+/**
+ * 会話ログを日記生成用のテキストに変換する
+ * 例: "ユーザー: 今日は疲れた\nAI: それは大変でしたね"
+ * 印をつけた発言は "ユーザー: 【大切】今日は疲れた" のように目印を付ける
+ */
+export const formatConversationHistory = (logs: ConversationLog[]): string => {
+  return logs
+    .map(log => `${log.speaker === 'user' ? 'ユーザー' : 'AI'}: ${log.highlighted ? HIGHLIGHT_MARK : ''}${log.text}`)
+    .join('\n');
+};
+
+// 区切りの長さがこの割合を超えたら、次のユーザーの発言の前で区切る
+const SOFT_SPLIT_RATIO = 0.7;
+
+/**
+ * formatConversationHistory の形式の会話を、時間順に maxLength 文字程度ずつに区切る（長い会話の要約用）
+ * 話題の区切りになりやすいユーザーの発言の前で区切り、それでも長すぎる場合は途中の行で区切る
+ */
+export const splitConversationHistory = (history: string, maxLength: number): string[] => {
+  const segments: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const line of history.split('\n')) {
+    const isUserTurn = line.startsWith('ユーザー: ');
+    if (current.length > 0 && (length + line.length > maxLength || (isUserTurn && length >= maxLength * SOFT_SPLIT_RATIO))) {
+      segments.push(current.join('\n'));
+      current = [];
+      length = 0;
+    }
+    current.push(line);
+    length += line.length + 1;
+  }
+  if (current.length > 0) segments.push(current.join('\n'));
+  return segments;
+};
+
+/**
+ * ストリーミングで届いた断片ログを発話単位にまとめる
+ * 同じ話者の連続した断片を1つのターンに連結し、タイムスタンプは最初の断片のものを使う
+ * （RecoveryService に残った断片ログの復元用）
+ */
+export const mergeTranscriptFragments = (fragments: ConversationLog[]): ConversationLog[] => {
+  const turns: ConversationLog[] = [];
+  for (const fragment of fragments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === fragment.speaker) {
+      last.text += fragment.text;
+    } else {
+      turns.push({ ...fragment });
+    }
+  }
+  // ユーザー発話は日本語なのでスペースを除去（GeminiLiveService と同じ処理）
+  return turns.map(turn => turn.speaker === 'user' ? { ...turn, text: turn.text.replace(/\s+/g, '') } : turn);
+};
+
+/**
+ * 通話中の字幕用に、ストリーミングの断片ログを発話単位にまとめる
+ * 同じ話者・同じ発話開始時刻の断片を1つのターンに連結する
+ * （タイムスタンプは GeminiLiveService の確定ログと一致するので、訂正をそのまま対応づけられる）
+ * @param corrections ユーザーが訂正した発話（発話開始時刻 → 訂正後のテキスト）
+ */
+export const groupLiveTranscript = (
+  fragments: ConversationLog[],
+  corrections: Record<number, string> = {},
+): ConversationLog[] => {
+  const turns: ConversationLog[] = [];
+  for (const fragment of fragments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === fragment.speaker && last.timestamp === fragment.timestamp) {
+      last.text += fragment.text;
+    } else {
+      turns.push({ ...fragment });
+    }
+  }
+  return turns.map(turn => {
+    if (turn.speaker !== 'user') return turn;
+    return { ...turn, text: corrections[turn.timestamp] ?? turn.text.replace(/\s+/g, '') };
+  });
+};
+
+/**
+ * 保存用に会話ログを整える
+ * - 前後の空白を除去し、空の発話を削除
+ * - 同じ話者が同じ内容を連続して記録した重複を削除
+ */
+export const cleanTranscript = (logs: ConversationLog[]): ConversationLog[] => {
+  const cleaned: ConversationLog[] = [];
+  for (const log of logs) {
+    const text = log.text.trim();
+    if (!text) continue;
+    const last = cleaned[cleaned.length - 1];
+    if (last && last.speaker === log.speaker && last.text === text) continue;
+    cleaned.push({ ...log, text });
+  }
+  return cleaned;
+};
+
+/**
+ * 見直しで発言を削除・訂正したか（録音の内容と会話ログが食い違うか）
+ * 発言は話者と発話開始時刻で対応づける。印の付け外しは含めない
+ * @param original 通話終了時の会話ログ
+ * @param reviewed 見直し後の会話ログ
+ */
+export const isTranscriptAltered = (original: ConversationLog[], reviewed: ConversationLog[]): boolean => {
+  if (reviewed.length !== original.length) return true;
+  const originalTexts = new Map(original.map(log => [`${log.speaker}:${log.timestamp}`, log.text]));
+  return reviewed.some(log => originalTexts.get(`${log.speaker}:${log.timestamp}`) !== log.text);
+};
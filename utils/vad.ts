@@ -0,0 +1,204 @@
+/**
+ * 発話検出（VAD: Voice Activity Detection）
+ * 通話開始時に周囲の雑音の大きさ（ノイズフロア）を測り、以降も追従させながら、その何倍の音量かで発話を判定する
+ * - 発話開始・終了の閾値を分けて（ヒステリシス）、語の切れ目での細かな切り替わりを防ぐ
+ * - ゼロ交差率が高い（サーッという雑音に近い）フレームは発話とみなさない
+ * 状態は呼び出し側が保持し、フレームごとに processVadFrame で次の状態と発話の開始・終了を受け取る
+ */
+
+export interface VadConfig {
+  /** 発話開始とみなす音量（ノイズフロアの何倍か） */
+  speechRatio: number;
+  /** 発話終了とみなす音量（ノイズフロアの何倍か。speechRatio より小さくする） */
+  silenceRatio: number;
+  /** 発話開始の閾値の下限・上限（RMS、0-1）。静かすぎる・うるさすぎる環境での暴走を防ぐ */
+  minSpeechThreshold: number;
+  maxSpeechThreshold: number;
+  /** 発話とみなすゼロ交差率の上限（0-1） */
+  maxSpeechZeroCrossingRate: number;
+  /** 開始時にノイズフロアを測る時間（ms） */
+  calibrationMs: number;
+  /** ノイズフロアの追従の速さ（1フレームあたり。上がるときは遅く、下がるときは速く） */
+  noiseRiseRate: number;
+  noiseFallRate: number;
+  /** 発話が続いてから開始とみなすまでの時間（ms） */
+  speechDebounceMs: number;
+  /** 無音が続いてから終了とみなすまでの時間（ms） */
+  silenceDebounceMs: number;
+  /** AI音声の再生終了後、残響を発話と誤検出しないよう判定を止める時間（ms、最短・最長） */
+  minEchoTailMs: number;
+  maxEchoTailMs: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  speechRatio: 3,
+  silenceRatio: 1.8,
+  minSpeechThreshold: 0.015,
+  maxSpeechThreshold: 0.25,
+  maxSpeechZeroCrossingRate: 0.4,
+  calibrationMs: 1000,
+  noiseRiseRate: 0.02,
+  noiseFallRate: 0.3,
+  speechDebounceMs: 300,
+  silenceDebounceMs: 500,
+  minEchoTailMs: 300,
+  maxEchoTailMs: 1500,
+};
+
+// デジタル無音などでノイズフロアが 0 になり、閾値が下限に張り付くのを防ぐ
+const MIN_NOISE_FLOOR = 0.002;
+
+export interface VadFrameFeatures {
+  /** 音量（RMS、0-1） */
+  rms: number;
+  /** ゼロ交差率（隣り合うサンプルの符号が変わる割合、0-1） */
+  zeroCrossingRate: number;
+  /** フレームの長さ（ms） */
+  durationMs: number;
+}
+
+export interface VadState {
+  /** 周囲の雑音の大きさ（RMS） */
+  noiseFloor: number;
+  /** 測定中の音量（測定が終わったら空） */
+  calibrationLevels: number[];
+  /** 測定済みの時間（ms） */
+  calibratedMs: number;
+  isSpeaking: boolean;
+  /** 発話の開始・終了の候補が続いている時間（ms） */
+  pendingMs: number;
+}
+
+export type VadEvent = 'speechStart' | 'speechEnd';
+
+export interface VadResult {
+  state: VadState;
+  /** このフレームで発話が開始・終了した場合 */
+  event: VadEvent | null;
+}
+
+export const createVadState = (): VadState => ({
+  noiseFloor: MIN_NOISE_FLOOR,
+  calibrationLevels: [],
+  calibratedMs: 0,
+  isSpeaking: false,
+  pendingMs: 0,
+});
+
+export const isVadCalibrated = (state: VadState, config: VadConfig = DEFAULT_VAD_CONFIG): boolean =>
+  state.calibratedMs >= config.calibrationMs;
+
+/**
+ * Base64 の 16bit PCM（リトルエンディアン）をサンプル列にする
+ */
+export const decodePcm16 = (base64Data: string): Int16Array => {
+  const binaryStr = atob(base64Data);
+  const bytes = new Uint8Array(binaryStr.length - (binaryStr.length % 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = binaryStr.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer);
+};
+
+/**
+ * フレームの特徴量（音量・ゼロ交差率・長さ）
+ */
+export const computeFrameFeatures = (samples: Int16Array, sampleRate: number): VadFrameFeatures => {
+  if (samples.length === 0) return { rms: 0, zeroCrossingRate: 0, durationMs: 0 };
+
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const normalized = samples[i] / 32768;  // -1.0 to 1.0
+    sumSquares += normalized * normalized;
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+  return {
+    rms: Math.sqrt(sumSquares / samples.length),
+    zeroCrossingRate: samples.length > 1 ? crossings / (samples.length - 1) : 0,
+    durationMs: (samples.length / sampleRate) * 1000,
+  };
+};
+
+/**
+ * ノイズフロアから発話開始・終了の閾値を求める
+ */
+export const getVadThresholds = (noiseFloor: number, config: VadConfig = DEFAULT_VAD_CONFIG): { speech: number; silence: number } => {
+  const speech = Math.min(config.maxSpeechThreshold, Math.max(config.minSpeechThreshold, noiseFloor * config.speechRatio));
+  const silence = Math.min(speech, Math.max(noiseFloor, speech * (config.silenceRatio / config.speechRatio)));
+  return { speech, silence };
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * AI音声の再生終了直後の残響とみなすか
+ * 最短時間は必ず止め、それ以降は音量が発話終了の閾値まで下がった時点で判定を再開する
+ * @param sincePlaybackMs 再生終了からの経過時間
+ */
+export const isInEchoTail = (
+  sincePlaybackMs: number,
+  features: VadFrameFeatures,
+  state: VadState,
+  config: VadConfig = DEFAULT_VAD_CONFIG,
+): boolean => {
+  if (sincePlaybackMs < config.minEchoTailMs) return true;
+  if (sincePlaybackMs >= config.maxEchoTailMs) return false;
+  return features.rms >= getVadThresholds(state.noiseFloor, config).silence;
+};
+
+/**
+ * 1フレーム分の判定
+ * 測定中はノイズフロアを測るだけで、発話の判定はしない
+ */
+export const processVadFrame = (
+  state: VadState,
+  features: VadFrameFeatures,
+  config: VadConfig = DEFAULT_VAD_CONFIG,
+): VadResult => {
+  if (!isVadCalibrated(state, config)) {
+    const calibrationLevels = [...state.calibrationLevels, features.rms];
+    const calibratedMs = state.calibratedMs + features.durationMs;
+    const done = calibratedMs >= config.calibrationMs;
+    return {
+      state: {
+        ...state,
+        // 開始直後に話し始めても引きずられないよう中央値を使う
+        noiseFloor: done ? Math.max(MIN_NOISE_FLOOR, median(calibrationLevels)) : state.noiseFloor,
+        calibrationLevels: done ? [] : calibrationLevels,
+        calibratedMs,
+      },
+      event: null,
+    };
+  }
+
+  const { speech, silence } = getVadThresholds(state.noiseFloor, config);
+  const isSpeechFrame = features.rms > speech && features.zeroCrossingRate <= config.maxSpeechZeroCrossingRate;
+  const isSilenceFrame = features.rms < silence;
+
+  // 発話ではないフレームでノイズフロアを追従させる
+  let noiseFloor = state.noiseFloor;
+  if (!isSpeechFrame && (!state.isSpeaking || isSilenceFrame)) {
+    const rate = features.rms < noiseFloor ? config.noiseFallRate : config.noiseRiseRate;
+    noiseFloor = Math.max(MIN_NOISE_FLOOR, noiseFloor + rate * (features.rms - noiseFloor));
+  }
+
+  if (!state.isSpeaking) {
+    // 閾値の間のフレームは候補を保つ（語の切れ目で途切れないように）
+    const pendingMs = isSpeechFrame ? state.pendingMs + features.durationMs : isSilenceFrame ? 0 : state.pendingMs;
+    if (pendingMs >= config.speechDebounceMs) {
+      return { state: { ...state, noiseFloor, isSpeaking: true, pendingMs: 0 }, event: 'speechStart' };
+    }
+    return { state: { ...state, noiseFloor, pendingMs }, event: null };
+  }
+
+  const pendingMs = isSilenceFrame ? state.pendingMs + features.durationMs : 0;
+  if (pendingMs >= config.silenceDebounceMs) {
+    return { state: { ...state, noiseFloor, isSpeaking: false, pendingMs: 0 }, event: 'speechEnd' };
+  }
+  return { state: { ...state, noiseFloor, pendingMs }, event: null };
+};